@@ -1,13 +1,49 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { CONTAINER_CAPACITIES } from './constants';
-import { UserInputs, CalculationResult, SummaryData, Product } from './types';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
-import { saveOrder, getAllOrders, deleteOrder, saveProducts, getSavedProducts, SavedOrder } from './firestoreService';
+import { CONTAINER_TYPES, CURRENCIES, DEFAULT_EXCHANGE_RATES, ROLE_LABELS, ROLE_PERMISSIONS } from './constants';
+import { formatCurrency } from './currency';
+import { UserInputs, OrderInputs, OrderLine, Product, ShippingAllocationMode, ContainerTypeId, CurrencyCode, QuoteDetails, QuoteTemplate, SupplierDocumentDetails } from './types';
+import { calculateResults, calculateSummary, getContainerCount } from './pricingEngine';
+import { resolveOrderInputs, getMissingLines, updateLine, syncMixPercents, setLineQuantities, getSalePricesOutOfRange } from './orderLines';
+import { isMarginPriced, describePricingRule } from './pricingStrategy';
+import { getMinOrderQuantityWarnings, getCustomerTierPrices } from './priceTiers';
+import CostLinesEditor from './components/CostLinesEditor';
+import LandedCostBreakdown from './components/LandedCostBreakdown';
+import OptimizerPanel from './components/OptimizerPanel';
+import ScenarioPanel from './components/ScenarioPanel';
+import SolverPanel from './components/SolverPanel';
+import PricingRuleEditor from './components/PricingRuleEditor';
+import PriceTiersEditor from './components/PriceTiersEditor';
+import OrderHistoryPanel from './components/OrderHistoryPanel';
+import CatalogVersionsPanel from './components/CatalogVersionsPanel';
+import ExchangeRatePanel from './components/ExchangeRatePanel';
+import AuthScreen from './components/AuthScreen';
+import TeamPanel from './components/TeamPanel';
+import QuoteTemplatePanel from './components/QuoteTemplatePanel';
+import QuoteDialog from './components/QuoteDialog';
+import CatalogImportDialog from './components/CatalogImportDialog';
+import SupplierDocumentDialog from './components/SupplierDocumentDialog';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
+import { AppUser, subscribeToAuth, signOutUser, isSignInRequired } from './authService';
+import { generateQuotePDF, Quotation } from './quoteDocument';
+import { exportCatalog, exportOrderResults, SpreadsheetFormat } from './catalogTransfer';
+import { generateSupplierPDF, exportSupplierSpreadsheet, getSupplierFileName, SupplierDocumentKind } from './supplierDocuments';
+import { saveOrder, updateOrder, getAllOrders, deleteOrder, saveProducts, getSavedProducts, startSync, isRemoteStorage, getQuoteTemplate, SavedOrder, OrderRevision } from './dataService';
+import { getSyncState } from './syncStatus';
 
 type ViewMode = 'seller' | 'customer';
 type TabMode = 'calculator' | 'orders';
 
+const SHIPPING_ALLOCATION_OPTIONS: { value: ShippingAllocationMode; label: string; description: string }[] = [
+  { value: 'perUnit', label: 'ליחידה', description: 'מחיר השילוח יחולק שווה בשווה בין כל היחידות' },
+  { value: 'perCBM', label: 'לפי CBM', description: 'מחיר השילוח יחולק יחסית לפי ה-CBM של כל מידה' },
+  { value: 'perValue', label: 'לפי ערך', description: 'מחיר השילוח יחולק יחסית לפי ערך המפעל של כל מידה' },
+];
+
+const UNKNOWN_EXPENSES_ALLOCATION_LABELS: Record<'perValue' | 'perUnit', string> = {
+  perValue: 'לפי ערך',
+  perUnit: 'ליחידה',
+};
+
 // Generate unique ID for products
 const generateProductId = (): string => {
   return `product-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -25,7 +61,6 @@ const getDefaultProducts = (): Product[] => {
       unitsPerCarton: 4,
       factoryPriceUSD: 4.48,
       profitMargin: 40,
-      mixPercent: 0,
       active: true,
     },
     {
@@ -37,7 +72,6 @@ const getDefaultProducts = (): Product[] => {
       unitsPerCarton: 6,
       factoryPriceUSD: 5.51,
       profitMargin: 40,
-      mixPercent: 0,
       active: true,
     },
     {
@@ -49,7 +83,6 @@ const getDefaultProducts = (): Product[] => {
       unitsPerCarton: 6,
       factoryPriceUSD: 5.79,
       profitMargin: 40,
-      mixPercent: 0,
       active: true,
     },
   ];
@@ -57,22 +90,41 @@ const getDefaultProducts = (): Product[] => {
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabMode>('calculator');
-  const [viewMode, setViewMode] = useState<ViewMode>('seller');
-  const tableRef = useRef<HTMLDivElement>(null);
+  const [selectedViewMode, setViewMode] = useState<ViewMode>('seller');
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
-  const [inputs, setInputs] = useState<UserInputs>({
+  // Product catalog shared by all orders, and the order being edited (lines reference the catalog)
+  const [catalog, setCatalog] = useState<Product[]>(getDefaultProducts);
+  const [inputs, setInputs] = useState<OrderInputs>({
     containerType: '40',
-    products: getDefaultProducts(),
-    exchangeRate: 3.2,
+    lines: [],
+    exchangeRates: DEFAULT_EXCHANGE_RATES,
+    saleCurrency: 'ILS',
     shippingCostUSD: 0,
+    shippingAllocation: 'perCBM',
     unknownExpensesType: 'percent',
     unknownExpensesValue: 5, // Default 5%
+    costLines: [],
   });
   
+  // Signed-in user - all Firestore data is scoped to the user's team
+  const [user, setUser] = useState<AppUser | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  // What the user's role allows - the data layer and the security rules enforce the same
+  const permissions = ROLE_PERMISSIONS[user?.role || 'viewer'];
+  // Users who may not see costs always get the customer view
+  const viewMode: ViewMode = permissions.viewCosts ? selectedViewMode : 'customer';
+
   // Firestore state
   const [savedOrders, setSavedOrders] = useState<SavedOrder[]>([]);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [showQuoteDialog, setShowQuoteDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showSupplierDialog, setShowSupplierDialog] = useState(false);
   const [orderName, setOrderName] = useState('');
+  // The saved order currently open in the calculator and its inputs as last saved
+  const [loadedOrder, setLoadedOrder] = useState<{ id: string; name: string } | null>(null);
+  const [savedInputsSnapshot, setSavedInputsSnapshot] = useState<string | null>(null);
+  const [historyOrderId, setHistoryOrderId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [productsChanged, setProductsChanged] = useState(false);
 
@@ -138,46 +190,54 @@ const App: React.FC = () => {
     return columnVisibility[key] ?? columnConfig[key]?.visible ?? true;
   };
 
-  // Product management handlers
+  // Product management handlers - definitions go to the catalog, quantities to the order line
   const handleAddProduct = () => {
+    setCatalog(prev => [
+      ...prev,
+      {
+        id: generateProductId(),
+        name: '',
+        dimensions: '',
+        description: '',
+        masterCartonCBM: 0,
+        unitsPerCarton: 1,
+        factoryPriceUSD: 0,
+        profitMargin: 40,
+        active: true,
+      }
+    ]);
+  };
+
+  const removeLine = (productId: string) => {
     setInputs(prev => ({
       ...prev,
-      products: [
-        ...prev.products,
-        {
-          id: generateProductId(),
-          name: '',
-          dimensions: '',
-          description: '',
-          masterCartonCBM: 0,
-          unitsPerCarton: 1,
-          factoryPriceUSD: 0,
-          profitMargin: 40,
-          mixPercent: 0,
-          active: true,
-        }
-      ]
+      lines: prev.lines.filter(line => line.productId !== productId)
     }));
   };
 
   const handleRemoveProduct = async (productId: string) => {
+    // A product that left the catalog only lives in this order - remove its line
+    if (!catalog.some(p => p.id === productId)) {
+      if (confirm('להסיר את המוצר מההזמנה?')) {
+        removeLine(productId);
+      }
+      return;
+    }
     if (!confirm('האם אתה בטוח שברצונך למחוק את המוצר? פעולה זו בלתי הפיכה.')) {
       return;
     }
     
     try {
       setLoading(true);
-      // Calculate updated products list
-      const updatedProducts = inputs.products.filter(p => p.id !== productId);
+      // Calculate updated catalog
+      const updatedCatalog = catalog.filter(p => p.id !== productId);
       
-      // Save updated products to Firestore first
-      await saveProducts(updatedProducts);
+      // Save updated catalog to Firestore first
+      await saveProducts(updatedCatalog, inputs);
       
       // Only update state after successful save
-      setInputs(prev => ({
-        ...prev,
-        products: updatedProducts
-      }));
+      setCatalog(updatedCatalog);
+      removeLine(productId);
       setProductsChanged(false);
       alert('המוצר נמחק בהצלחה!');
     } catch (error: any) {
@@ -189,269 +249,132 @@ const App: React.FC = () => {
   };
 
 
-  const handleProductChange = (productId: string, field: keyof Product, value: string | number | boolean) => {
+  const handleProductChange = (productId: string, field: keyof Product, value: Product[keyof Product]) => {
+    if (catalog.some(p => p.id === productId)) {
+      setCatalog(prev => prev.map(p =>
+        p.id === productId ? { ...p, [field]: value } : p
+      ));
+      return;
+    }
+    // Not in the catalog - edit the definition embedded in the order line
     setInputs(prev => ({
       ...prev,
-      products: prev.products.map(p =>
-        p.id === productId ? { ...p, [field]: value } : p
+      lines: prev.lines.map(line =>
+        line.productId === productId && line.snapshot ? { ...line, snapshot: { ...line.snapshot, [field]: value } } : line
       )
     }));
   };
 
-  const handleMixPercentChange = (productId: string, value: string) => {
-    const numValue = parseFloat(value) || 0;
+  const handleLineChange = (productId: string, changes: Partial<OrderLine>) => {
     setInputs(prev => ({
       ...prev,
-      products: prev.products.map(p =>
-        p.id === productId ? { ...p, mixPercent: numValue, quantity: undefined } : p
-      )
+      lines: updateLine(prev.lines, productId, changes)
     }));
   };
 
+  const handleMixPercentChange = (productId: string, value: string) => {
+    const numValue = parseFloat(value) || 0;
+    handleLineChange(productId, { mixPercent: numValue, quantity: undefined });
+  };
+
   const handleQuantityChange = (productId: string, value: string) => {
     const numValue = parseFloat(value) || 0;
-    setInputs(prev => {
-      const updatedProducts = prev.products.map(p =>
-        p.id === productId ? { ...p, quantity: numValue } : p
-      );
-
-      // Calculate percentages from quantities based on CBM
-      const totalCBM = CONTAINER_CAPACITIES[prev.containerType];
-      const totalCBMUsed = updatedProducts.reduce((sum, product) => {
-        const qty = product.quantity || 0;
-        const cartons = Math.ceil(qty / product.unitsPerCarton);
-        return sum + (cartons * product.masterCartonCBM);
-      }, 0);
-
-      const productsWithPercents = updatedProducts.map(product => {
-        const qty = product.quantity || 0;
-        const cartons = Math.ceil(qty / product.unitsPerCarton);
-        const cbmUsed = cartons * product.masterCartonCBM;
-        const mixPercent = totalCBM > 0 ? (cbmUsed / totalCBM) * 100 : 0;
-        return { ...product, mixPercent };
-      });
+    // Calculate percentages from quantities based on CBM
+    setInputs(prev => syncMixPercents({ ...prev, lines: updateLine(prev.lines, productId, { quantity: numValue }) }, catalog));
+  };
 
-      return {
-        ...prev,
-        products: productsWithPercents
-      };
-    });
+  // Container type or count changed - products entered by quantity keep their quantity, so their volume share is recalculated
+  const handleContainerChange = (changes: Pick<Partial<UserInputs>, 'containerType' | 'containerCount'>) => {
+    setInputs(prev => syncMixPercents({ ...prev, ...changes }, catalog, true));
   };
 
-  const results = useMemo(() => {
-    const totalCBM = CONTAINER_CAPACITIES[inputs.containerType];
-    
-    // Filter only active products for calculations
-    const activeProducts = inputs.products.filter(p => p.active !== false);
-    
-    // Step 1: Preliminary calculations for each product to get total units
-    const preliminaryCalculations = activeProducts.map(product => {
-      const masterCBM = product.masterCartonCBM;
-      let totalUnits = 0;
-      let allocatedCBM = 0;
-      let cartons = 0;
-      
-      // If quantities are provided, use them directly
-      if (product.quantity && product.quantity > 0) {
-        totalUnits = product.quantity;
-        cartons = Math.ceil(totalUnits / product.unitsPerCarton);
-        allocatedCBM = cartons * masterCBM;
-      } else {
-        // Otherwise, use percentages
-        const mixPercent = product.mixPercent || 0;
-        allocatedCBM = totalCBM * (mixPercent / 100);
-        cartons = Math.floor(allocatedCBM / masterCBM);
-        totalUnits = cartons * product.unitsPerCarton;
-        allocatedCBM = cartons * masterCBM;
-      }
-      
-      return { product, allocatedCBM, cartons, totalUnits, actualCBM: allocatedCBM, masterCBM };
-    });
+  // The order priced against the catalog
+  const pricingInputs = useMemo(() => resolveOrderInputs(inputs, catalog), [inputs, catalog]);
+  const orderProducts = pricingInputs.products;
+  const missingLines = useMemo(() => getMissingLines(inputs, catalog), [inputs, catalog]);
 
-    // Step 2: Calculate all prices first to get total customer transaction
-    const resultsWithPrices = preliminaryCalculations.map(pre => {
-      const { product, totalUnits, actualCBM, masterCBM } = pre;
-      
-      // Calculate customer price: (factoryPrice * (1 + unknownExpenses%)) / (1 - margin%)
-      // Margin applies to factory price + surcharge, using individual profit margin
-      const surchargeMultiplier = 1 + (inputs.unknownExpensesValue / 100);
-      const factoryPriceWithSurchargeUSD = product.factoryPriceUSD * surchargeMultiplier;
-      const marginFactor = 1 - (product.profitMargin / 100);
-      const priceUSD = marginFactor > 0 ? factoryPriceWithSurchargeUSD / marginFactor : 0;
-      const priceILS = priceUSD * inputs.exchangeRate;
-      
-      // Landing cost for profit calculation (factory price + 5% surcharge as an expense)
-      const landingCostUSD = factoryPriceWithSurchargeUSD;
-      const landingCostILS = landingCostUSD * inputs.exchangeRate;
-      
-      // Total factory price with 5% surcharge
-      const totalFactoryPriceUSD = factoryPriceWithSurchargeUSD * totalUnits;
-      const customerTotalTransaction = priceILS * totalUnits;
-      
-      return {
-        ...pre,
-        priceUSD,
-        priceILS,
-        landingCostILS,
-        totalFactoryPriceUSD,
-        customerTotalTransaction
-      };
-    });
+  const results = useMemo(() => calculateResults(pricingInputs), [pricingInputs]);
 
-    // Calculate total customer transaction and unknown expenses
-    const totalCustomerTransaction = resultsWithPrices.reduce((sum, r) => sum + r.customerTotalTransaction, 0);
-    const totalUnknownExpensesILS = inputs.unknownExpensesType === 'percent'
-      ? totalCustomerTransaction * (inputs.unknownExpensesValue / 100)
-      : inputs.unknownExpensesValue;
-    const totalUnknownExpensesUSD = totalUnknownExpensesILS / inputs.exchangeRate;
-    
-    // Calculate total factory price for distribution
-    const totalFactoryPriceAll = resultsWithPrices.reduce((sum, r) => sum + r.totalFactoryPriceUSD, 0);
-    
-    // Calculate total units for shipping distribution (equal division)
-    const totalUnitsAll = resultsWithPrices.reduce((sum, r) => sum + r.totalUnits, 0);
+  const summary = useMemo(() => calculateSummary(pricingInputs, results), [results, pricingInputs]);
 
-    // Step 3: Final calculations with total expenses
-    return resultsWithPrices.map(pre => {
-      const { product, totalUnits, actualCBM, masterCBM, priceUSD, priceILS, landingCostILS, totalFactoryPriceUSD } = pre;
-      
-      // Profit = (customer price - (factory price + 5% surcharge)) × quantity
-      const profitPerUnitILS = priceILS - landingCostILS;
-      const totalProfitILS = profitPerUnitILS * totalUnits;
-      const totalProfitUSD = totalProfitILS / inputs.exchangeRate;
-      const totalCBM = actualCBM;
-      
-      // Calculate proportional unknown expenses for this row
-      const proportionalUnknownExpensesUSD = totalFactoryPriceAll > 0 
-        ? (totalFactoryPriceUSD / totalFactoryPriceAll) * totalUnknownExpensesUSD
-        : 0;
-      
-      // Total expenses = factory price + proportional unknown expenses
-      const totalExpensesUSD = totalFactoryPriceUSD + proportionalUnknownExpensesUSD;
-      
-      // Calculate shipping cost per unit (equal division: total shipping / total units)
-      const shippingPerUnitUSD = totalUnitsAll > 0
-        ? inputs.shippingCostUSD / totalUnitsAll
-        : 0;
-      const shippingPerUnitILS = shippingPerUnitUSD * inputs.exchangeRate;
-      
-      // Calculate customer price with shipping
-      const priceWithShippingUSD = priceUSD + shippingPerUnitUSD;
-      const priceWithShippingILS = priceILS + shippingPerUnitILS;
-      
-      // Get cartons from preliminaryCalculations
-      const cartons = preliminaryCalculations.find(p => p.product.id === product.id)?.cartons || 0;
-
-      // Create BoxSizeData-like object for compatibility with existing table rendering
-      const sizeData = {
-        id: product.id,
-        name: product.name,
-        dimensions: product.dimensions, // Use dimensions description for customer
-        internalDimensions: '', // Not used in new system
-        masterCBM: masterCBM,
-        unitsPerCarton: product.unitsPerCarton,
-        factoryPriceUSD: product.factoryPriceUSD,
-      };
+  // Ordered products below their factory MOQ
+  const moqWarnings = useMemo(() => getMinOrderQuantityWarnings(orderProducts, results), [orderProducts, results]);
 
-      return {
-        size: sizeData,
-        allocatedCBM: actualCBM,
-        cartons,
-        totalUnits,
-        totalCBM,
-        totalFactoryPriceUSD,
-        totalExpensesUSD,
-        priceUSD,
-        priceILS,
-        landingCostILS,
-        totalProfitILS,
-        totalProfitUSD,
-        shippingPerUnitUSD,
-        shippingPerUnitILS,
-        priceWithShippingUSD,
-        priceWithShippingILS,
-        productProfitMargin: product.profitMargin, // Store individual margin for display
-      } as CalculationResult & { productProfitMargin: number };
-    });
-  }, [inputs]);
-
-  const summary = useMemo((): SummaryData => {
-    // Calculate base summary without unknown expenses
-    const baseSummary = results.reduce<Omit<SummaryData, 'totalUnknownExpensesILS'>>((acc, curr) => ({
-      totalUnits: acc.totalUnits + curr.totalUnits,
-      totalCBMUtilized: acc.totalCBMUtilized + curr.allocatedCBM,
-      totalCBM: acc.totalCBM + curr.totalCBM,
-      totalFactoryPriceUSD: acc.totalFactoryPriceUSD + curr.totalFactoryPriceUSD,
-      totalExpensesUSD: acc.totalExpensesUSD + curr.totalExpensesUSD,
-      totalInvestmentUSD: acc.totalInvestmentUSD + (curr.totalUnits * curr.size.factoryPriceUSD),
-      totalProfitILS: acc.totalProfitILS + curr.totalProfitILS
-    }), {
-      totalUnits: 0,
-      totalCBMUtilized: 0,
-      totalCBM: 0,
-      totalFactoryPriceUSD: 0,
-      totalExpensesUSD: 0,
-      totalInvestmentUSD: 0, // Start with 0, will add factory prices
-      totalProfitILS: 0
-    });
+  // USD to ILS rate - the base for every $/₪ pair shown to the seller
+  const usdRate = inputs.exchangeRates.USD;
+  const isCustomerView = viewMode === 'customer';
 
-    // Calculate total customer transaction amount (priceILS * totalUnits for all rows)
-    const totalCustomerTransaction = results.reduce((sum, curr) => sum + (curr.priceILS * curr.totalUnits), 0);
-    
-    // Calculate unknown expenses as total (not per row) - for display only, not used in profit calculation
-    const totalUnknownExpensesILS = inputs.unknownExpensesType === 'percent'
-      ? totalCustomerTransaction * (inputs.unknownExpensesValue / 100)
-      : inputs.unknownExpensesValue;
-
-    // Return summary without subtracting unknown expenses (5% surcharge on factory price already included)
-    return {
-      ...baseSummary,
-      totalInvestmentUSD: baseSummary.totalInvestmentUSD, // No need to add unknown expenses - 5% surcharge already included
-      totalProfitILS: baseSummary.totalProfitILS, // No need to subtract unknown expenses - 5% surcharge already included
-      totalUnknownExpensesILS
-    };
-  }, [results, inputs.unknownExpensesType, inputs.unknownExpensesValue, inputs.exchangeRate]);
+  // Header of the surcharge column: the percentage, or the fixed ILS amount spread over the order
+  const unknownExpensesLabel = inputs.unknownExpensesType === 'percent'
+    ? `${inputs.unknownExpensesValue}% תוספת`
+    : `תוספת (₪${inputs.unknownExpensesValue.toLocaleString()} קבוע)`;
 
-  const totalPercents = inputs.products
+  // Prices a sales rep entered outside the price list's range - the order cannot be saved until they are fixed
+  const salePricesOutOfRange = useMemo(
+    () => user?.role === 'sales' ? getSalePricesOutOfRange(inputs, catalog) : [],
+    [inputs, catalog, user]
+  );
+
+  const totalPercents = orderProducts
     .filter(p => p.active !== false)
     .reduce((sum, p) => sum + (p.mixPercent || 0), 0);
 
-  // Load saved products on mount
   useEffect(() => {
-    const loadProducts = async () => {
-      try {
-        setLoading(true);
-        const savedProducts = await getSavedProducts();
-        if (savedProducts && savedProducts.length > 0) {
-          setInputs(prev => ({
-            ...prev,
-            products: savedProducts
-          }));
-          setProductsChanged(false); // Reset after loading
-        }
-      } catch (error) {
-        console.error('Error loading products:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    loadProducts();
+    return subscribeToAuth((appUser) => {
+      setUser(appUser);
+      setAuthReady(true);
+    });
   }, []);
 
+  const loadProducts = async () => {
+    try {
+      setLoading(true);
+      const savedProducts = await getSavedProducts();
+      // A team without a saved catalog starts from the default products
+      setCatalog(savedProducts && savedProducts.length > 0 ? savedProducts : getDefaultProducts());
+      setProductsChanged(false); // Reset after loading
+    } catch (error) {
+      console.error('Error loading products:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadOrders = async () => {
+    try {
+      const orders = await getAllOrders();
+      setSavedOrders(orders);
+    } catch (error) {
+      console.error('Error loading orders:', error);
+    }
+  };
+
+  // Load the team's saved products after sign-in
+  useEffect(() => {
+    if (!user) return;
+    loadProducts();
+  }, [user?.teamId]);
+
+  // Send writes queued offline whenever the connection returns
+  useEffect(() => {
+    if (!user) return;
+    return startSync();
+  }, [user?.teamId]);
+
   // Load saved orders
   useEffect(() => {
-    const loadOrders = async () => {
-      try {
-        const orders = await getAllOrders();
-        setSavedOrders(orders);
-      } catch (error) {
-        console.error('Error loading orders:', error);
-      }
-    };
+    if (activeTab === 'orders' && user) {
+      loadOrders();
+    }
+  }, [activeTab, user?.teamId]);
+
+  // A sync conflict was resolved - the kept version may differ from what is shown
+  const handleConflictResolved = () => {
+    loadProducts();
     if (activeTab === 'orders') {
       loadOrders();
     }
-  }, [activeTab]);
+  };
 
   // Track products changes (but not on initial load)
   const isInitialLoad = useRef(true);
@@ -461,20 +384,48 @@ const App: React.FC = () => {
       return;
     }
     setProductsChanged(true);
-  }, [inputs.products]);
+  }, [catalog]);
 
-  // Handle save order
-  const handleSaveOrder = async () => {
+  const hasUnsavedChanges = useMemo(
+    () => loadedOrder !== null && JSON.stringify(inputs) !== savedInputsSnapshot,
+    [loadedOrder, inputs, savedInputsSnapshot]
+  );
+
+  // Warn before leaving the page with unsaved changes to the loaded order
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  const confirmDiscardChanges = () => {
+    return !hasUnsavedChanges || confirm(`בהזמנה "${loadedOrder?.name}" יש שינויים שלא נשמרו. להמשיך ולבטל אותם?`);
+  };
+
+  // Handle save order - updates the loaded order unless saving as a new one
+  const handleSaveOrder = async (asNew: boolean) => {
     if (!orderName.trim()) {
       alert('אנא הזן שם להזמנה');
       return;
     }
     try {
       setLoading(true);
-      await saveOrder(orderName.trim(), inputs);
+      const name = orderName.trim();
+      if (loadedOrder && !asNew) {
+        await updateOrder(loadedOrder.id, name, inputs, catalog);
+        setLoadedOrder({ id: loadedOrder.id, name });
+      } else {
+        const orderId = await saveOrder(name, inputs, catalog);
+        setLoadedOrder({ id: orderId, name });
+      }
+      setSavedInputsSnapshot(JSON.stringify(inputs));
       setShowSaveDialog(false);
       setOrderName('');
-      alert('ההזמנה נשמרה בהצלחה!');
+      alert(getSyncState().online ? 'ההזמנה נשמרה בהצלחה!' : 'ההזמנה נשמרה במכשיר ותסונכרן כשהחיבור יחזור');
       if (activeTab === 'orders') {
         const orders = await getAllOrders();
         setSavedOrders(orders);
@@ -490,20 +441,55 @@ const App: React.FC = () => {
   // Handle load order
   const handleLoadOrder = (order: SavedOrder) => {
     if (!order.id) return;
-    // Ensure all products have active field (default to true if not set)
-    const inputsWithActive = {
-      ...order.inputs,
-      products: order.inputs.products.map((product: Product) => ({
-        ...product,
-        active: product.active !== undefined ? product.active : true
-      }))
-    };
-    setInputs(inputsWithActive);
+    if (order.id !== loadedOrder?.id && !confirmDiscardChanges()) return;
+    setInputs(order.inputs);
+    setLoadedOrder({ id: order.id, name: order.name });
+    setSavedInputsSnapshot(JSON.stringify(order.inputs));
     setProductsChanged(false); // Don't mark as changed when loading an order
     setActiveTab('calculator');
     alert('ההזמנה נטענה בהצלחה!');
   };
 
+  // Detach the calculator from the loaded order - the next save creates a new order
+  const handleCloseOrder = () => {
+    setLoadedOrder(null);
+    setSavedInputsSnapshot(null);
+  };
+
+  // After a revision is restored - refresh the list and the calculator if it holds that order
+  const handleRevisionRestored = async (orderId: string, revision: OrderRevision) => {
+    if (loadedOrder?.id === orderId && confirmDiscardChanges()) {
+      setInputs(revision.inputs);
+      setLoadedOrder({ id: orderId, name: revision.name });
+      setSavedInputsSnapshot(JSON.stringify(revision.inputs));
+    }
+    try {
+      const orders = await getAllOrders();
+      setSavedOrders(orders);
+    } catch (error) {
+      console.error('Error loading orders:', error);
+    }
+  };
+
+  // Signed out or moved to another team - the loaded order and the orders list belong to the old team
+  const resetTeamData = () => {
+    setLoadedOrder(null);
+    setSavedInputsSnapshot(null);
+    setHistoryOrderId(null);
+    setSavedOrders([]);
+  };
+
+  const handleTeamChange = (appUser: AppUser) => {
+    resetTeamData();
+    setUser(appUser);
+  };
+
+  const handleSignOut = async () => {
+    if (!confirmDiscardChanges()) return;
+    resetTeamData();
+    await signOutUser();
+  };
+
   // Handle delete order
   const handleDeleteOrder = async (orderId: string) => {
     if (!confirm('האם אתה בטוח שברצונך למחוק את ההזמנה?')) {
@@ -512,6 +498,10 @@ const App: React.FC = () => {
     try {
       setLoading(true);
       await deleteOrder(orderId);
+      if (loadedOrder?.id === orderId) {
+        setLoadedOrder(null);
+        setSavedInputsSnapshot(null);
+      }
       const orders = await getAllOrders();
       setSavedOrders(orders);
       alert('ההזמנה נמחקה בהצלחה!');
@@ -527,9 +517,9 @@ const App: React.FC = () => {
   const handleSaveProducts = async () => {
     try {
       setLoading(true);
-      await saveProducts(inputs.products);
+      await saveProducts(catalog, inputs);
       setProductsChanged(false);
-      alert('המוצרים נשמרו בהצלחה!');
+      alert(getSyncState().online ? 'המוצרים נשמרו בהצלחה!' : 'המוצרים נשמרו במכשיר ויסונכרנו כשהחיבור יחזור');
     } catch (error: any) {
       console.error('Error saving products:', error);
       alert(`שגיאה בשמירת המוצרים: ${error.message || 'שגיאה לא ידועה'}`);
@@ -539,29 +529,25 @@ const App: React.FC = () => {
   };
 
 
-  const exportToPDF = async () => {
-    if (!tableRef.current) return;
-
+  // Customer quotes go through the quotation dialog; the seller's internal quote is exported directly
+  const exportToPDF = async (quotation?: Quotation) => {
     try {
-      const canvas = await html2canvas(tableRef.current, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
+      const pdf = await generateQuotePDF({
+        results,
+        summary,
+        viewMode,
+        columns: Object.keys(columnConfig).filter(isColumnVisible),
+        saleCurrency: inputs.saleCurrency,
+        usdRate,
+        unknownExpensesLabel,
+        orderName: loadedOrder?.name,
+        quotation,
+        priceTiers: getCustomerTierPrices(pricingInputs, results),
       });
-
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('l', 'mm', 'a4');
-
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const imgWidth = canvas.width;
-      const imgHeight = canvas.height;
-      const ratio = Math.min(pdfWidth / imgWidth, pdfHeight / imgHeight);
-      const imgX = (pdfWidth - imgWidth * ratio) / 2;
-      const imgY = 0;
-
-      pdf.addImage(imgData, 'PNG', imgX, imgY, imgWidth * ratio, imgHeight * ratio);
-
+      if (quotation?.details.quoteNumber) {
+        pdf.save(`הצעת_מחיר_${quotation.details.quoteNumber}.pdf`);
+        return;
+      }
       const modeSuffix = viewMode === 'customer' ? '_לקוח' : '_מוכר';
       pdf.save(`הצעת_מחיר_${new Date().toISOString().split('T')[0]}${modeSuffix}.pdf`);
     } catch (error) {
@@ -570,6 +556,69 @@ const App: React.FC = () => {
     }
   };
 
+  // The catalog with the headers the import recognizes; supplier prices and margins only for admins
+  const handleExportCatalog = async (format: SpreadsheetFormat) => {
+    try {
+      await exportCatalog(catalog, format, permissions.viewCosts);
+    } catch (error) {
+      console.error('Error exporting catalog:', error);
+      alert('שגיאה בייצוא הקטלוג. נסה שוב.');
+    }
+  };
+
+  // Every result field of the calculated order; costs and profits only in the seller view
+  const exportOrder = async (format: SpreadsheetFormat) => {
+    try {
+      await exportOrderResults(results, summary, format, {
+        saleCurrency: inputs.saleCurrency,
+        includeCosts: viewMode === 'seller',
+        name: loadedOrder?.name,
+      });
+    } catch (error) {
+      console.error('Error exporting order:', error);
+      alert('שגיאה בייצוא ההזמנה. נסה שוב.');
+    }
+  };
+
+  // The quotation's customer and terms are kept with the order, so saving it keeps them for the next quotation
+  const handleIssueQuote = async (details: QuoteDetails, template: QuoteTemplate) => {
+    setInputs(prev => ({ ...prev, quote: details }));
+    await exportToPDF({ template, details, products: catalog });
+    setShowQuoteDialog(false);
+  };
+
+  // Proforma or packing list for the factory; the buyer is the company of the quotation template.
+  // The supplier and terms are kept with the order like the quotation's.
+  const handleSupplierDocument = async (kind: SupplierDocumentKind, format: SpreadsheetFormat | 'pdf', details: SupplierDocumentDetails) => {
+    setInputs(prev => ({ ...prev, supplierDocument: details }));
+    const data = {
+      results,
+      products: orderProducts,
+      containerType: inputs.containerType,
+      containerCount: getContainerCount(pricingInputs),
+      buyer: await getQuoteTemplate(),
+      details,
+    };
+    if (format === 'pdf') {
+      const pdf = await generateSupplierPDF(kind, data);
+      pdf.save(getSupplierFileName(kind, details));
+    } else {
+      await exportSupplierSpreadsheet(kind, data);
+    }
+  };
+
+  if (!authReady) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center" dir="rtl">
+        <p className="text-gray-500">טוען...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthScreen />;
+  }
+
   return (
     <div className="min-h-screen bg-slate-50 py-8 px-4 sm:px-6 lg:px-8" dir="rtl">
       <div className="max-w-7xl mx-auto">
@@ -580,6 +629,14 @@ const App: React.FC = () => {
             </h1>
             <p className="text-sm md:text-base lg:text-lg opacity-90">קופסאות כובעים - ניהול מלאי ורווחיות</p>
           </div>
+          <div className="flex items-center justify-center gap-3 text-sm text-gray-600">
+            <span>{user.displayName}</span>
+            <span className="text-xs bg-gray-200 text-gray-700 px-2 py-0.5 rounded-md">{ROLE_LABELS[user.role]}</span>
+            {isRemoteStorage() && <SyncStatusIndicator onResolved={handleConflictResolved} />}
+            {isSignInRequired() && (
+              <button onClick={handleSignOut} className="text-blue-600 hover:text-blue-800">התנתק</button>
+            )}
+          </div>
         </header>
 
         {/* Tabs Navigation */}
@@ -607,6 +664,12 @@ const App: React.FC = () => {
         </div>
 
         {/* Orders Tab */}
+        {activeTab === 'orders' && isSignInRequired() && (
+          <TeamPanel user={user} onTeamChange={handleTeamChange} onUserChange={setUser} />
+        )}
+        {activeTab === 'orders' && permissions.manageTeam && (
+          <QuoteTemplatePanel />
+        )}
         {activeTab === 'orders' && (
           <div className="bg-white shadow-lg rounded-xl p-6 mb-8 border border-gray-200">
             <h2 className="text-xl font-bold mb-6 text-slate-800 border-b-2 border-blue-200 pb-3">
@@ -631,9 +694,14 @@ const App: React.FC = () => {
                       <div className="flex-1">
                         <h3 className="text-lg font-semibold text-gray-800 mb-1">
                           {order.name}
+                          {order.id === loadedOrder?.id && (
+                            <span className="mr-2 text-xs font-normal bg-blue-100 text-blue-800 px-2 py-0.5 rounded-md">
+                              {hasUnsavedChanges ? 'פתוחה במחשבון - לא נשמרה' : 'פתוחה במחשבון'}
+                            </span>
+                          )}
                         </h3>
                         <p className="text-sm text-gray-500">
-                          עודכן לאחרונה: {order.updatedAt?.toDate?.().toLocaleDateString('he-IL') || 'לא זמין'}
+                          עודכן לאחרונה: {order.updatedAt ? new Date(order.updatedAt).toLocaleDateString('he-IL') : 'לא זמין'}
                         </p>
                       </div>
                       <div className="flex gap-2">
@@ -643,14 +711,32 @@ const App: React.FC = () => {
                         >
                           טען
                         </button>
-                        <button
-                          onClick={() => order.id && handleDeleteOrder(order.id)}
-                          className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors text-sm font-medium"
-                        >
-                          מחק
-                        </button>
+                        {permissions.viewCosts && (
+                          <button
+                            onClick={() => setHistoryOrderId(historyOrderId === order.id ? null : order.id || null)}
+                            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-sm font-medium"
+                          >
+                            היסטוריה
+                          </button>
+                        )}
+                        {permissions.viewCosts && (
+                          <button
+                            onClick={() => order.id && handleDeleteOrder(order.id)}
+                            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors text-sm font-medium"
+                          >
+                            מחק
+                          </button>
+                        )}
                       </div>
                     </div>
+                    {historyOrderId === order.id && permissions.viewCosts && (
+                      <OrderHistoryPanel
+                        order={order}
+                        catalog={catalog}
+                        onRestored={(revision) => order.id && handleRevisionRestored(order.id, revision)}
+                        onClose={() => setHistoryOrderId(null)}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -662,6 +748,24 @@ const App: React.FC = () => {
         {activeTab === 'calculator' && (
           <>
 
+        {/* Loaded Order Status */}
+        {loadedOrder && (
+          <div className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg p-3 mb-4 md:mb-6 border ${
+            hasUnsavedChanges ? 'bg-amber-50 border-amber-300' : 'bg-blue-50 border-blue-200'
+          }`}>
+            <p className="text-sm text-gray-800">
+              עורך את ההזמנה: <b>{loadedOrder.name}</b>
+              {hasUnsavedChanges && <span className="mr-2 text-amber-700 font-semibold">● שינויים שלא נשמרו</span>}
+            </p>
+            <button
+              onClick={handleCloseOrder}
+              className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 transition-colors text-sm"
+            >
+              נתק מההזמנה
+            </button>
+          </div>
+        )}
+
         {/* User Input Section */}
         <div className="bg-white shadow-lg rounded-xl p-6 mb-8 border border-gray-200">
           <h2 className="text-xl font-bold mb-6 text-slate-800 border-b-2 border-blue-200 pb-3 flex items-center gap-2">
@@ -670,7 +774,9 @@ const App: React.FC = () => {
             </svg>
             נתוני הזמנה
           </h2>
-          
+
+          {/* Viewers read the order; sales reps change quantities and margins but no costs */}
+          <fieldset disabled={!permissions.editOrders}>
           {/* First Row: 4 Input Fields */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6 mb-4 md:mb-6">
             {/* Container Type */}
@@ -678,29 +784,88 @@ const App: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-2">סוג מכולה</label>
               <select
                 value={inputs.containerType}
-                onChange={(e) => setInputs(prev => ({ ...prev, containerType: e.target.value as '20' | '40' }))}
+                onChange={(e) => handleContainerChange({ containerType: e.target.value as ContainerTypeId })}
                 className="w-full border-gray-300 border rounded-md p-2.5 md:p-2 focus:ring-blue-500 focus:border-blue-500 text-base md:text-sm"
               >
-                <option value="20">מכולה 20 ({CONTAINER_CAPACITIES['20']} CBM)</option>
-                <option value="40">מכולה 40 ({CONTAINER_CAPACITIES['40']} CBM)</option>
+                {Object.values(CONTAINER_TYPES).map(container => (
+                  <option key={container.id} value={container.id}>
+                    {container.label} ({container.freightBasis === 'perCBM' ? `עד ${container.usableCBM}` : container.usableCBM} CBM)
+                  </option>
+                ))}
               </select>
+              {CONTAINER_TYPES[inputs.containerType].freightBasis === 'perContainer' && (
+                <div className="mt-2 flex items-center gap-2">
+                  <label className="text-xs text-gray-600 whitespace-nowrap">מספר מכולות</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={getContainerCount(inputs)}
+                    onChange={(e) => handleContainerChange({ containerCount: parseInt(e.target.value) || 1 })}
+                    className="w-full border-gray-300 border rounded-md p-1.5 text-sm"
+                  />
+                </div>
+              )}
             </div>
 
-            {/* Exchange Rate */}
+            {/* Exchange Rates and Sale Currency */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">שער דולר (ILS)</label>
-              <input 
-                type="number"
-                step="0.01"
-                value={inputs.exchangeRate}
-                onChange={(e) => setInputs(prev => ({ ...prev, exchangeRate: parseFloat(e.target.value) || 0 }))}
-                className="w-full border-gray-300 border rounded-md p-2.5 md:p-2 text-base md:text-sm"
-              />
+              <label className="block text-sm font-medium text-gray-700 mb-1">שערי מטבע (₪ ליחידה)</label>
+              <fieldset disabled={!permissions.editCosts} className="space-y-1">
+                {CURRENCIES.filter(currency => currency.code !== 'ILS').map(currency => (
+                  <div key={currency.code} className="flex items-center gap-2">
+                    <span className="w-10 text-xs text-gray-600">{currency.symbol} {currency.code}</span>
+                    <input
+                      type="number"
+                      step="0.001"
+                      value={inputs.exchangeRates[currency.code]}
+                      onChange={(e) => setInputs(prev => ({
+                        ...prev,
+                        exchangeRates: { ...prev.exchangeRates, [currency.code]: parseFloat(e.target.value) || 0 },
+                        rateDate: undefined
+                      }))}
+                      className="w-full border-gray-300 border rounded-md p-1.5 text-sm"
+                    />
+                  </div>
+                ))}
+              </fieldset>
+              <div className="mt-2 flex items-center gap-2">
+                <label className="text-xs text-gray-600 whitespace-nowrap">מטבע מכירה</label>
+                <select
+                  value={inputs.saleCurrency}
+                  onChange={(e) => setInputs(prev => ({ ...prev, saleCurrency: e.target.value as CurrencyCode }))}
+                  className="w-full border-gray-300 border rounded-md p-1.5 text-sm"
+                >
+                  {CURRENCIES.map(currency => (
+                    <option key={currency.code} value={currency.code}>{currency.symbol} {currency.label}</option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             {/* Shipping Cost */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">מחיר המשלוח (USD)</label>
+            <fieldset disabled={!permissions.editCosts} className="min-w-0">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {CONTAINER_TYPES[inputs.containerType].freightBasis === 'perCBM' ? 'מחיר המשלוח ל-CBM (USD)' : 'מחיר המשלוח למכולה (USD)'}
+              </label>
+              <div className="mb-2">
+                <div className="flex gap-1 bg-gray-50 p-1 rounded-md">
+                  {SHIPPING_ALLOCATION_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setInputs(prev => ({ ...prev, shippingAllocation: option.value }))}
+                      className={`flex-1 px-2 py-1.5 text-xs font-medium rounded transition-colors ${
+                        inputs.shippingAllocation === option.value
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-transparent text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <div className="relative">
                 <input 
                   type="number"
@@ -713,12 +878,12 @@ const App: React.FC = () => {
                 <span className="absolute left-2 top-2 text-gray-400 text-sm">$</span>
               </div>
               <p className="mt-1 text-xs text-gray-500">
-                מחיר השילוח יחולק יחסית לפי ה-CBM של כל מידה
+                {SHIPPING_ALLOCATION_OPTIONS.find(option => option.value === inputs.shippingAllocation)?.description}
               </p>
-            </div>
+            </fieldset>
 
             {/* Unknown Expenses */}
-            <div>
+            <fieldset disabled={!permissions.editCosts} className="min-w-0">
               <label className="block text-sm font-medium text-gray-700 mb-2">הוצאות לא ידועות</label>
               <div className="mb-2">
                 <div className="flex gap-3 bg-gray-50 p-1 rounded-md">
@@ -759,20 +924,48 @@ const App: React.FC = () => {
                   {inputs.unknownExpensesType === 'percent' ? '%' : '₪'}
                 </span>
               </div>
+              {inputs.unknownExpensesType === 'fixed' && (
+                <div className="mt-2 flex gap-3 bg-gray-50 p-1 rounded-md">
+                  {(['perValue', 'perUnit'] as const).map(allocation => (
+                    <button
+                      key={allocation}
+                      type="button"
+                      onClick={() => setInputs(prev => ({ ...prev, unknownExpensesAllocation: allocation }))}
+                      className={`flex-1 px-3 py-1.5 text-xs font-medium rounded transition-colors ${
+                        (inputs.unknownExpensesAllocation || 'perValue') === allocation
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-transparent text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {UNKNOWN_EXPENSES_ALLOCATION_LABELS[allocation]}
+                    </button>
+                  ))}
+                </div>
+              )}
               <p className="mt-1 text-xs text-gray-500">
                 {inputs.unknownExpensesType === 'percent' 
                   ? 'מסכום כולל של העסקה (מחיר לקוח)'
-                  : 'סכום קבוע בשקלים'}
+                  : (inputs.unknownExpensesAllocation || 'perValue') === 'perValue'
+                    ? 'סכום קבוע בשקלים, מחולק יחסית לפי ערך המפעל של כל מוצר'
+                    : 'סכום קבוע בשקלים, מחולק שווה בשווה בין כל היחידות'}
               </p>
-            </div>
+            </fieldset>
           </div>
 
+          {/* Landed Cost Lines - Full Width */}
+          {permissions.viewCosts && (
+            <CostLinesEditor
+              costLines={inputs.costLines || []}
+              onChange={(costLines) => setInputs(prev => ({ ...prev, costLines }))}
+            />
+          )}
+
           {/* Second Row: Products Table - Full Width */}
           <div className="bg-slate-50 p-3 md:p-4 rounded-md">
               <div className="flex justify-between items-center mb-3 md:mb-4">
                 <label className="block text-sm font-medium text-gray-700">מוצרים</label>
                 <div className="flex gap-2">
-                  {productsChanged && (
+                  {productsChanged && permissions.editCatalog && (
                     <button
                       onClick={handleSaveProducts}
                       disabled={loading}
@@ -784,15 +977,37 @@ const App: React.FC = () => {
                       שמור מוצרים
                     </button>
                   )}
+                  {permissions.editCatalog && (
+                    <button
+                      onClick={() => setShowImportDialog(true)}
+                      className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50 transition-colors"
+                    >
+                      ייבוא מקובץ
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleExportCatalog('xlsx')}
+                    className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    ייצוא Excel
+                  </button>
                   <button
-                    onClick={handleAddProduct}
-                    className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors flex items-center gap-2"
+                    onClick={() => handleExportCatalog('csv')}
+                    className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50 transition-colors"
                   >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                    </svg>
-                    הוסף מוצר
+                    CSV
                   </button>
+                  {permissions.editCatalog && (
+                    <button
+                      onClick={handleAddProduct}
+                      className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                      </svg>
+                      הוסף מוצר
+                    </button>
+                  )}
                 </div>
               </div>
               
@@ -805,17 +1020,25 @@ const App: React.FC = () => {
                       <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">שם</th>
                       <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">קרטון CBM מאסטר</th>
                       <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">יח' בקרטון</th>
-                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">מחיר מפעל ($)</th>
-                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">רווחיות (%)</th>
+                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">משקל קרטון (ק"ג)</th>
+                      {permissions.viewCosts && (
+                        <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">מחיר מפעל</th>
+                      )}
+                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">{permissions.viewCosts ? 'רווחיות (%)' : 'מחיר ליחידה'}</th>
                       <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">% נפח</th>
                       <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">כמות</th>
                       <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap"></th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {inputs.products.map((product) => {
+                    {orderProducts.map((product) => {
                       const hasQuantity = product.quantity && product.quantity > 0;
                       const isExpanded = expandedRows.has(product.id);
+                      const line = inputs.lines.find(l => l.productId === product.id);
+                      const catalogProduct = catalog.find(p => p.id === product.id);
+                      const hasPriceOverride = line?.factoryPriceOverride !== undefined;
+                      const hasMarginOverride = line?.profitMarginOverride !== undefined;
+                      const salesPrice = (catalogProduct || line?.snapshot)?.salesPrice;
                       return (
                         <React.Fragment key={product.id}>
                           <tr className={`hover:bg-gray-50 ${product.active === false ? 'opacity-50 bg-gray-100' : ''}`}>
@@ -839,7 +1062,7 @@ const App: React.FC = () => {
                               <input
                                 type="checkbox"
                                 checked={product.active !== false}
-                                onChange={(e) => handleProductChange(product.id, 'active', e.target.checked)}
+                                onChange={(e) => handleLineChange(product.id, { active: e.target.checked })}
                                 className="w-5 h-5 cursor-pointer"
                                 style={{ accentColor: '#2563eb' }}
                                 title={product.active === false ? "מוצר לא פעיל - לא יוצג בחישובים" : "מוצר פעיל"}
@@ -852,7 +1075,11 @@ const App: React.FC = () => {
                                 onChange={(e) => handleProductChange(product.id, 'name', e.target.value)}
                                 className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[120px]"
                                 placeholder="שם מוצר"
+                                disabled={!permissions.editCatalog}
                               />
+                              {!catalogProduct && (
+                                <span className="text-xs text-amber-700">הוסר מהקטלוג - נשמר בהזמנה</span>
+                              )}
                             </td>
                             <td className="px-3 py-3 whitespace-nowrap">
                               <input
@@ -861,6 +1088,7 @@ const App: React.FC = () => {
                                 onChange={(e) => handleProductChange(product.id, 'masterCartonCBM', parseFloat(e.target.value) || 0)}
                                 className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px]"
                                 placeholder="0.059"
+                                disabled={!permissions.editCatalog}
                                 step="0.001"
                               />
                             </td>
@@ -872,27 +1100,80 @@ const App: React.FC = () => {
                                 className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px]"
                                 placeholder="1"
                                 min="1"
+                                disabled={!permissions.editCatalog}
                               />
                             </td>
                             <td className="px-3 py-3 whitespace-nowrap">
                               <input
                                 type="number"
-                                value={product.factoryPriceUSD || ''}
-                                onChange={(e) => handleProductChange(product.id, 'factoryPriceUSD', parseFloat(e.target.value) || 0)}
+                                value={product.grossWeightKg || ''}
+                                onChange={(e) => handleProductChange(product.id, 'grossWeightKg', parseFloat(e.target.value) || 0)}
                                 className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px]"
                                 placeholder="0"
-                                step="0.01"
+                                step="0.1"
+                                min="0"
+                                disabled={!permissions.editCatalog}
                               />
                             </td>
+                            {permissions.viewCosts && (
+                              <td className="px-3 py-3 whitespace-nowrap">
+                                <div className="flex gap-1">
+                                  <input
+                                    type="number"
+                                    value={product.factoryPriceUSD || ''}
+                                    onChange={(e) => hasPriceOverride
+                                      ? handleLineChange(product.id, { factoryPriceOverride: parseFloat(e.target.value) || 0 })
+                                      : handleProductChange(product.id, 'factoryPriceUSD', parseFloat(e.target.value) || 0)}
+                                    className={`w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[80px] ${hasPriceOverride ? 'bg-amber-50 border-amber-300' : ''}`}
+                                    title={hasPriceOverride ? 'מחיר מיוחד להזמנה זו' : 'מחיר הקטלוג'}
+                                    placeholder="0"
+                                    step="0.01"
+                                  />
+                                  <select
+                                    value={product.purchaseCurrency || 'USD'}
+                                    onChange={(e) => handleProductChange(product.id, 'purchaseCurrency', e.target.value)}
+                                    className="border-gray-300 border rounded-md px-1 py-2 text-sm"
+                                    title="מטבע רכש"
+                                  >
+                                    {CURRENCIES.filter(currency => currency.code !== 'ILS').map(currency => (
+                                      <option key={currency.code} value={currency.code}>{currency.symbol}</option>
+                                    ))}
+                                  </select>
+                                </div>
+                              </td>
+                            )}
                             <td className="px-3 py-3 whitespace-nowrap">
-                              <input
-                                type="number"
-                                value={product.profitMargin || ''}
-                                onChange={(e) => handleProductChange(product.id, 'profitMargin', parseFloat(e.target.value) || 0)}
-                                className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px]"
-                                placeholder="40"
-                                step="0.1"
-                              />
+                              {!permissions.viewCosts && salesPrice ? (
+                                <input
+                                  type="number"
+                                  value={line?.salePriceOverride ?? salesPrice.price.toFixed(2)}
+                                  onChange={(e) => handleLineChange(product.id, { salePriceOverride: parseFloat(e.target.value) || 0 })}
+                                  className={`w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px] ${
+                                    salePricesOutOfRange.some(l => l.productId === product.id)
+                                      ? 'bg-red-50 border-red-400'
+                                      : line?.salePriceOverride !== undefined ? 'bg-amber-50 border-amber-300' : ''
+                                  }`}
+                                  title={`מחיר ליחידה להזמנה זו (${formatCurrency(salesPrice.minPrice, salesPrice.currency)}-${formatCurrency(salesPrice.maxPrice, salesPrice.currency)})`}
+                                  disabled={!permissions.editOrders}
+                                  step="0.01"
+                                />
+                              ) : permissions.viewCosts && isMarginPriced(product) ? (
+                                <input
+                                  type="number"
+                                  value={product.profitMargin || ''}
+                                  onChange={(e) => hasMarginOverride
+                                    ? handleLineChange(product.id, { profitMarginOverride: parseFloat(e.target.value) || 0 })
+                                    : handleProductChange(product.id, 'profitMargin', parseFloat(e.target.value) || 0)}
+                                  className={`w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px] ${hasMarginOverride ? 'bg-amber-50 border-amber-300' : ''}`}
+                                  title={hasMarginOverride ? 'רווחיות מיוחדת להזמנה זו' : 'רווחיות הקטלוג'}
+                                  placeholder="40"
+                                  step="0.1"
+                                />
+                              ) : (
+                                <div className="text-xs text-gray-600 min-w-[100px] whitespace-normal" title="המחיר אינו נקבע לפי רווחיות - ראה תמחור בפרטים הנוספים">
+                                  {describePricingRule(product.pricing)}
+                                </div>
+                              )}
                             </td>
                             <td className="px-3 py-3 whitespace-nowrap">
                               <input
@@ -918,7 +1199,7 @@ const App: React.FC = () => {
                               />
                             </td>
                             <td className="px-3 py-3 whitespace-nowrap">
-                              {inputs.products.length > 1 && (
+                              {((orderProducts.length > 1 && permissions.editCatalog) || !catalogProduct) && (
                                 <button
                                   onClick={() => handleRemoveProduct(product.id)}
                                   className="text-red-600 hover:text-red-800"
@@ -933,13 +1214,13 @@ const App: React.FC = () => {
                           </tr>
                           {isExpanded && (
                             <tr className="bg-gray-50">
-                              <td colSpan={10} className="px-4 py-4">
+                              <td colSpan={permissions.viewCosts ? 11 : 10} className="px-4 py-4">
                                 <div className="max-w-3xl mx-auto">
                                   <div className="bg-white rounded-lg border border-gray-200 p-5 shadow-sm">
                                     <div className="font-semibold text-gray-800 mb-4 text-base border-b border-gray-200 pb-2">פרטים נוספים</div>
                                     
                                     {/* Product Details Grid */}
-                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
                                       <div className="bg-gray-50 rounded-md p-3">
                                         <div className="text-xs text-gray-500 mb-1">CBM מאסטר</div>
                                         <div className="text-sm font-semibold text-gray-800">{product.masterCartonCBM.toFixed(3)}</div>
@@ -949,15 +1230,82 @@ const App: React.FC = () => {
                                         <div className="text-sm font-semibold text-gray-800">{product.unitsPerCarton}</div>
                                       </div>
                                       <div className="bg-gray-50 rounded-md p-3">
-                                        <div className="text-xs text-gray-500 mb-1">מחיר מפעל</div>
-                                        <div className="text-sm font-semibold text-gray-800">${product.factoryPriceUSD.toFixed(2)}</div>
-                                      </div>
-                                      <div className="bg-gray-50 rounded-md p-3">
-                                        <div className="text-xs text-gray-500 mb-1">רווחיות</div>
-                                        <div className="text-sm font-semibold text-gray-800">{product.profitMargin}%</div>
+                                        <div className="text-xs text-gray-500 mb-1">משקל קרטון</div>
+                                        <div className="text-sm font-semibold text-gray-800">{product.grossWeightKg ? `${product.grossWeightKg} ק"ג` : '-'}</div>
                                       </div>
+                                      {permissions.viewCosts && (
+                                        <div className="bg-gray-50 rounded-md p-3">
+                                          <div className="text-xs text-gray-500 mb-1">מחיר מפעל</div>
+                                          <div className="text-sm font-semibold text-gray-800">{formatCurrency(product.factoryPriceUSD, product.purchaseCurrency || 'USD')}</div>
+                                        </div>
+                                      )}
+                                      {permissions.viewCosts && (
+                                        <div className="bg-gray-50 rounded-md p-3">
+                                          <div className="text-xs text-gray-500 mb-1">רווחיות</div>
+                                          <div className="text-sm font-semibold text-gray-800">{product.profitMargin}%</div>
+                                        </div>
+                                      )}
                                     </div>
                                     
+                                    {/* Order Price Overrides */}
+                                    <div className="flex flex-wrap gap-2 mb-4">
+                                      {catalogProduct && permissions.viewCosts && (
+                                        <button
+                                          onClick={() => handleLineChange(product.id, {
+                                            factoryPriceOverride: hasPriceOverride ? undefined : catalogProduct.factoryPriceUSD
+                                          })}
+                                          className="px-3 py-1.5 bg-gray-100 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors"
+                                        >
+                                          {hasPriceOverride
+                                            ? `חזור למחיר הקטלוג (${formatCurrency(catalogProduct.factoryPriceUSD, catalogProduct.purchaseCurrency || 'USD')})`
+                                            : 'מחיר מיוחד להזמנה זו'}
+                                        </button>
+                                      )}
+                                      {catalogProduct && permissions.viewCosts && (
+                                        <button
+                                          onClick={() => handleLineChange(product.id, {
+                                            profitMarginOverride: hasMarginOverride ? undefined : catalogProduct.profitMargin
+                                          })}
+                                          className="px-3 py-1.5 bg-gray-100 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors"
+                                        >
+                                          {hasMarginOverride
+                                            ? `חזור לרווחיות הקטלוג (${catalogProduct.profitMargin}%)`
+                                            : 'רווחיות מיוחדת להזמנה זו'}
+                                        </button>
+                                      )}
+                                      {line?.salePriceOverride !== undefined && (
+                                        <button
+                                          onClick={() => handleLineChange(product.id, { salePriceOverride: undefined })}
+                                          className="px-3 py-1.5 bg-gray-100 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors"
+                                        >
+                                          {salesPrice
+                                            ? `חזור למחיר המחירון (${formatCurrency(salesPrice.price, salesPrice.currency)})`
+                                            : 'בטל את המחיר שנקבע להזמנה זו'}
+                                        </button>
+                                      )}
+                                    </div>
+
+                                    {/* Pricing Strategy */}
+                                    <div className="mb-4">
+                                      <label className="block font-medium text-sm text-gray-700 mb-2">תמחור:</label>
+                                      <PricingRuleEditor
+                                        rule={product.pricing}
+                                        onChange={(rule) => handleProductChange(product.id, 'pricing', rule)}
+                                        disabled={!permissions.editCatalog}
+                                      />
+                                    </div>
+
+                                    {/* Quantity Tiers */}
+                                    <div className="mb-4">
+                                      <label className="block font-medium text-sm text-gray-700 mb-2">מדרגות כמות:</label>
+                                      <PriceTiersEditor
+                                        product={product}
+                                        onChange={(field, value) => handleProductChange(product.id, field, value)}
+                                        showFactoryTiers={permissions.viewCosts}
+                                        disabled={!permissions.editCatalog}
+                                      />
+                                    </div>
+
                                     {/* Product Description */}
                                     <div>
                                       <label className="block font-medium text-sm text-gray-700 mb-2">תיאור/הסבר על המוצר:</label>
@@ -966,6 +1314,7 @@ const App: React.FC = () => {
                                         onChange={(e) => handleProductChange(product.id, 'description', e.target.value)}
                                         className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm resize-y min-h-[100px] focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                                         placeholder="הכנס תיאור/הסבר על המוצר (כולל מידות אם רלוונטי)..."
+                                        disabled={!permissions.editCatalog}
                                         rows={4}
                                       />
                                     </div>
@@ -983,53 +1332,153 @@ const App: React.FC = () => {
               <p className={`mt-2 text-sm ${totalPercents !== 100 ? 'text-red-500' : 'text-green-600'}`}>
                 סך הכל: {totalPercents.toFixed(2)}% {totalPercents !== 100 && '(חייב להיות 100%)'}
               </p>
+              {missingLines.length > 0 && (
+                <p className="mt-1 text-sm text-amber-700">
+                  {missingLines.length} שורות בהזמנה מפנות למוצרים שנמחקו מהקטלוג ואינן נכללות בחישוב
+                </p>
+              )}
+              {moqWarnings.map(warning => (
+                <p key={warning.productId} className="mt-1 text-sm text-amber-700">
+                  {warning.name}: {warning.units.toLocaleString()} יחידות - מתחת ל-MOQ של המפעל ({warning.minOrderQuantity.toLocaleString()})
+                </p>
+              ))}
+              {salePricesOutOfRange.length > 0 && (
+                <p className="mt-1 text-sm text-red-500">
+                  המחיר ליחידה חייב להיות בטווח המחירון (מסומן באדום)
+                </p>
+              )}
           </div>
+          </fieldset>
         </div>
 
+        {/* Cost tools - admins only */}
+        {permissions.viewCosts && (
+          <>
+          {/* Product Catalog Versions */}
+          <CatalogVersionsPanel
+            key={`catalog-${user.teamId}`}
+            products={catalog}
+            priceListSettings={inputs}
+            onRolledBack={(products) => {
+              setCatalog(products);
+              setProductsChanged(false);
+            }}
+          />
+
+          {/* Container Fill Optimizer */}
+          <OptimizerPanel
+            inputs={pricingInputs}
+            onApply={(proposal) => setInputs(prev => setLineQuantities(
+              prev,
+              catalog,
+              Object.fromEntries(proposal.lines.map(line => [line.productId, line.quantity]))
+            ))}
+          />
+
+          {/* What-if Scenarios */}
+          <ScenarioPanel
+            inputs={pricingInputs}
+            scenarios={inputs.scenarios || []}
+            onChange={(scenarios) => setInputs(prev => ({ ...prev, scenarios }))}
+            readOnly={!permissions.editOrders}
+          />
+
+          {/* Break-even and Target Profit */}
+          <SolverPanel
+            inputs={pricingInputs}
+            onApplyMargins={(margins) => setInputs(prev => ({
+              ...prev,
+              lines: Object.entries(margins).reduce(
+                (lines, [productId, margin]) => updateLine(lines, productId, { profitMarginOverride: margin }),
+                prev.lines
+              )
+            }))}
+            onApplyQuantities={(quantities) => setInputs(prev => setLineQuantities(prev, catalog, quantities))}
+            readOnly={!permissions.editOrders}
+          />
+
+          {/* Exchange Rate History and Sensitivity */}
+          <ExchangeRatePanel
+            key={`rates-${user.teamId}`}
+            inputs={pricingInputs}
+            onRatesChange={(exchangeRates, rateDate) => setInputs(prev => ({ ...prev, exchangeRates, rateDate }))}
+          />
+          </>
+        )}
+
         {/* View Mode Toggle, Save Order and Export Button */}
         <div className="bg-white shadow-md rounded-lg p-4 md:p-6 mb-4 md:mb-6">
           <div className="flex flex-col gap-4">
             <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 md:gap-4">
-              <label className="text-sm font-semibold text-gray-700 whitespace-nowrap">מצב הצגה:</label>
-              <div className="flex gap-2 bg-gray-100 p-1 rounded-lg w-full sm:w-auto">
+              {permissions.viewCosts && (
+                <>
+                <label className="text-sm font-semibold text-gray-700 whitespace-nowrap">מצב הצגה:</label>
+                <div className="flex gap-2 bg-gray-100 p-1 rounded-lg w-full sm:w-auto">
+                  <button
+                    onClick={() => setViewMode('seller')}
+                    className={`flex-1 sm:flex-none px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                      viewMode === 'seller'
+                        ? 'bg-blue-600 text-white shadow-sm'
+                        : 'bg-transparent text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    מוכר
+                  </button>
+                  <button
+                    onClick={() => setViewMode('customer')}
+                    className={`flex-1 sm:flex-none px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                      viewMode === 'customer'
+                        ? 'bg-blue-600 text-white shadow-sm'
+                        : 'bg-transparent text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    לקוח
+                  </button>
+                </div>
+                </>
+              )}
+              {permissions.editOrders && (
                 <button
-                  onClick={() => setViewMode('seller')}
-                  className={`flex-1 sm:flex-none px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                    viewMode === 'seller'
-                      ? 'bg-blue-600 text-white shadow-sm'
-                      : 'bg-transparent text-gray-700 hover:bg-gray-200'
-                  }`}
+                  onClick={() => {
+                    setOrderName(loadedOrder?.name || '');
+                    setShowSaveDialog(true);
+                  }}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium flex items-center gap-2"
                 >
-                  מוכר
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />
+                  </svg>
+                  {hasUnsavedChanges ? 'שמור שינויים *' : 'שמור הזמנה'}
                 </button>
+              )}
+              <button
+                onClick={() => viewMode === 'customer' ? setShowQuoteDialog(true) : exportToPDF()}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors text-sm font-medium flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+                ייצא ל-PDF
+              </button>
+              {permissions.viewCosts && (
                 <button
-                  onClick={() => setViewMode('customer')}
-                  className={`flex-1 sm:flex-none px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                    viewMode === 'customer'
-                      ? 'bg-blue-600 text-white shadow-sm'
-                      : 'bg-transparent text-gray-700 hover:bg-gray-200'
-                  }`}
+                  onClick={() => setShowSupplierDialog(true)}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
                 >
-                  לקוח
+                  מסמכים לספק
                 </button>
-              </div>
+              )}
               <button
-                onClick={() => setShowSaveDialog(true)}
-                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium flex items-center gap-2"
+                onClick={() => exportOrder('xlsx')}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
               >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />
-                </svg>
-                שמור הזמנה
+                ייצא ל-Excel
               </button>
               <button
-                onClick={exportToPDF}
-                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors text-sm font-medium flex items-center gap-2"
+                onClick={() => exportOrder('csv')}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
               >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                </svg>
-                ייצא ל-PDF
+                CSV
               </button>
             </div>
           </div>
@@ -1077,7 +1526,7 @@ const App: React.FC = () => {
         })()}
 
         {/* Results Table */}
-        <div className="bg-white shadow-lg rounded-lg overflow-hidden mb-6 md:mb-8 border border-gray-200" ref={tableRef}>
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden mb-6 md:mb-8 border border-gray-200">
           <div className="overflow-x-auto -mx-4 sm:mx-0">
             <div className="inline-block min-w-full align-middle px-4 sm:px-0">
               <table className="min-w-full divide-y divide-gray-200 text-right">
@@ -1122,7 +1571,7 @@ const App: React.FC = () => {
                       { key: 'totalCBM', label: 'CBM כולל' },
                       { key: 'totalUnits', label: 'כמות יחידות' },
                       { key: 'factoryPrice', label: 'מחיר יחידה - מפעל' },
-                      { key: 'totalExpenses', label: `${inputs.unknownExpensesValue}% תוספת` },
+                      { key: 'totalExpenses', label: unknownExpensesLabel },
                       { key: 'totalFactoryPrice', label: 'מחיר מפעל לכמות' },
                       { key: 'price', label: 'מחיר יחידה - לקוח' },
                       { key: 'totalCustomerPrice', label: 'מחיר לקוח לכמות' },
@@ -1169,34 +1618,42 @@ const App: React.FC = () => {
                     {isColumnVisible('factoryPrice') && (
                       <td className="px-4 py-4 whitespace-nowrap text-sm border-l border-gray-100">
                         <div className="text-gray-900 font-bold">${res.size.factoryPriceUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-                        <div className="text-gray-600 text-xs">₪{(res.size.factoryPriceUSD * inputs.exchangeRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                        <div className="text-gray-600 text-xs">₪{(res.size.factoryPriceUSD * usdRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                      </td>
+                    )}
+                    {isColumnVisible('totalExpenses') && (
+                      <td className="px-4 py-4 whitespace-nowrap text-sm border-l border-gray-100">
+                        <div className="text-orange-900 font-bold">${res.landingCostUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                        <div className="text-orange-700 text-xs">₪{res.landingCostILS.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                       </td>
                     )}
-                    {isColumnVisible('totalExpenses') && (() => {
-                      const surchargeMultiplier = 1 + (inputs.unknownExpensesValue / 100);
-                      return (
-                        <td className="px-4 py-4 whitespace-nowrap text-sm border-l border-gray-100">
-                          <div className="text-orange-900 font-bold">${(res.size.factoryPriceUSD * surchargeMultiplier).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-                          <div className="text-orange-700 text-xs">₪{(res.size.factoryPriceUSD * inputs.exchangeRate * surchargeMultiplier).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-                        </td>
-                      );
-                    })()}
                     {isColumnVisible('totalFactoryPrice') && (
                       <td className="px-4 py-4 whitespace-nowrap text-sm border-l border-gray-100">
                         <div className="text-gray-900 font-bold">${res.totalFactoryPriceUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-                        <div className="text-gray-600 text-xs">₪{(res.totalFactoryPriceUSD * inputs.exchangeRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                        <div className="text-gray-600 text-xs">₪{(res.totalFactoryPriceUSD * usdRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                       </td>
                     )}
                     {isColumnVisible('price') && (
                       <td className="px-4 py-4 whitespace-nowrap text-sm">
+                        {isCustomerView ? (
+                          <div className="text-green-700 font-bold">{formatCurrency(res.priceSale, inputs.saleCurrency)}</div>
+                        ) : (<>
                         <div className="text-blue-800 font-semibold">${res.priceUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                         <div className="text-green-700 font-bold text-xs">₪{res.priceILS.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                        </>)}
+                        {res.customerDiscountPercent > 0 && (
+                          <div className="text-gray-500 text-xs">הנחת כמות {res.customerDiscountPercent}%</div>
+                        )}
                       </td>
                     )}
                     {isColumnVisible('totalCustomerPrice') && (
                       <td className="px-4 py-4 whitespace-nowrap text-sm border-l border-gray-100">
+                        {isCustomerView ? (
+                          <div className="text-blue-900 font-bold">{formatCurrency(res.priceSale * res.totalUnits, inputs.saleCurrency)}</div>
+                        ) : (<>
                         <div className="text-blue-900 font-bold">${(res.priceUSD * res.totalUnits).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                         <div className="text-blue-700 text-xs">₪{(res.priceILS * res.totalUnits).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                        </>)}
                       </td>
                     )}
                     {isColumnVisible('totalProfit') && (
@@ -1207,19 +1664,27 @@ const App: React.FC = () => {
                     )}
                     {isColumnVisible('marginPercent') && (
                       <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {(res as any).productProfitMargin || inputs.products.find(p => p.id === res.size.id)?.profitMargin || 0}%
+                        {res.productProfitMargin}%
                       </td>
                     )}
                     {isColumnVisible('shippingPerUnit') && (
                       <td className="px-4 py-4 whitespace-nowrap text-sm border-l border-gray-100">
+                        {isCustomerView ? (
+                          <div className="text-purple-800 font-semibold">{formatCurrency(res.shippingPerUnitSale, inputs.saleCurrency)}</div>
+                        ) : (<>
                         <div className="text-purple-800 font-semibold">${res.shippingPerUnitUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                         <div className="text-purple-600 text-xs">₪{res.shippingPerUnitILS.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                        </>)}
                       </td>
                     )}
                     {isColumnVisible('priceWithShipping') && (
                       <td className="px-4 py-4 whitespace-nowrap text-sm border-l border-gray-100">
+                        {isCustomerView ? (
+                          <div className="text-indigo-800 font-bold">{formatCurrency(res.priceWithShippingSale, inputs.saleCurrency)}</div>
+                        ) : (<>
                         <div className="text-indigo-800 font-semibold">${res.priceWithShippingUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                         <div className="text-indigo-600 font-bold text-xs">₪{res.priceWithShippingILS.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                        </>)}
                       </td>
                     )}
                   </tr>
@@ -1269,22 +1734,20 @@ const App: React.FC = () => {
                           </td>
                         )}
                         {expensesCol > 0 && (() => {
-                          // Calculate average factory price per unit for the summary
-                          const totalFactoryPriceBase = results.reduce((sum, curr) => sum + (curr.size.factoryPriceUSD * curr.totalUnits), 0);
-                          const totalUnits = results.reduce((sum, curr) => sum + curr.totalUnits, 0);
-                          const avgFactoryPrice = totalUnits > 0 ? totalFactoryPriceBase / totalUnits : 0;
-                          const surchargePercent = inputs.unknownExpensesValue / 100;
+                          // Average unknown-expenses surcharge per unit for the summary
+                          const totalSurchargeUSD = results.reduce((sum, curr) => sum + ((curr.landingCostUSD - curr.size.factoryPriceUSD) * curr.totalUnits), 0);
+                          const avgSurchargeUSD = summary.totalUnits > 0 ? totalSurchargeUSD / summary.totalUnits : 0;
                           return (
                             <td className="px-4 py-4 border-l border-gray-100">
-                              <div className="text-orange-900 font-bold">${(avgFactoryPrice * surchargePercent).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-                              <div className="text-orange-700 text-xs">₪{(avgFactoryPrice * inputs.exchangeRate * surchargePercent).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                              <div className="text-orange-900 font-bold">${avgSurchargeUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                              <div className="text-orange-700 text-xs">₪{(avgSurchargeUSD * usdRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                             </td>
                           );
                         })()}
                         {totalFactoryPriceCol > 0 && (
                           <td className="px-4 py-4 border-l border-gray-100">
                             <div className="text-gray-900 font-bold">${summary.totalFactoryPriceUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-                            <div className="text-gray-600 text-xs">₪{(summary.totalFactoryPriceUSD * inputs.exchangeRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                            <div className="text-gray-600 text-xs">₪{(summary.totalFactoryPriceUSD * usdRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                           </td>
                         )}
                         {priceCol > 0 && (
@@ -1295,7 +1758,15 @@ const App: React.FC = () => {
                         )}
                         {totalCustomerPriceCol > 0 && (() => {
                           const totalCustomerPriceILS = results.reduce((sum, curr) => sum + (curr.priceILS * curr.totalUnits), 0);
-                          const totalCustomerPriceUSD = totalCustomerPriceILS / inputs.exchangeRate;
+                          const totalCustomerPriceUSD = totalCustomerPriceILS / usdRate;
+                          if (isCustomerView) {
+                            const totalCustomerPriceSale = results.reduce((sum, curr) => sum + (curr.priceSale * curr.totalUnits), 0);
+                            return (
+                              <td className="px-4 py-4 border-l border-gray-100">
+                                <div className="text-blue-900 font-bold">{formatCurrency(totalCustomerPriceSale, inputs.saleCurrency)}</div>
+                              </td>
+                            );
+                          }
                           return (
                             <td className="px-4 py-4 border-l border-gray-100">
                               <div className="text-blue-900 font-bold">${totalCustomerPriceUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
@@ -1305,7 +1776,7 @@ const App: React.FC = () => {
                         })()}
                         {profitCols > 0 && isColumnVisible('totalProfit') && (
                           <td colSpan={profitCols} className="px-4 py-4">
-                            <div className="text-emerald-800 text-lg font-semibold">רווח צפוי: ${(summary.totalProfitILS / inputs.exchangeRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                            <div className="text-emerald-800 text-lg font-semibold">רווח צפוי: ${(summary.totalProfitILS / usdRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                             <div className="text-emerald-700 text-sm">₪{summary.totalProfitILS.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
                           </td>
                         )}
@@ -1319,7 +1790,14 @@ const App: React.FC = () => {
                         })()}
                         {priceWithShippingCol > 0 && (() => {
                           const totalPriceWithShippingILS = results.reduce((sum, curr) => sum + (curr.priceWithShippingILS * curr.totalUnits), 0);
-                          const totalPriceWithShippingUSD = totalPriceWithShippingILS / inputs.exchangeRate;
+                          const totalPriceWithShippingUSD = totalPriceWithShippingILS / usdRate;
+                          if (isCustomerView) {
+                            return (
+                              <td className="px-4 py-4 border-l border-gray-100">
+                                <div className="text-indigo-800 font-semibold">{formatCurrency(summary.totalRevenueSale, inputs.saleCurrency)}</div>
+                              </td>
+                            );
+                          }
                           return (
                             <td className="px-4 py-4 border-l border-gray-100">
                               <div className="text-indigo-800 font-semibold">${totalPriceWithShippingUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
@@ -1337,8 +1815,13 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {/* Landed Cost Breakdown (seller only) */}
+        {viewMode === 'seller' && (
+          <LandedCostBreakdown results={results} summary={summary} exchangeRate={usdRate} />
+        )}
+
         {/* Summary Cards */}
-        <div className={`grid grid-cols-1 sm:grid-cols-2 ${viewMode === 'seller' && summary.totalUnknownExpensesILS > 0 ? 'lg:grid-cols-5' : 'lg:grid-cols-4'} gap-4 md:gap-6 mb-6 md:mb-8`}>
+        <div className={`grid grid-cols-1 sm:grid-cols-2 ${viewMode === 'seller' && summary.totalUnknownExpensesILS > 0 ? 'lg:grid-cols-6' : 'lg:grid-cols-5'} gap-4 md:gap-6 mb-6 md:mb-8`}>
           <div className="bg-gradient-to-br from-indigo-50 to-indigo-100 border-r-4 border-indigo-500 p-4 md:p-6 rounded-xl shadow-md hover:shadow-lg transition-shadow">
             <div className="flex items-center justify-between mb-2">
               <h3 className="text-xs md:text-sm font-semibold text-indigo-700">סך יחידות במכולה</h3>
@@ -1364,7 +1847,33 @@ const App: React.FC = () => {
             </div>
             <div>
               <p className="text-2xl md:text-3xl font-bold text-blue-900">{summary.totalCBMUtilized.toFixed(2)}</p>
-              <p className="text-sm md:text-base font-semibold text-blue-700">/ {CONTAINER_CAPACITIES[inputs.containerType]} CBM</p>
+              <p className="text-sm md:text-base font-semibold text-blue-700">
+                / {summary.containerCapacityCBM.toFixed(1)} CBM
+                {getContainerCount(inputs) > 1 && ` (${getContainerCount(inputs)} × ${CONTAINER_TYPES[inputs.containerType].label})`}
+              </p>
+              {CONTAINER_TYPES[inputs.containerType].freightBasis === 'perCBM' && (
+                <p className="text-xs text-blue-600 mt-1">LCL - משלוח לפי {summary.totalCBM.toFixed(2)} CBM: ${summary.totalShippingCostUSD.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+              )}
+            </div>
+          </div>
+          <div className={`bg-gradient-to-br ${summary.bindingConstraint === 'weight' ? 'from-amber-50 to-amber-100 border-amber-500' : 'from-sky-50 to-sky-100 border-sky-500'} border-r-4 p-4 md:p-6 rounded-xl shadow-md hover:shadow-lg transition-shadow`}>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className={`text-xs md:text-sm font-semibold ${summary.bindingConstraint === 'weight' ? 'text-amber-700' : 'text-sky-700'}`}>משקל מנוצל</h3>
+              <div className={`w-8 h-8 md:w-10 md:h-10 ${summary.bindingConstraint === 'weight' ? 'bg-amber-500' : 'bg-sky-500'} rounded-lg flex items-center justify-center flex-shrink-0`}>
+                <svg className="w-4 h-4 md:w-6 md:h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+                </svg>
+              </div>
+            </div>
+            <div>
+              <p className={`text-2xl md:text-3xl font-bold ${summary.bindingConstraint === 'weight' ? 'text-amber-900' : 'text-sky-900'}`}>{summary.totalWeightKg.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+              <p className={`text-sm md:text-base font-semibold ${summary.bindingConstraint === 'weight' ? 'text-amber-700' : 'text-sky-700'}`}>/ {summary.payloadCapacityKg.toLocaleString()} ק"ג</p>
+              {summary.bindingConstraint === 'weight' && (
+                <p className="text-xs text-amber-800 font-semibold mt-1">המשקל הוא המגבלה - לא הנפח</p>
+              )}
+              {summary.totalWeightKg > summary.payloadCapacityKg && (
+                <p className="text-xs text-red-600 font-semibold mt-1">חריגה ממשקל המטען המותר!</p>
+              )}
             </div>
           </div>
           {viewMode === 'seller' && (
@@ -1379,7 +1888,7 @@ const App: React.FC = () => {
               </div>
               <div>
                 <p className="text-2xl md:text-3xl font-bold text-purple-900">${summary.totalInvestmentUSD.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
-                <p className="text-sm md:text-base font-semibold text-purple-700">₪{(summary.totalInvestmentUSD * inputs.exchangeRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                <p className="text-sm md:text-base font-semibold text-purple-700">₪{(summary.totalInvestmentUSD * usdRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
               </div>
             </div>
           )}
@@ -1393,7 +1902,7 @@ const App: React.FC = () => {
               </div>
             </div>
             <div>
-              <p className="text-2xl md:text-3xl font-bold text-emerald-900">${(summary.totalProfitILS / inputs.exchangeRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+              <p className="text-2xl md:text-3xl font-bold text-emerald-900">${(summary.totalProfitILS / usdRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
               <p className="text-sm md:text-base font-semibold text-emerald-700">₪{summary.totalProfitILS.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
             </div>
           </div>
@@ -1401,7 +1910,9 @@ const App: React.FC = () => {
             <div className="bg-gradient-to-br from-orange-50 to-orange-100 border-r-4 border-orange-500 p-4 md:p-6 rounded-xl shadow-md hover:shadow-lg transition-shadow">
               <div className="flex items-center justify-between mb-2">
                 <h3 className="text-xs md:text-sm font-semibold text-orange-700">
-                  הוצאות לא ידועות {inputs.unknownExpensesType === 'percent' ? `(${inputs.unknownExpensesValue}%)` : '(סכום קבוע)'}
+                  הוצאות לא ידועות {inputs.unknownExpensesType === 'percent'
+                    ? `(${inputs.unknownExpensesValue}%)`
+                    : `(סכום קבוע, ${UNKNOWN_EXPENSES_ALLOCATION_LABELS[inputs.unknownExpensesAllocation || 'perValue']})`}
                 </h3>
                 <div className="w-8 h-8 md:w-10 md:h-10 bg-orange-500 rounded-lg flex items-center justify-center flex-shrink-0">
                   <svg className="w-4 h-4 md:w-6 md:h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1410,7 +1921,7 @@ const App: React.FC = () => {
                 </div>
               </div>
               <div>
-                <p className="text-2xl md:text-3xl font-bold text-orange-900">${(summary.totalUnknownExpensesILS / inputs.exchangeRate).toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+                <p className="text-2xl md:text-3xl font-bold text-orange-900">${(summary.totalUnknownExpensesILS / usdRate).toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
                 <p className="text-sm md:text-base font-semibold text-orange-700">₪{summary.totalUnknownExpensesILS.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
               </div>
             </div>
@@ -1419,11 +1930,37 @@ const App: React.FC = () => {
           </>
         )}
 
+        {showImportDialog && (
+          <CatalogImportDialog
+            catalog={catalog}
+            newProductId={generateProductId}
+            onApply={setCatalog}
+            onClose={() => setShowImportDialog(false)}
+          />
+        )}
+
+        {showSupplierDialog && (
+          <SupplierDocumentDialog
+            initial={inputs.supplierDocument}
+            onCancel={() => setShowSupplierDialog(false)}
+            onGenerate={handleSupplierDocument}
+          />
+        )}
+
+        {showQuoteDialog && (
+          <QuoteDialog
+            initial={inputs.quote}
+            canAllocateNumber={permissions.editOrders}
+            onCancel={() => setShowQuoteDialog(false)}
+            onConfirm={handleIssueQuote}
+          />
+        )}
+
         {/* Save Order Dialog */}
         {showSaveDialog && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" dir="rtl">
             <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-              <h3 className="text-xl font-bold mb-4 text-gray-800">שמור הזמנה</h3>
+              <h3 className="text-xl font-bold mb-4 text-gray-800">{loadedOrder ? `שמור הזמנה - ${loadedOrder.name}` : 'שמור הזמנה'}</h3>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   שם ההזמנה:
@@ -1436,7 +1973,7 @@ const App: React.FC = () => {
                   placeholder="הזן שם להזמנה"
                   onKeyPress={(e) => {
                     if (e.key === 'Enter') {
-                      handleSaveOrder();
+                      handleSaveOrder(false);
                     }
                   }}
                 />
@@ -1451,12 +1988,21 @@ const App: React.FC = () => {
                 >
                   ביטול
                 </button>
+                {loadedOrder && (
+                  <button
+                    onClick={() => handleSaveOrder(true)}
+                    disabled={loading || !orderName.trim() || salePricesOutOfRange.length > 0}
+                    className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50"
+                  >
+                    שמור כהזמנה חדשה
+                  </button>
+                )}
                 <button
-                  onClick={handleSaveOrder}
-                  disabled={loading || !orderName.trim()}
+                  onClick={() => handleSaveOrder(false)}
+                  disabled={loading || !orderName.trim() || salePricesOutOfRange.length > 0}
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
                 >
-                  {loading ? 'שומר...' : 'שמור'}
+                  {loading ? 'שומר...' : loadedOrder ? 'שמור שינויים' : 'שמור'}
                 </button>
               </div>
             </div>
@@ -0,0 +1,281 @@
+import { getDb, getFirebaseAuth } from './firebaseConfig';
+import {
+  GoogleAuthProvider,
+  signInWithPopup,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  sendEmailVerification,
+  signOut,
+  onAuthStateChanged,
+  User,
+} from 'firebase/auth';
+import { doc, getDoc, setDoc, updateDoc, deleteField, FieldPath, Timestamp } from 'firebase/firestore';
+import { setDataSession, DataSession } from './dataService';
+import { getStorageBackend } from './repository';
+import { MarginRange, UserRole } from './types';
+import { DEFAULT_SALES_MARGIN_RANGE } from './constants';
+
+// Sign-in and team membership. Every user has a profile (users/{uid}) naming the team whose
+// orders, catalog and rates they work on. A new user starts in a personal team (teamId = uid)
+// and can move to another team once its owner has invited their email. The team document holds
+// each member's role, which the security rules check on every read and write. Members are listed
+// by email, so the rules only honour the listing once the user has verified the address.
+
+export interface AppUser {
+  uid: string;
+  email: string;
+  displayName: string;
+  emailVerified: boolean; // Teams of others only admit a verified email
+  teamId: string;
+  role: UserRole; // Role in the current team
+  salesMarginRange?: MarginRange; // Margins the team's sales reps may quote with - loaded for admins only
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  ownerId: string;
+  memberRoles: Record<string, UserRole>; // Role of every member by lower-case email - the owner is always an admin
+}
+
+const USERS_COLLECTION = 'users';
+const TEAMS_COLLECTION = 'teams';
+// Admin-only team settings (teams/{teamId}/settings/{name})
+const SETTINGS_SUBCOLLECTION = 'settings';
+const SALES_MARGIN_RANGE_DOC = 'salesMarginRange';
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const sessionOf = (user: AppUser): DataSession => ({
+  uid: user.uid,
+  teamId: user.teamId,
+  role: user.role,
+  salesMarginRange: user.salesMarginRange,
+});
+
+// The team's margin range (admins only)
+const loadSalesMarginRange = async (teamId: string): Promise<MarginRange> => {
+  const range = await getDoc(doc(getDb(), TEAMS_COLLECTION, teamId, SETTINGS_SUBCOLLECTION, SALES_MARGIN_RANGE_DOC));
+  return range.exists() ? range.data() as MarginRange : DEFAULT_SALES_MARGIN_RANGE;
+};
+
+// The user's role - with the team's margin range for admins - or null when the team does not list
+// the user. Teams created before roles listed invited emails only: the owner's first sign-in turns
+// them into sales reps.
+const loadMembership = async (uid: string, email: string, teamId: string): Promise<Pick<AppUser, 'role' | 'salesMarginRange'> | null> => {
+  try {
+    const teamRef = doc(getDb(), TEAMS_COLLECTION, teamId);
+    const team = await getDoc(teamRef);
+    if (!team.exists()) {
+      return null;
+    }
+    const data = team.data();
+    if (data.ownerId === uid) {
+      if (!data.memberRoles) {
+        const memberRoles = Object.fromEntries((data.memberEmails || []).map((member: string) => [member, 'sales']));
+        await updateDoc(teamRef, { memberRoles: { ...memberRoles, [email]: 'admin' }, memberEmails: deleteField() });
+      }
+      return { role: 'admin', salesMarginRange: await loadSalesMarginRange(teamId) };
+    }
+    const role: UserRole | undefined = data.memberRoles?.[email];
+    if (role === 'admin') {
+      return { role, salesMarginRange: await loadSalesMarginRange(teamId) };
+    }
+    return role ? { role } : null;
+  } catch (error) {
+    console.error('Error loading team membership:', error);
+    return null;
+  }
+};
+
+// Load the user's profile, creating the profile and the personal team on first sign-in.
+// A user removed from their team is moved back to the personal team.
+const loadAppUser = async (user: User): Promise<AppUser> => {
+  const email = normalizeEmail(user.email || '');
+  const displayName = user.displayName || email;
+  const { emailVerified } = user;
+  const profileRef = doc(getDb(), USERS_COLLECTION, user.uid);
+  const profile = await getDoc(profileRef);
+  if (profile.exists()) {
+    const teamId: string = profile.data().teamId;
+    const membership = await loadMembership(user.uid, email, teamId);
+    if (membership) {
+      return { uid: user.uid, email, displayName, emailVerified, teamId, ...membership };
+    }
+    if (teamId !== user.uid) {
+      await updateDoc(profileRef, { teamId: user.uid });
+    }
+    const personal = await loadMembership(user.uid, email, user.uid);
+    return { uid: user.uid, email, displayName, emailVerified, teamId: user.uid, role: 'admin', salesMarginRange: DEFAULT_SALES_MARGIN_RANGE, ...personal };
+  }
+
+  const team: Omit<Team, 'id'> = { name: displayName, ownerId: user.uid, memberRoles: { [email]: 'admin' } };
+  await setDoc(doc(getDb(), TEAMS_COLLECTION, user.uid), { ...team, createdAt: Timestamp.now() });
+  await setDoc(profileRef, { email, displayName, teamId: user.uid, createdAt: Timestamp.now() });
+  return { uid: user.uid, email, displayName, emailVerified, teamId: user.uid, role: 'admin', salesMarginRange: DEFAULT_SALES_MARGIN_RANGE };
+};
+
+// With the local and in-memory storage backends there is no sign-in: the only user is the admin
+// of a team that exists on this device alone
+const LOCAL_USER: AppUser = {
+  uid: 'local',
+  email: '',
+  displayName: 'משתמש מקומי',
+  emailVerified: true,
+  teamId: 'local',
+  role: 'admin',
+  salesMarginRange: DEFAULT_SALES_MARGIN_RANGE,
+};
+
+// Whether users sign in and work in shared teams (the Firestore backend)
+export const isSignInRequired = (): boolean => getStorageBackend() === 'firestore';
+
+// Follow the signed-in user. The data layer is scoped to the user's team before the callback runs.
+export const subscribeToAuth = (callback: (user: AppUser | null) => void): (() => void) => {
+  if (!isSignInRequired()) {
+    setDataSession(sessionOf(LOCAL_USER));
+    callback(LOCAL_USER);
+    return () => {};
+  }
+  return onAuthStateChanged(getFirebaseAuth(), async (user) => {
+    if (!user) {
+      setDataSession(null);
+      callback(null);
+      return;
+    }
+    try {
+      const appUser = await loadAppUser(user);
+      setDataSession(sessionOf(appUser));
+      callback(appUser);
+    } catch (error) {
+      console.error('Error loading user profile:', error);
+      setDataSession(null);
+      callback(null);
+    }
+  });
+};
+
+export const signInWithGoogle = async (): Promise<void> => {
+  try {
+    await signInWithPopup(getFirebaseAuth(), new GoogleAuthProvider());
+  } catch (error: any) {
+    console.error('Error signing in:', error);
+    throw new Error(`שגיאה בהתחברות: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Sign in with email and password, creating the account when asked to. A new account is sent
+// a verification email - joining another team needs the address verified.
+export const signInWithEmail = async (email: string, password: string, createAccount: boolean): Promise<void> => {
+  try {
+    if (createAccount) {
+      const credential = await createUserWithEmailAndPassword(getFirebaseAuth(), normalizeEmail(email), password);
+      await sendEmailVerification(credential.user);
+    } else {
+      await signInWithEmailAndPassword(getFirebaseAuth(), normalizeEmail(email), password);
+    }
+  } catch (error: any) {
+    console.error('Error signing in:', error);
+    throw new Error(`שגיאה בהתחברות: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+export const resendVerificationEmail = async (): Promise<void> => {
+  const current = getFirebaseAuth().currentUser;
+  if (!current) {
+    return;
+  }
+  try {
+    await sendEmailVerification(current);
+  } catch (error: any) {
+    console.error('Error sending verification email:', error);
+    throw new Error(`שגיאה בשליחת מייל האימות: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Whether the signed-in user's email is verified by now. The link in the email may have been opened
+// after sign-in, so the account is reloaded and the token renewed for the rules to see it.
+const refreshEmailVerified = async (): Promise<boolean> => {
+  const current = getFirebaseAuth().currentUser;
+  if (!current) {
+    return false;
+  }
+  await current.reload();
+  if (current.emailVerified) {
+    await current.getIdToken(true);
+  }
+  return current.emailVerified;
+};
+
+export const signOutUser = async (): Promise<void> => {
+  await signOut(getFirebaseAuth());
+};
+
+// Get a team the user belongs to or was invited to
+export const getTeam = async (teamId: string): Promise<Team | null> => {
+  try {
+    const team = await getDoc(doc(getDb(), TEAMS_COLLECTION, teamId));
+    return team.exists() ? { id: team.id, memberRoles: {}, ...team.data() } as Team : null;
+  } catch (error) {
+    console.error('Error getting team:', error);
+    throw error;
+  }
+};
+
+// Invite an email to the team or change a member's role (team admins only - enforced by the security rules).
+// Emails contain dots, so the map entry is addressed with a field path rather than a dotted string.
+export const setMemberRole = async (teamId: string, email: string, role: UserRole): Promise<void> => {
+  try {
+    await updateDoc(doc(getDb(), TEAMS_COLLECTION, teamId), new FieldPath('memberRoles', normalizeEmail(email)), role);
+  } catch (error: any) {
+    console.error('Error setting team role:', error);
+    throw new Error(`שגיאה בעדכון חבר הצוות: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+export const removeFromTeam = async (teamId: string, email: string): Promise<void> => {
+  try {
+    await updateDoc(doc(getDb(), TEAMS_COLLECTION, teamId), new FieldPath('memberRoles', normalizeEmail(email)), deleteField());
+  } catch (error: any) {
+    console.error('Error removing from team:', error);
+    throw new Error(`שגיאה בהסרה מהצוות: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Set the margins the team's sales reps may quote with (team admins only). The price list sales reps
+// see is worked out from it on the next catalog save.
+export const setSalesMarginRange = async (user: AppUser, range: MarginRange): Promise<AppUser> => {
+  if (!(range.min >= 0 && range.max < 100 && range.min <= range.max)) {
+    throw new Error('טווח אחוזי הרווח אינו תקין');
+  }
+  try {
+    await setDoc(doc(getDb(), TEAMS_COLLECTION, user.teamId, SETTINGS_SUBCOLLECTION, SALES_MARGIN_RANGE_DOC), range);
+    const updated = { ...user, salesMarginRange: range };
+    setDataSession(sessionOf(updated));
+    return updated;
+  } catch (error: any) {
+    console.error('Error setting sales margin range:', error);
+    throw new Error(`שגיאה בשמירת טווח אחוזי הרווח: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Move the user to another team. The rules only allow it when the team lists the user's verified email.
+export const joinTeam = async (user: AppUser, teamId: string): Promise<AppUser> => {
+  const emailVerified = user.emailVerified || await refreshEmailVerified();
+  if (!emailVerified && teamId !== user.uid) {
+    throw new Error(`יש לאמת את ${user.email} לפני ההצטרפות לצוות - פתח את הקישור שנשלח במייל האימות`);
+  }
+  try {
+    await updateDoc(doc(getDb(), USERS_COLLECTION, user.uid), { teamId });
+    const membership = await loadMembership(user.uid, user.email, teamId);
+    if (!membership) {
+      throw new Error('not a member');
+    }
+    const joined = { ...user, emailVerified, teamId, ...membership };
+    setDataSession(sessionOf(joined));
+    return joined;
+  } catch (error: any) {
+    console.error('Error joining team:', error);
+    throw new Error(`לא ניתן להצטרף לצוות - ודא שבעל הצוות הזמין את ${user.email}`);
+  }
+};
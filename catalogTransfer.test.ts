@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import { SpreadsheetData, buildCatalogImport, guessColumnMapping, parseCsv, readSpreadsheet, toCsv } from './catalogTransfer';
+import { defaultCatalog } from './testFixtures';
+
+describe('CSV', () => {
+  it('reads quoted cells with commas, quotes and line breaks', () => {
+    const text = 'name,description,price\r\n"Small, round","16"" box\nwith lid",4.48\r\nMedium,,5.51';
+    expect(parseCsv(text)).toEqual([
+      ['name', 'description', 'price'],
+      ['Small, round', '16" box\nwith lid', '4.48'],
+      ['Medium', '', '5.51'],
+    ]);
+  });
+
+  it('reads back what it writes', () => {
+    const rows = [['שם', 'תיאור', 'מחיר'], ['קטנה, עגולה', 'קופסה "16"\nעם מכסה', 4.48]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows.map(row => row.map(String)));
+  });
+});
+
+describe('readSpreadsheet', () => {
+  it('reads the first sheet of an XLSX file as text, skipping blank rows', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('קטלוג');
+    sheet.addRows([['id', 'name', 'factoryPriceUSD'], [], ['small', { richText: [{ text: 'Sm' }, { text: 'all' }] }, 4.48]]);
+    sheet.getCell('C4').value = { formula: 'C3*2', result: 8.96 };
+    workbook.addWorksheet('other').addRow(['ignored']);
+    const file = new File([await workbook.xlsx.writeBuffer()], 'catalog.xlsx');
+    expect(await readSpreadsheet(file)).toEqual({
+      headers: ['id', 'name', 'factoryPriceUSD'],
+      rows: [['small', 'Small', '4.48'], ['', '', '8.96']],
+    });
+  });
+
+  it('reads a CSV file with a byte order mark', async () => {
+    const file = new File(['\ufeffid,name\nsmall,Small\n'], 'catalog.csv', { type: 'text/csv' });
+    expect(await readSpreadsheet(file)).toEqual({ headers: ['id', 'name'], rows: [['small', 'Small']] });
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('recognizes the field keys, the Hebrew labels and the common header names', () => {
+    expect(guessColumnMapping(['Product ID', 'שם', 'Factory_Price', 'CBM', 'משקל'])).toEqual({
+      id: 0, name: 1, factoryPriceUSD: 2, masterCartonCBM: 3, grossWeightKg: 4,
+    });
+  });
+
+  it('takes a plain price column as the factory price and a units column as the units per carton', () => {
+    expect(guessColumnMapping(['name', 'price', 'units'])).toEqual({ name: 0, factoryPriceUSD: 1, unitsPerCarton: 2 });
+  });
+
+  it('maps each column to one field at most', () => {
+    expect(guessColumnMapping(['name', 'product'])).toEqual({ name: 0 });
+  });
+});
+
+describe('buildCatalogImport', () => {
+  const catalog = defaultCatalog();
+  const sheetOf = (headers: string[], ...rows: string[][]): SpreadsheetData => ({ headers, rows });
+  const importOf = (sheet: SpreadsheetData, deleteMissing = false) => {
+    let generated = 0;
+    return buildCatalogImport(sheet, guessColumnMapping(sheet.headers), catalog, {
+      deleteMissing,
+      newId: () => `new-${++generated}`,
+    });
+  };
+
+  it('matches rows by id when the id column is mapped, and by name otherwise', () => {
+    const byId = importOf(sheetOf(['id', 'name'], ['small', 'Small box']));
+    expect(byId.updates.map(update => [update.before.id, update.after.name])).toEqual([['small', 'Small box']]);
+    expect(byId.adds).toEqual([]);
+
+    const byName = importOf(sheetOf(['name', 'price'], ['  MEDIUM ', '5.2']));
+    expect(byName.updates).toEqual([{
+      before: catalog[1],
+      after: { ...catalog[1], name: 'MEDIUM', factoryPriceUSD: 5.2 },
+      changedFields: ['שם', 'מחיר מפעל'],
+    }]);
+  });
+
+  it('needs every required field for a new product but lets an update leave cells empty', () => {
+    const { adds, updates, unchanged, rowErrors } = importOf(sheetOf(
+      ['name', 'cbm', 'units per carton', 'price'],
+      ['Large', '', '', ''],
+      ['XL', '0.2', '', '7'],
+      ['XXL', '0.3', '2', '8'],
+    ));
+    expect(updates).toEqual([]);
+    expect(unchanged).toBe(1);
+    expect(rowErrors).toEqual([{ row: 3, errors: ['חסר יחידות בקרטון'] }]);
+    expect(adds).toEqual([{ ...adds[0], id: 'new-1', name: 'XXL', masterCartonCBM: 0.3, unitsPerCarton: 2, factoryPriceUSD: 8, profitMargin: 40, active: true }]);
+  });
+
+  it('reports a required field whose column is not mapped only for new products', () => {
+    const { rowErrors } = importOf(sheetOf(['name', 'cbm'], ['Small', '0.06'], ['XL', '0.2']));
+    expect(rowErrors).toEqual([{ row: 3, errors: ['חסר יחידות בקרטון (העמודה לא ממופה)', 'חסר מחיר מפעל (העמודה לא ממופה)'] }]);
+  });
+
+  it('rejects a name that appears twice, whatever its case and spacing', () => {
+    const { updates, rowErrors } = importOf(sheetOf(['name', 'price'], ['Small', '4.5'], ['small ', '4.6']));
+    expect(updates.map(update => update.after.factoryPriceUSD)).toEqual([4.5]);
+    expect(rowErrors).toEqual([{ row: 3, errors: ['המוצר "small" מופיע כבר בשורה 2'] }]);
+  });
+
+  it('deletes the products missing from the sheet, but never one whose row had errors', () => {
+    const { deletes, rowErrors, products } = importOf(sheetOf(['name', 'price'], ['Small', '4.5'], ['Medium', 'free']), true);
+    expect(rowErrors.map(error => error.row)).toEqual([3]);
+    expect(deletes.map(product => product.id)).toEqual(['large']);
+    expect(products.map(product => [product.id, product.factoryPriceUSD])).toEqual([['small', 4.5], ['medium', 5.51]]);
+  });
+
+  it('keeps the ids from the sheet unless they are taken, by the catalog or an earlier row', () => {
+    const { adds, updates } = importOf(sheetOf(
+      ['id', 'name', 'cbm', 'units per carton', 'price'],
+      ['', 'XL', '0.2', '4', '7'],
+      ['xxl', 'XXL', '0.3', '2', '8'],
+      ['xxl', 'XXXL', '0.4', '2', '9'],
+      ['new-1', 'Mini', '0.01', '10', '1'],
+      ['large', 'Large', '0.128', '6', '5.79'],
+    ));
+    expect(adds.map(product => [product.name, product.id])).toEqual([['XL', 'new-1'], ['XXL', 'xxl'], ['XXXL', 'new-2'], ['Mini', 'new-3']]);
+    expect(updates).toEqual([]);
+  });
+
+  it('needs the name column', () => {
+    expect(() => buildCatalogImport(sheetOf(['id'], ['small']), { id: 0 }, catalog, { deleteMissing: false, newId: () => 'x' }))
+      .toThrow('יש למפות את עמודת שם המוצר');
+  });
+});
@@ -0,0 +1,519 @@
+import ExcelJS from 'exceljs';
+import { CalculationResult, CurrencyCode, Product, SummaryData } from './types';
+import { CURRENCIES } from './constants';
+
+// Catalog import from CSV and XLSX price lists, and CSV/XLSX export of the catalog and of a
+// calculated order. Import runs in two steps: the sheet's columns are mapped to product fields
+// (guessed from the headers, adjustable by the user), then every row is validated and matched to
+// the catalog by id or name, giving a preview of adds, updates and deletes before anything changes.
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export type CatalogFieldKey =
+  | 'id'
+  | 'name'
+  | 'dimensions'
+  | 'description'
+  | 'masterCartonCBM'
+  | 'grossWeightKg'
+  | 'unitsPerCarton'
+  | 'factoryPriceUSD'
+  | 'purchaseCurrency'
+  | 'profitMargin'
+  | 'active';
+
+type ParsedValue = { value?: Product[CatalogFieldKey]; error?: string };
+
+interface CatalogField {
+  key: CatalogFieldKey;
+  label: string;
+  headers: string[]; // Other header names the column is recognized by (lowercase)
+  requiredForNew: boolean; // A new product needs it; an update keeps the current value when the cell is empty
+  internal: boolean; // Supplier data and margins - exported only to roles that may view costs
+  parse: (raw: string) => ParsedValue;
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][]; // Cells as text, without the header row
+}
+
+// Sheet column index of each mapped field
+export type CatalogColumnMapping = Partial<Record<CatalogFieldKey, number>>;
+
+export interface CatalogRowError {
+  row: number; // Row number in the sheet, the header being row 1
+  errors: string[];
+}
+
+export interface CatalogUpdate {
+  before: Product;
+  after: Product;
+  changedFields: string[]; // Labels of the changed fields
+}
+
+export interface CatalogImportPreview {
+  adds: Product[];
+  updates: CatalogUpdate[];
+  deletes: Product[];
+  unchanged: number;
+  rowErrors: CatalogRowError[]; // Rows that are skipped
+  products: Product[]; // The catalog after the import
+}
+
+const parseNumber = (raw: string): number => Number(raw.replace(/[,\s$₪€¥]/g, ''));
+
+const numberField = (label: string, check: (value: number) => boolean, rule: string) => (raw: string): ParsedValue => {
+  const value = parseNumber(raw);
+  if (!Number.isFinite(value) || !check(value)) {
+    return { error: `${label}: "${raw}" - ${rule}` };
+  }
+  return { value };
+};
+
+const TRUE_VALUES = ['1', 'true', 'yes', 'y', 'כן', 'פעיל', 'v'];
+const FALSE_VALUES = ['0', 'false', 'no', 'n', 'לא', 'לא פעיל'];
+
+export const CATALOG_FIELDS: CatalogField[] = [
+  {
+    key: 'id',
+    label: 'מזהה',
+    headers: ['id', 'product id', 'מזהה מוצר'],
+    requiredForNew: false,
+    internal: false,
+    parse: raw => ({ value: raw }),
+  },
+  {
+    key: 'name',
+    label: 'שם',
+    headers: ['name', 'product', 'product name', 'item', 'שם מוצר', 'מוצר'],
+    requiredForNew: true,
+    internal: false,
+    parse: raw => ({ value: raw }),
+  },
+  {
+    key: 'dimensions',
+    label: 'מידות',
+    headers: ['dimensions', 'size', 'גודל'],
+    requiredForNew: false,
+    internal: false,
+    parse: raw => ({ value: raw }),
+  },
+  {
+    key: 'description',
+    label: 'תיאור',
+    headers: ['description', 'desc', 'הסבר'],
+    requiredForNew: false,
+    internal: false,
+    parse: raw => ({ value: raw }),
+  },
+  {
+    key: 'masterCartonCBM',
+    label: 'CBM לקרטון',
+    headers: ['mastercartoncbm', 'cbm', 'master carton cbm', 'carton cbm', 'נפח קרטון'],
+    requiredForNew: true,
+    internal: false,
+    parse: numberField('CBM לקרטון', value => value > 0, 'חייב להיות מספר חיובי'),
+  },
+  {
+    key: 'grossWeightKg',
+    label: 'משקל קרטון (ק"ג)',
+    headers: ['grossweightkg', 'gross weight', 'weight', 'weight kg', 'משקל', 'משקל ברוטו'],
+    requiredForNew: false,
+    internal: false,
+    parse: numberField('משקל קרטון', value => value >= 0, 'חייב להיות מספר לא שלילי'),
+  },
+  {
+    key: 'unitsPerCarton',
+    label: 'יחידות בקרטון',
+    headers: ['unitspercarton', 'units per carton', 'pcs per carton', 'qty per carton', 'units', 'יחידות לקרטון'],
+    requiredForNew: true,
+    internal: false,
+    parse: numberField('יחידות בקרטון', value => Number.isInteger(value) && value >= 1, 'חייב להיות מספר שלם, 1 לפחות'),
+  },
+  {
+    key: 'factoryPriceUSD',
+    label: 'מחיר מפעל',
+    headers: ['factorypriceusd', 'factory price', 'unit price', 'price', 'fob price', 'מחיר', 'מחיר ספק'],
+    requiredForNew: true,
+    internal: true,
+    parse: numberField('מחיר מפעל', value => value >= 0, 'חייב להיות מספר לא שלילי'),
+  },
+  {
+    key: 'purchaseCurrency',
+    label: 'מטבע רכש',
+    headers: ['purchasecurrency', 'currency', 'מטבע'],
+    requiredForNew: false,
+    internal: true,
+    parse: raw => {
+      const code = raw.trim().toUpperCase();
+      const currency = CURRENCIES.find(c => c.code === code || c.symbol === raw.trim() || c.label === raw.trim());
+      return currency ? { value: currency.code } : { error: `מטבע רכש: "${raw}" - מטבע לא מוכר (${CURRENCIES.map(c => c.code).join(', ')})` };
+    },
+  },
+  {
+    key: 'profitMargin',
+    label: 'רווחיות (%)',
+    headers: ['profitmargin', 'margin', 'profit margin', 'margin %', 'רווחיות', 'אחוז רווח'],
+    requiredForNew: false,
+    internal: true,
+    parse: raw => numberField('רווחיות', value => value >= 0 && value < 100, 'חייבת להיות בין 0 ל-100')(raw.replace('%', '')),
+  },
+  {
+    key: 'active',
+    label: 'פעיל',
+    headers: ['active', 'enabled', 'פעיל בהזמנות'],
+    requiredForNew: false,
+    internal: false,
+    parse: raw => {
+      const normalized = raw.trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return { value: true };
+      if (FALSE_VALUES.includes(normalized)) return { value: false };
+      return { error: `פעיל: "${raw}" - יש לכתוב כן או לא` };
+    },
+  },
+];
+
+// Defaults of fields a new product's row leaves empty - the same as a product added by hand
+const NEW_PRODUCT_DEFAULTS: Omit<Product, 'id'> = {
+  name: '',
+  dimensions: '',
+  description: '',
+  masterCartonCBM: 0,
+  unitsPerCarton: 1,
+  factoryPriceUSD: 0,
+  profitMargin: 40,
+  active: true,
+};
+
+// A product's value of a field, with the defaults the calculator assumes for unset optional fields
+const fieldValue = (product: Product, key: CatalogFieldKey): Product[CatalogFieldKey] => {
+  if (key === 'purchaseCurrency') return product.purchaseCurrency || 'USD';
+  if (key === 'active') return product.active !== false;
+  if (key === 'grossWeightKg') return product.grossWeightKg || 0;
+  return product[key];
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\-]+/g, ' ');
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Rows of a CSV text (RFC 4180: quoted cells may hold commas, quotes and line breaks)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    rows.push([...row, cell]);
+  }
+  return rows;
+};
+
+// Text of an XLSX cell: formulas give their result, rich text and links their text, dates the day
+const cellText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return cellText(value.text);
+  if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+  return ''; // Errors and shared formulas without a result
+};
+
+const readXlsxCells = async (file: File): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const cells: string[][] = [];
+  sheet.eachRow(row => {
+    cells.push(Array.from({ length: sheet.columnCount }, (_, i) => cellText(row.getCell(i + 1).value)));
+  });
+  return cells;
+};
+
+const isCsvFile = (file: File) => file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+
+// Read the first sheet of a CSV or XLSX file
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  let cells: string[][];
+  try {
+    cells = isCsvFile(file) ? parseCsv((await file.text()).replace(/^\ufeff/, '')) : await readXlsxCells(file);
+  } catch (error) {
+    console.error('Error reading spreadsheet:', error);
+    throw new Error('לא ניתן לקרוא את הקובץ - יש להעלות קובץ CSV או XLSX');
+  }
+  const [headers = [], ...rows] = cells
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell));
+  if (headers.every(header => !header)) {
+    throw new Error('לא נמצאה שורת כותרות בקובץ');
+  }
+  return { headers, rows };
+};
+
+// Map every field whose label or one of its known header names appears in the sheet's headers
+export const guessColumnMapping = (headers: string[]): CatalogColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CatalogColumnMapping = {};
+  CATALOG_FIELDS.forEach(field => {
+    const names = [field.key.toLowerCase(), normalizeHeader(field.label), ...field.headers];
+    const index = normalized.findIndex((header, i) => names.includes(header) && !Object.values(mapping).includes(i));
+    if (index >= 0) {
+      mapping[field.key] = index;
+    }
+  });
+  return mapping;
+};
+
+// Validate the mapped rows and match them to the catalog. A product is matched by its id when the
+// id column is mapped, otherwise by name. Rows with errors are skipped - and never cause the product
+// they match to be deleted.
+export const buildCatalogImport = (
+  sheet: SpreadsheetData,
+  mapping: CatalogColumnMapping,
+  catalog: Product[],
+  options: { deleteMissing: boolean; newId: () => string }
+): CatalogImportPreview => {
+  if (mapping.name === undefined) {
+    throw new Error('יש למפות את עמודת שם המוצר');
+  }
+  const mappedFields = CATALOG_FIELDS.filter(field => mapping[field.key] !== undefined);
+  const byId = new Map(catalog.map(product => [product.id, product]));
+  const byName = new Map(catalog.map(product => [normalizeName(product.name), product]));
+  const matched = new Set<string>();
+  const seenNames = new Map<string, number>();
+  const rowErrors: CatalogRowError[] = [];
+  const adds: Product[] = [];
+  const updates: CatalogUpdate[] = [];
+  const updated = new Map<string, Product>();
+  let unchanged = 0;
+
+  sheet.rows.forEach((cells, index) => {
+    const row = index + 2;
+    const cell = (key: CatalogFieldKey) => (cells[mapping[key]!] ?? '').trim();
+    if (mappedFields.every(field => !cell(field.key))) {
+      return; // Empty row
+    }
+
+    const name = cell('name');
+    const existing = (mapping.id !== undefined && byId.get(cell('id'))) || (name ? byName.get(normalizeName(name)) : undefined);
+    if (existing) {
+      matched.add(existing.id);
+    }
+
+    const errors: string[] = [];
+    if (!name) {
+      errors.push('חסר שם מוצר');
+    } else if (seenNames.has(normalizeName(name))) {
+      errors.push(`המוצר "${name}" מופיע כבר בשורה ${seenNames.get(normalizeName(name))}`);
+    } else {
+      seenNames.set(normalizeName(name), row);
+    }
+
+    const values: Partial<Product> = {};
+    mappedFields.forEach(field => {
+      const raw = cell(field.key);
+      if (!raw) {
+        if (!existing && field.requiredForNew) {
+          errors.push(`חסר ${field.label}`);
+        }
+        return;
+      }
+      const parsed = field.parse(raw);
+      if (parsed.error) {
+        errors.push(parsed.error);
+      } else {
+        (values as Record<string, unknown>)[field.key] = parsed.value;
+      }
+    });
+    if (!existing) {
+      CATALOG_FIELDS.filter(field => field.requiredForNew && mapping[field.key] === undefined)
+        .forEach(field => errors.push(`חסר ${field.label} (העמודה לא ממופה)`));
+    }
+
+    if (errors.length > 0) {
+      rowErrors.push({ row, errors });
+      return;
+    }
+
+    if (existing) {
+      const after: Product = { ...existing, ...values, id: existing.id };
+      const changedFields = mappedFields
+        .filter(field => field.key !== 'id' && values[field.key] !== undefined && values[field.key] !== fieldValue(existing, field.key))
+        .map(field => field.label);
+      if (changedFields.length > 0) {
+        updates.push({ before: existing, after, changedFields });
+        updated.set(existing.id, after);
+      } else {
+        unchanged++;
+      }
+      return;
+    }
+
+    const fileId = values.id;
+    const id = fileId && !byId.has(fileId) && !adds.some(product => product.id === fileId) ? fileId : options.newId();
+    adds.push({ ...NEW_PRODUCT_DEFAULTS, ...values, id });
+  });
+
+  const deletes = options.deleteMissing ? catalog.filter(product => !matched.has(product.id)) : [];
+  const products = [
+    ...catalog.filter(product => !deletes.includes(product)).map(product => updated.get(product.id) || product),
+    ...adds,
+  ];
+  return { adds, updates, deletes, unchanged, rowErrors, products };
+};
+
+// A CSV cell, quoted when it holds a comma, a quote or a line break
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(csvCell).join(',')).join('\n');
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Download sheets as an XLSX workbook, or the first sheet as CSV. CSV gets a byte order mark so
+// Excel opens the Hebrew text correctly.
+export const downloadSpreadsheet = async (fileName: string, sheets: { name: string; rows: (string | number)[][] }[], format: SpreadsheetFormat): Promise<void> => {
+  if (format === 'csv') {
+    downloadBlob(new Blob(['\ufeff', toCsv(sheets[0].rows)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+    return;
+  }
+  const workbook = new ExcelJS.Workbook();
+  sheets.forEach(sheet => workbook.addWorksheet(sheet.name).addRows(sheet.rows));
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${fileName}.xlsx`);
+};
+
+// Export the catalog with the same headers the import recognizes. Supplier prices and purchase
+// currencies are left out for roles that may not view costs.
+export const exportCatalog = async (products: Product[], format: SpreadsheetFormat, includeCosts: boolean): Promise<void> => {
+  const fields = CATALOG_FIELDS.filter(field => includeCosts || !field.internal);
+  const rows = [
+    fields.map(field => field.label),
+    ...products.map(product => fields.map(field => {
+      const value = fieldValue(product, field.key);
+      return typeof value === 'boolean' ? (value ? 'כן' : 'לא') : value ?? '';
+    })),
+  ];
+  await downloadSpreadsheet(`קטלוג_${new Date().toISOString().split('T')[0]}`, [{ name: 'קטלוג', rows }], format);
+};
+
+interface ResultColumn {
+  label: string;
+  internal: boolean;
+  value: (res: CalculationResult) => string | number;
+}
+
+// Every field of CalculationResult, the product's data first
+const RESULT_COLUMNS: ResultColumn[] = [
+  { label: 'מזהה מוצר', internal: false, value: res => res.size.id },
+  { label: 'שם', internal: false, value: res => res.size.name },
+  { label: 'מידות', internal: false, value: res => res.size.dimensions },
+  { label: 'מידות פנימיות', internal: false, value: res => res.size.internalDimensions },
+  { label: 'CBM לקרטון', internal: false, value: res => res.size.masterCBM },
+  { label: 'יחידות בקרטון', internal: false, value: res => res.size.unitsPerCarton },
+  { label: 'מחיר מפעל ליחידה (USD)', internal: true, value: res => res.size.factoryPriceUSD },
+  { label: 'CBM מוקצה', internal: false, value: res => res.allocatedCBM },
+  { label: 'קרטונים', internal: false, value: res => res.cartons },
+  { label: 'יחידות', internal: false, value: res => res.totalUnits },
+  { label: 'CBM כולל', internal: false, value: res => res.totalCBM },
+  { label: 'משקל כולל (ק"ג)', internal: false, value: res => res.totalWeightKg },
+  { label: 'מחיר מפעל לכמות (USD)', internal: true, value: res => res.totalFactoryPriceUSD },
+  { label: 'סה"כ הוצאות (USD)', internal: true, value: res => res.totalExpensesUSD },
+  { label: 'הנחת כמות (%)', internal: false, value: res => res.customerDiscountPercent },
+  { label: 'מחיר לקוח ליחידה (USD)', internal: false, value: res => res.priceUSD },
+  { label: 'מחיר לקוח ליחידה (ILS)', internal: false, value: res => res.priceILS },
+  { label: 'עלות נחיתה ליחידה (USD)', internal: true, value: res => res.landingCostUSD },
+  { label: 'עלות נחיתה ליחידה (ILS)', internal: true, value: res => res.landingCostILS },
+  { label: 'רווח כולל (ILS)', internal: true, value: res => res.totalProfitILS },
+  { label: 'רווח כולל (USD)', internal: true, value: res => res.totalProfitUSD },
+  { label: 'שילוח ליחידה (USD)', internal: false, value: res => res.shippingPerUnitUSD },
+  { label: 'שילוח ליחידה (ILS)', internal: false, value: res => res.shippingPerUnitILS },
+  { label: 'מחיר כולל שילוח (USD)', internal: false, value: res => res.priceWithShippingUSD },
+  { label: 'מחיר כולל שילוח (ILS)', internal: false, value: res => res.priceWithShippingILS },
+  { label: 'מחיר לקוח ליחידה (מטבע מכירה)', internal: false, value: res => res.priceSale },
+  { label: 'שילוח ליחידה (מטבע מכירה)', internal: false, value: res => res.shippingPerUnitSale },
+  { label: 'מחיר כולל שילוח (מטבע מכירה)', internal: false, value: res => res.priceWithShippingSale },
+  { label: 'עלויות נחיתה ליחידה (USD)', internal: true, value: res => res.costLinesPerUnitUSD },
+  { label: 'רווחיות (%)', internal: true, value: res => res.productProfitMargin },
+];
+
+const SUMMARY_ROWS: { label: string; internal: boolean; value: (summary: SummaryData) => string | number }[] = [
+  { label: 'סה"כ יחידות', internal: false, value: s => s.totalUnits },
+  { label: 'CBM מנוצל', internal: false, value: s => s.totalCBMUtilized },
+  { label: 'CBM כולל', internal: false, value: s => s.totalCBM },
+  { label: 'קיבולת מכולות (CBM)', internal: false, value: s => s.containerCapacityCBM },
+  { label: 'משקל כולל (ק"ג)', internal: false, value: s => s.totalWeightKg },
+  { label: 'מטען מרבי (ק"ג)', internal: false, value: s => s.payloadCapacityKg },
+  { label: 'מגבלה מכרעת', internal: false, value: s => s.bindingConstraint === 'weight' ? 'משקל' : 'נפח' },
+  { label: 'מחיר מפעל כולל (USD)', internal: true, value: s => s.totalFactoryPriceUSD },
+  { label: 'השקעה כוללת (USD)', internal: true, value: s => s.totalInvestmentUSD },
+  { label: 'עלות שילוח (USD)', internal: false, value: s => s.totalShippingCostUSD },
+  { label: 'עלויות נחיתה (USD)', internal: true, value: s => s.totalCostLinesUSD },
+  { label: 'הוצאות לא צפויות (ILS)', internal: true, value: s => s.totalUnknownExpensesILS },
+  { label: 'רווח כולל (ILS)', internal: true, value: s => s.totalProfitILS },
+];
+
+// Export a calculated order: a row per product with every result field, and in XLSX a summary sheet.
+// Each landed-cost line gets its own per-unit column. Costs and profits are left out for roles that
+// may not view costs.
+export const exportOrderResults = async (
+  results: CalculationResult[],
+  summary: SummaryData,
+  format: SpreadsheetFormat,
+  options: { saleCurrency: CurrencyCode; includeCosts: boolean; name?: string }
+): Promise<void> => {
+  const columns = RESULT_COLUMNS.filter(column => options.includeCosts || !column.internal);
+  const costLines = options.includeCosts ? summary.costLineTotals : [];
+  const rows: (string | number)[][] = [
+    [...columns.map(column => column.label), ...costLines.map(line => `${line.name} ליחידה (USD)`)],
+    ...results.map(res => [
+      ...columns.map(column => column.value(res)),
+      ...costLines.map(line => res.costBreakdown.find(share => share.lineId === line.lineId)?.perUnitUSD ?? 0),
+    ]),
+  ];
+  const summaryRows: (string | number)[][] = [
+    ...SUMMARY_ROWS.filter(row => options.includeCosts || !row.internal).map(row => [row.label, row.value(summary)]),
+    [`סה"כ ללקוח (${options.saleCurrency})`, summary.totalRevenueSale],
+    ...costLines.map(line => [`${line.name} (USD)`, line.totalUSD]),
+  ];
+  const fileName = `${options.name ? options.name.replace(/\s+/g, '_') : 'הזמנה'}_${new Date().toISOString().split('T')[0]}`;
+  await downloadSpreadsheet(fileName, [{ name: 'מוצרים', rows }, { name: 'סיכום', rows: summaryRows }], format);
+};
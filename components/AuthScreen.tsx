@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { signInWithGoogle, signInWithEmail } from '../authService';
+
+// Sign-in screen shown until the user is authenticated
+const AuthScreen: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [createAccount, setCreateAccount] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'שגיאה לא ידועה');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4" dir="rtl">
+      <div className="bg-white shadow-lg rounded-xl p-6 md:p-8 w-full max-w-sm border border-gray-200">
+        <h1 className="text-2xl font-bold mb-1 text-slate-800 text-center">מחשבון לוגיסטיקה ותמחור</h1>
+        <p className="text-sm text-gray-500 mb-6 text-center">יש להתחבר כדי לגשת להזמנות ולקטלוג</p>
+
+        <button
+          onClick={() => run(signInWithGoogle)}
+          disabled={loading}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50 mb-4"
+        >
+          התחברות עם Google
+        </button>
+
+        <div className="text-center text-xs text-gray-400 mb-4">או</div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            run(() => signInWithEmail(email, password, createAccount));
+          }}
+          className="space-y-3"
+        >
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm"
+            placeholder="אימייל"
+            dir="ltr"
+            required
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm"
+            placeholder="סיסמה"
+            dir="ltr"
+            required
+            minLength={6}
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            {createAccount ? 'יצירת חשבון' : 'התחברות'}
+          </button>
+        </form>
+
+        <button
+          onClick={() => setCreateAccount(prev => !prev)}
+          className="w-full mt-3 text-sm text-blue-600 hover:text-blue-800"
+        >
+          {createAccount ? 'יש לי כבר חשבון' : 'אין לי חשבון - יצירת חשבון חדש'}
+        </button>
+
+        {error && <p className="mt-3 text-sm text-red-500">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AuthScreen;
@@ -0,0 +1,217 @@
+import React, { useState, useMemo } from 'react';
+import { Product } from '../types';
+import {
+  CATALOG_FIELDS,
+  CatalogColumnMapping,
+  CatalogFieldKey,
+  SpreadsheetData,
+  readSpreadsheet,
+  guessColumnMapping,
+  buildCatalogImport,
+} from '../catalogTransfer';
+
+interface CatalogImportDialogProps {
+  catalog: Product[];
+  newProductId: () => string;
+  onApply: (products: Product[]) => void; // The catalog after the import - saved with the products' save button
+  onClose: () => void;
+}
+
+// Import a CSV or XLSX price list: pick the file, map its columns, review the row errors and the
+// adds, updates and deletes, then apply
+const CatalogImportDialog: React.FC<CatalogImportDialogProps> = ({ catalog, newProductId, onApply, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<CatalogColumnMapping>({});
+  const [deleteMissing, setDeleteMissing] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const data = await readSpreadsheet(file);
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers));
+    } catch (error: any) {
+      alert(error.message || 'שגיאה לא ידועה');
+    }
+  };
+
+  const setColumn = (key: CatalogFieldKey, column: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (column === '') {
+        delete next[key];
+      } else {
+        next[key] = Number(column);
+      }
+      return next;
+    });
+  };
+
+  const preview = useMemo(() => {
+    if (!sheet || mapping.name === undefined) return null;
+    return buildCatalogImport(sheet, mapping, catalog, { deleteMissing, newId: newProductId });
+  }, [sheet, mapping, catalog, deleteMissing]);
+
+  const hasChanges = preview && (preview.adds.length + preview.updates.length + preview.deletes.length) > 0;
+
+  const handleApply = () => {
+    if (!preview) return;
+    if (preview.deletes.length > 0 && !confirm(`${preview.deletes.length} מוצרים יימחקו מהקטלוג. להמשיך?`)) return;
+    onApply(preview.products);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" dir="rtl">
+      <div className="bg-white rounded-lg p-6 max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4 text-gray-800">ייבוא קטלוג מקובץ</h3>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">קובץ CSV או XLSX (השורה הראשונה - כותרות)</label>
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="text-sm"
+          />
+          {sheet && (
+            <p className="text-xs text-gray-500 mt-1">{fileName} - {sheet.rows.length} שורות</p>
+          )}
+        </div>
+
+        {sheet && (
+          <div className="mb-4">
+            <h4 className="text-sm font-semibold text-gray-800 mb-2">מיפוי עמודות</h4>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {CATALOG_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    {field.label}{field.key === 'name' && ' *'}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setColumn(field.key, e.target.value)}
+                    className="w-full border-gray-300 border rounded-md px-2 py-1 text-sm"
+                  >
+                    <option value="">- לא לייבא -</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `עמודה ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              מוצרים מותאמים לפי מזהה אם העמודה ממופה, אחרת לפי שם. שדות שלא מופו או שתאיהם ריקים נשארים כפי שהם.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-3">
+              <input
+                type="checkbox"
+                checked={deleteMissing}
+                onChange={(e) => setDeleteMissing(e.target.checked)}
+              />
+              מחק מהקטלוג מוצרים שאינם בקובץ
+            </label>
+          </div>
+        )}
+
+        {sheet && !preview && (
+          <p className="text-sm text-red-600 mb-4">יש למפות את עמודת השם</p>
+        )}
+
+        {preview && (
+          <div className="mb-4 space-y-3">
+            <p className="text-sm text-gray-700">
+              <span className="text-green-700 font-medium">{preview.adds.length} חדשים</span>
+              {' · '}
+              <span className="text-blue-700 font-medium">{preview.updates.length} עדכונים</span>
+              {' · '}
+              <span className="text-red-700 font-medium">{preview.deletes.length} מחיקות</span>
+              {' · '}
+              {preview.unchanged} ללא שינוי
+              {preview.rowErrors.length > 0 && (
+                <>
+                  {' · '}
+                  <span className="text-amber-700 font-medium">{preview.rowErrors.length} שורות עם שגיאות (לא ייובאו)</span>
+                </>
+              )}
+            </p>
+
+            {preview.rowErrors.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-md p-3">
+                <h4 className="text-sm font-semibold text-amber-800 mb-1">שגיאות</h4>
+                <ul className="text-xs text-amber-900 space-y-0.5 max-h-40 overflow-y-auto">
+                  {preview.rowErrors.map(rowError => (
+                    <li key={rowError.row}>שורה {rowError.row}: {rowError.errors.join('; ')}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {hasChanges && (
+              <div className="overflow-x-auto border border-gray-200 rounded-md max-h-72 overflow-y-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-100 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-600">פעולה</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-600">מוצר</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-600">פרטים</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.adds.map(product => (
+                      <tr key={`add-${product.id}`} className="bg-green-50">
+                        <td className="px-3 py-1.5 text-green-700">הוספה</td>
+                        <td className="px-3 py-1.5">{product.name}</td>
+                        <td className="px-3 py-1.5 text-xs text-gray-600">
+                          {product.masterCartonCBM} CBM · {product.unitsPerCarton} בקרטון · {product.factoryPriceUSD} {product.purchaseCurrency || 'USD'}
+                        </td>
+                      </tr>
+                    ))}
+                    {preview.updates.map(update => (
+                      <tr key={`update-${update.after.id}`} className="bg-blue-50">
+                        <td className="px-3 py-1.5 text-blue-700">עדכון</td>
+                        <td className="px-3 py-1.5">{update.after.name}</td>
+                        <td className="px-3 py-1.5 text-xs text-gray-600">{update.changedFields.join(', ')}</td>
+                      </tr>
+                    ))}
+                    {preview.deletes.map(product => (
+                      <tr key={`delete-${product.id}`} className="bg-red-50">
+                        <td className="px-3 py-1.5 text-red-700">מחיקה</td>
+                        <td className="px-3 py-1.5">{product.name}</td>
+                        <td className="px-3 py-1.5 text-xs text-gray-600">לא נמצא בקובץ</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors"
+          >
+            ביטול
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!hasChanges}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            החל על הקטלוג
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogImportDialog;
@@ -0,0 +1,184 @@
+import React, { useState, useMemo } from 'react';
+import { Product } from '../types';
+import { CatalogVersion, PriceListSettings, getCatalogVersions, rollbackCatalog, pruneCatalogVersions } from '../dataService';
+import { diffProducts } from '../orderDiff';
+
+interface CatalogVersionsPanelProps {
+  products: Product[]; // Products currently in the calculator
+  priceListSettings: PriceListSettings; // What a rollback works the price list out from
+  onRolledBack: (products: Product[]) => void;
+}
+
+const DEFAULT_VERSIONS_TO_KEEP = 20;
+
+const formatVersionDate = (version: CatalogVersion) =>
+  version.createdAt ? new Date(version.createdAt).toLocaleString('he-IL') : 'לא זמין';
+
+// Saved catalog versions: compare a version with the products in the calculator, roll back and prune
+const CatalogVersionsPanel: React.FC<CatalogVersionsPanelProps> = ({ products, priceListSettings, onRolledBack }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<CatalogVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [keepCount, setKeepCount] = useState(DEFAULT_VERSIONS_TO_KEEP);
+  const [loading, setLoading] = useState(false);
+
+  const loadVersions = async () => {
+    try {
+      setLoading(true);
+      setVersions(await getCatalogVersions());
+    } catch (error) {
+      console.error('Error loading catalog versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      loadVersions();
+    }
+    setIsOpen(prev => !prev);
+  };
+
+  const selected = versions.find(v => v.version === selectedVersion);
+  const changes = useMemo(
+    () => selected ? diffProducts(selected.products, products) : [],
+    [selected, products]
+  );
+
+  const handleRollback = async (version: CatalogVersion) => {
+    if (!confirm(`לשחזר את הקטלוג לגרסה ${version.version}? המוצרים במחשבון יוחלפו.`)) {
+      return;
+    }
+    try {
+      setLoading(true);
+      await rollbackCatalog(version, priceListSettings);
+      onRolledBack(version.products);
+      setSelectedVersion(null);
+      await loadVersions();
+    } catch (error: any) {
+      alert(error.message || 'שגיאה לא ידועה');
+      setLoading(false);
+    }
+  };
+
+  const handlePrune = async () => {
+    if (!confirm(`למחוק את כל גרסאות הקטלוג מלבד ${keepCount} האחרונות?`)) {
+      return;
+    }
+    try {
+      setLoading(true);
+      const deleted = await pruneCatalogVersions(keepCount);
+      alert(`נמחקו ${deleted} גרסאות ישנות`);
+      await loadVersions();
+    } catch (error: any) {
+      alert(error.message || 'שגיאה לא ידועה');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-4 md:p-6 mb-4 md:mb-6">
+      <button
+        onClick={handleToggle}
+        className="flex items-center gap-2 text-sm font-semibold text-gray-700"
+      >
+        <svg className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        גרסאות קטלוג המוצרים
+      </button>
+
+      {isOpen && (
+        <div className="mt-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">טוען...</p>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-500">אין גרסאות שמורות - גרסה נוצרת בכל שמירת מוצרים</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 mb-4 max-h-56 overflow-y-auto">
+              {versions.map((version, index) => (
+                <li key={version.version} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-gray-700">
+                    <b>גרסה {version.version}</b> - {formatVersionDate(version)} - {version.products.length} מוצרים
+                    {version.note && <span className="mr-2 text-xs text-indigo-600">({version.note})</span>}
+                    {index === 0 && <span className="mr-2 text-xs text-green-600">(נוכחית)</span>}
+                  </span>
+                  <span className="flex gap-2">
+                    <button
+                      onClick={() => setSelectedVersion(selectedVersion === version.version ? null : version.version)}
+                      className="px-3 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-xs font-medium"
+                    >
+                      השווה
+                    </button>
+                    {index > 0 && (
+                      <button
+                        onClick={() => handleRollback(version)}
+                        className="px-3 py-1 bg-amber-500 text-white rounded-md hover:bg-amber-600 transition-colors text-xs font-medium"
+                      >
+                        שחזר
+                      </button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selected && (
+            <div className="mb-4">
+              <h4 className="text-sm font-semibold text-gray-800 mb-2">גרסה {selected.version} מול המוצרים במחשבון</h4>
+              {changes.length === 0 ? (
+                <p className="text-sm text-gray-500">אין הבדלים</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-right">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        <th className="px-3 py-2 text-sm font-medium text-gray-700">מוצר</th>
+                        <th className="px-3 py-2 text-sm font-medium text-gray-700">שדה</th>
+                        <th className="px-3 py-2 text-sm font-medium text-gray-700">בגרסה</th>
+                        <th className="px-3 py-2 text-sm font-medium text-gray-700">במחשבון</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {changes.map((change, index) => (
+                        <tr key={index}>
+                          <td className="px-3 py-2 text-sm text-gray-900">{change.group}</td>
+                          <td className="px-3 py-2 text-sm text-gray-700">{change.field}</td>
+                          <td className="px-3 py-2 text-sm text-red-600">{change.before}</td>
+                          <td className="px-3 py-2 text-sm text-emerald-700 font-medium">{change.after}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-gray-700 whitespace-nowrap">שמור</label>
+            <input
+              type="number"
+              min="1"
+              value={keepCount}
+              onChange={(e) => setKeepCount(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-20 border-gray-300 border rounded-md p-1.5 text-sm"
+            />
+            <span className="text-sm text-gray-700 whitespace-nowrap">גרסאות אחרונות</span>
+            <button
+              onClick={handlePrune}
+              disabled={loading}
+              className="px-3 py-1.5 bg-red-600 text-white text-sm rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              נקה גרסאות ישנות
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CatalogVersionsPanel;
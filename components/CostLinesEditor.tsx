@@ -0,0 +1,159 @@
+import React from 'react';
+import { CostLine, CostLineBasis, CostLineCurrency, AllocationRule } from '../types';
+import { DEFAULT_COST_LINES, COST_LINE_BASIS_LABELS, ALLOCATION_RULE_LABELS } from '../constants';
+
+interface CostLinesEditorProps {
+  costLines: CostLine[];
+  onChange: (costLines: CostLine[]) => void;
+}
+
+// Generate unique ID for cost lines
+const generateCostLineId = (): string => {
+  return `cost-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const CostLinesEditor: React.FC<CostLinesEditorProps> = ({ costLines, onChange }) => {
+  const handleAddLine = () => {
+    onChange([
+      ...costLines,
+      { id: generateCostLineId(), name: '', currency: 'USD', basis: 'fixed', amount: 0, allocation: 'perValue' },
+    ]);
+  };
+
+  // Add the typical Israeli import lines that are not already on the order
+  const handleAddDefaults = () => {
+    const existingNames = new Set(costLines.map(line => line.name));
+    const missing = DEFAULT_COST_LINES
+      .filter(line => !existingNames.has(line.name))
+      .map(line => ({ ...line, id: generateCostLineId() }));
+    onChange([...costLines, ...missing]);
+  };
+
+  const handleLineChange = (lineId: string, field: keyof CostLine, value: string | number) => {
+    onChange(costLines.map(line => line.id === lineId ? { ...line, [field]: value } : line));
+  };
+
+  const handleRemoveLine = (lineId: string) => {
+    onChange(costLines.filter(line => line.id !== lineId));
+  };
+
+  const isPercentBasis = (basis: CostLineBasis) => basis === 'percentFOB' || basis === 'percentCIF';
+
+  return (
+    <div className="bg-slate-50 p-3 md:p-4 rounded-md mb-4 md:mb-6">
+      <div className="flex justify-between items-center mb-3 md:mb-4">
+        <label className="block text-sm font-medium text-gray-700">עלויות נחיתה (מכס, מע"מ, נמל, עמיל, הובלה)</label>
+        <div className="flex gap-2">
+          <button
+            onClick={handleAddDefaults}
+            className="px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300 transition-colors"
+          >
+            שורות ברירת מחדל
+          </button>
+          <button
+            onClick={handleAddLine}
+            className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            הוסף עלות
+          </button>
+        </div>
+      </div>
+
+      {costLines.length === 0 ? (
+        <p className="text-sm text-gray-500">אין עלויות נחיתה. המחיר מחושב ממחיר המפעל וההוצאות הלא ידועות בלבד.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">שם</th>
+                <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">בסיס</th>
+                <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">סכום / אחוז</th>
+                <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">מטבע</th>
+                <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">חלוקה</th>
+                <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {costLines.map(line => (
+                <tr key={line.id} className="hover:bg-gray-50">
+                  <td className="px-3 py-3 whitespace-nowrap">
+                    <input
+                      type="text"
+                      value={line.name}
+                      onChange={(e) => handleLineChange(line.id, 'name', e.target.value)}
+                      className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[120px]"
+                      placeholder="שם העלות"
+                    />
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap">
+                    <select
+                      value={line.basis}
+                      onChange={(e) => handleLineChange(line.id, 'basis', e.target.value as CostLineBasis)}
+                      className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px]"
+                    >
+                      {(Object.keys(COST_LINE_BASIS_LABELS) as CostLineBasis[]).map(basis => (
+                        <option key={basis} value={basis}>{COST_LINE_BASIS_LABELS[basis]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap">
+                    <input
+                      type="number"
+                      value={line.amount || ''}
+                      onChange={(e) => handleLineChange(line.id, 'amount', parseFloat(e.target.value) || 0)}
+                      className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px]"
+                      placeholder="0"
+                      step="0.01"
+                    />
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap">
+                    {isPercentBasis(line.basis) ? (
+                      <span className="text-sm text-gray-500">%</span>
+                    ) : (
+                      <select
+                        value={line.currency}
+                        onChange={(e) => handleLineChange(line.id, 'currency', e.target.value as CostLineCurrency)}
+                        className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[80px]"
+                      >
+                        <option value="USD">$ USD</option>
+                        <option value="ILS">₪ ILS</option>
+                      </select>
+                    )}
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap">
+                    <select
+                      value={line.allocation}
+                      onChange={(e) => handleLineChange(line.id, 'allocation', e.target.value as AllocationRule)}
+                      className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px]"
+                    >
+                      {(Object.keys(ALLOCATION_RULE_LABELS) as AllocationRule[]).map(rule => (
+                        <option key={rule} value={rule}>{ALLOCATION_RULE_LABELS[rule]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap">
+                    <button
+                      onClick={() => handleRemoveLine(line.id)}
+                      className="text-red-600 hover:text-red-800"
+                      title="מחק עלות"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CostLinesEditor;
@@ -0,0 +1,186 @@
+import React, { useState, useMemo } from 'react';
+import { UserInputs, ExchangeRateTable } from '../types';
+import { CURRENCIES } from '../constants';
+import { createHistoryRateProvider, applyRateRecord, importRatesCSV, calculateRateSensitivity, saveRates } from '../exchangeRates';
+
+interface ExchangeRatePanelProps {
+  inputs: UserInputs;
+  onRatesChange: (exchangeRates: ExchangeRateTable, rateDate?: string) => void;
+}
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Rate history (pin a date, save, CSV import) and the profit sensitivity to rate moves
+const ExchangeRatePanel: React.FC<ExchangeRatePanelProps> = ({ inputs, onRatesChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [provider] = useState(() => createHistoryRateProvider());
+  const [pinDate, setPinDate] = useState(inputs.rateDate || today());
+  const [sensitivityPercent, setSensitivityPercent] = useState(5);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const sensitivity = useMemo(
+    () => isOpen ? calculateRateSensitivity(inputs, sensitivityPercent) : [],
+    [isOpen, inputs, sensitivityPercent]
+  );
+
+  const foreignCurrencies = CURRENCIES.filter(currency => currency.code !== 'ILS');
+
+  const handlePinDate = async () => {
+    try {
+      setLoading(true);
+      const record = await provider.getRatesForDate(pinDate);
+      if (!record) {
+        setMessage({ text: `אין שערים שמורים לתאריך ${pinDate} או לפניו`, isError: true });
+        return;
+      }
+      onRatesChange(applyRateRecord(inputs.exchangeRates, record), record.date);
+      setMessage({ text: `נטענו השערים מתאריך ${record.date}`, isError: false });
+    } catch (error: any) {
+      setMessage({ text: `שגיאה בטעינת השערים: ${error.message || 'שגיאה לא ידועה'}`, isError: true });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveCurrentRates = async () => {
+    try {
+      setLoading(true);
+      const date = today();
+      const { ILS, ...rates } = inputs.exchangeRates;
+      await saveRates([{ date, rates, source: 'manual' }]);
+      onRatesChange(inputs.exchangeRates, date);
+      setMessage({ text: `השערים נשמרו להיסטוריה לתאריך ${date}`, isError: false });
+    } catch (error: any) {
+      setMessage({ text: error.message || 'שגיאה לא ידועה', isError: true });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImportCSV = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setLoading(true);
+      const result = await importRatesCSV(await file.text());
+      setImportErrors(result.errors);
+      setMessage({ text: `יובאו שערים ל-${result.records.length} תאריכים`, isError: result.records.length === 0 });
+    } catch (error: any) {
+      setMessage({ text: `שגיאה בייבוא: ${error.message || 'שגיאה לא ידועה'}`, isError: true });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-4 md:p-6 mb-4 md:mb-6">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 text-sm font-semibold text-gray-700"
+      >
+        <svg className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        שערי מטבע - היסטוריה ורגישות
+        {inputs.rateDate && (
+          <span className="text-xs font-normal bg-blue-100 text-blue-800 px-2 py-0.5 rounded-md">שערים מתאריך {inputs.rateDate}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <input
+                type="date"
+                value={pinDate}
+                onChange={(e) => setPinDate(e.target.value)}
+                className="border-gray-300 border rounded-md p-2 text-sm"
+              />
+              <button
+                onClick={handlePinDate}
+                disabled={loading || !pinDate}
+                className="px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                טען שערים לתאריך
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <button
+                onClick={handleSaveCurrentRates}
+                disabled={loading}
+                className="px-3 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                שמור שערים נוכחיים להיסטוריה
+              </button>
+              <label className="px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300 transition-colors cursor-pointer">
+                ייבוא מ-CSV
+                <input type="file" accept=".csv,text/csv" onChange={handleImportCSV} className="hidden" />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">
+              פורמט CSV: date,USD,EUR,CNY או date,currency,rate (שער בשקלים ליחידת מטבע)
+            </p>
+            {message && (
+              <p className={`text-sm ${message.isError ? 'text-red-500' : 'text-green-600'}`}>{message.text}</p>
+            )}
+            {importErrors.length > 0 && (
+              <ul className="mt-2 text-xs text-red-500 list-disc pr-5 max-h-32 overflow-y-auto">
+                {importErrors.map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">רגישות לשינוי שער ±</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={sensitivityPercent}
+                onChange={(e) => setSensitivityPercent(parseFloat(e.target.value) || 0)}
+                className="w-20 border-gray-300 border rounded-md p-1.5 text-sm"
+              />
+              <span className="text-sm text-gray-500">%</span>
+            </div>
+            <p className="text-xs text-gray-500 -mt-2 mb-3">המחירים ללקוח נשארים כפי שהוצעו - רק העלויות משתנות עם השער</p>
+            <table className="min-w-full divide-y divide-gray-200 text-right">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-3 py-2 text-sm font-medium text-gray-700">שינוי</th>
+                  {foreignCurrencies.map(currency => (
+                    <th key={currency.code} className="px-3 py-2 text-sm font-medium text-gray-700">{currency.symbol}</th>
+                  ))}
+                  <th className="px-3 py-2 text-sm font-medium text-gray-700">רווח</th>
+                  <th className="px-3 py-2 text-sm font-medium text-gray-700">הפרש</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sensitivity.map(row => (
+                  <tr key={row.changePercent} className={row.changePercent === 0 ? 'bg-blue-50 font-semibold' : ''}>
+                    <td className="px-3 py-2 text-sm text-gray-700">{row.changePercent > 0 ? '+' : ''}{row.changePercent.toFixed(1)}%</td>
+                    {foreignCurrencies.map(currency => (
+                      <td key={currency.code} className="px-3 py-2 text-sm text-gray-700">{row.rates[currency.code].toFixed(3)}</td>
+                    ))}
+                    <td className="px-3 py-2 text-sm text-emerald-700">₪{formatMoney(row.totalProfitILS)}</td>
+                    <td className={`px-3 py-2 text-sm ${row.profitDeltaILS < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                      {row.profitDeltaILS > 0 ? '+' : ''}₪{formatMoney(row.profitDeltaILS)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRatePanel;
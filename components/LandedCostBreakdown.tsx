@@ -0,0 +1,76 @@
+import React from 'react';
+import { CalculationResult, SummaryData } from '../types';
+
+interface LandedCostBreakdownProps {
+  results: CalculationResult[];
+  summary: SummaryData;
+  exchangeRate: number;
+}
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Seller-only table of each landed-cost line per product (per unit and order total)
+const LandedCostBreakdown: React.FC<LandedCostBreakdownProps> = ({ results, summary, exchangeRate }) => {
+  if (summary.costLineTotals.length === 0) return null;
+
+  return (
+    <div className="bg-white shadow-lg rounded-lg overflow-hidden mb-6 md:mb-8 border border-gray-200">
+      <h2 className="text-lg font-bold p-4 text-slate-800 border-b-2 border-blue-200">פירוט עלויות נחיתה</h2>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-right">
+          <thead className="bg-slate-700 text-white text-xs">
+            <tr>
+              <th className="px-4 py-3 font-semibold">מוצר</th>
+              {summary.costLineTotals.map(line => (
+                <th key={line.lineId} className="px-4 py-3 font-semibold">{line.name || '-'}</th>
+              ))}
+              <th className="px-4 py-3 font-semibold">סה"כ ליחידה</th>
+              <th className="px-4 py-3 font-semibold">עלות נחיתה ליחידה</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {results.map(res => (
+              <tr key={res.size.id} className="hover:bg-gray-50">
+                <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{res.size.name}</td>
+                {summary.costLineTotals.map(line => {
+                  const share = res.costBreakdown.find(s => s.lineId === line.lineId);
+                  return (
+                    <td key={line.lineId} className="px-4 py-4 whitespace-nowrap text-sm border-l border-gray-100">
+                      <div className="text-gray-900 font-semibold">${formatMoney(share?.perUnitUSD || 0)}</div>
+                      <div className="text-gray-600 text-xs">₪{formatMoney((share?.perUnitUSD || 0) * exchangeRate)}</div>
+                    </td>
+                  );
+                })}
+                <td className="px-4 py-4 whitespace-nowrap text-sm border-l border-gray-100">
+                  <div className="text-orange-900 font-bold">${formatMoney(res.costLinesPerUnitUSD)}</div>
+                  <div className="text-orange-700 text-xs">₪{formatMoney(res.costLinesPerUnitUSD * exchangeRate)}</div>
+                </td>
+                <td className="px-4 py-4 whitespace-nowrap text-sm">
+                  <div className="text-blue-900 font-bold">${formatMoney(res.landingCostUSD)}</div>
+                  <div className="text-blue-700 text-xs">₪{formatMoney(res.landingCostILS)}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-slate-100 font-bold text-slate-800 border-t-2 border-slate-300">
+            <tr>
+              <td className="px-4 py-4 text-sm">סה"כ להזמנה:</td>
+              {summary.costLineTotals.map(line => (
+                <td key={line.lineId} className="px-4 py-4 text-sm border-l border-gray-100">
+                  <div>${formatMoney(line.totalUSD)}</div>
+                  <div className="text-xs text-gray-600">₪{formatMoney(line.totalUSD * exchangeRate)}</div>
+                </td>
+              ))}
+              <td colSpan={2} className="px-4 py-4 text-sm">
+                <div className="text-orange-900">${formatMoney(summary.totalCostLinesUSD)}</div>
+                <div className="text-xs text-orange-700">₪{formatMoney(summary.totalCostLinesUSD * exchangeRate)}</div>
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LandedCostBreakdown;
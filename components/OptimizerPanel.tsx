@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { UserInputs } from '../types';
+import { getActiveProducts } from '../pricingEngine';
+import { optimizeContainerMix, OptimizerObjective, OptimizerProposal, ProductLimits } from '../containerOptimizer';
+
+interface OptimizerPanelProps {
+  inputs: UserInputs;
+  onApply: (proposal: OptimizerProposal) => void;
+}
+
+const OBJECTIVE_LABELS: Record<OptimizerObjective, string> = {
+  profit: 'רווח מרבי',
+  units: 'מקסימום יחידות',
+  revenue: 'הכנסת יעד',
+};
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Container-fill optimizer: proposes a carton mix the user can apply to the products with one click
+const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ inputs, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [objective, setObjective] = useState<OptimizerObjective>('profit');
+  const [targetRevenueILS, setTargetRevenueILS] = useState(0);
+  const [limits, setLimits] = useState<Record<string, ProductLimits>>({});
+  const [proposal, setProposal] = useState<OptimizerProposal | null>(null);
+
+  const activeProducts = getActiveProducts(inputs.products);
+
+  const handleLimitChange = (productId: string, field: keyof ProductLimits, value: string) => {
+    const numValue = parseFloat(value);
+    setLimits(prev => ({
+      ...prev,
+      [productId]: { ...prev[productId], [field]: isNaN(numValue) || numValue <= 0 ? undefined : numValue }
+    }));
+    setProposal(null);
+  };
+
+  const handleOptimize = () => {
+    setProposal(optimizeContainerMix(inputs, { objective, targetRevenueILS, limits }));
+  };
+
+  const handleApply = () => {
+    if (!proposal) return;
+    onApply(proposal);
+    setProposal(null);
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-4 md:p-6 mb-4 md:mb-6">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 text-sm font-semibold text-gray-700"
+      >
+        <svg className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        אופטימיזציית מילוי מכולה
+      </button>
+
+      {isOpen && (
+        <div className="mt-4">
+          <div className="flex flex-col sm:flex-row gap-3 mb-4">
+            <div className="flex gap-2 bg-gray-100 p-1 rounded-lg">
+              {(Object.keys(OBJECTIVE_LABELS) as OptimizerObjective[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => { setObjective(key); setProposal(null); }}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    objective === key
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'bg-transparent text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {OBJECTIVE_LABELS[key]}
+                </button>
+              ))}
+            </div>
+            {objective === 'revenue' && (
+              <div className="relative">
+                <input
+                  type="number"
+                  value={targetRevenueILS || ''}
+                  onChange={(e) => { setTargetRevenueILS(parseFloat(e.target.value) || 0); setProposal(null); }}
+                  className="w-full border-gray-300 border rounded-md p-2 text-sm pr-8"
+                  placeholder="הכנסת יעד"
+                />
+                <span className="absolute left-2 top-2 text-gray-400 text-sm">₪</span>
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">מוצר</th>
+                  <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">כמות מינימלית</th>
+                  <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">כמות מרבית (ביקוש)</th>
+                  <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">כמות נוכחית</th>
+                  {proposal && <th className="px-3 py-3 text-right text-sm font-medium text-gray-700 whitespace-nowrap">הצעה</th>}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {activeProducts.map(product => {
+                  const line = proposal?.lines.find(l => l.productId === product.id);
+                  return (
+                    <tr key={product.id} className="hover:bg-gray-50">
+                      <td className="px-3 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{product.name}</td>
+                      <td className="px-3 py-3 whitespace-nowrap">
+                        <input
+                          type="number"
+                          min="0"
+                          value={limits[product.id]?.minQuantity || ''}
+                          onChange={(e) => handleLimitChange(product.id, 'minQuantity', e.target.value)}
+                          className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px]"
+                          placeholder="0"
+                        />
+                      </td>
+                      <td className="px-3 py-3 whitespace-nowrap">
+                        <input
+                          type="number"
+                          min="0"
+                          value={limits[product.id]?.maxQuantity || ''}
+                          onChange={(e) => handleLimitChange(product.id, 'maxQuantity', e.target.value)}
+                          className="w-full border-gray-300 border rounded-md px-3 py-2 text-sm min-w-[100px]"
+                          placeholder="ללא הגבלה"
+                        />
+                      </td>
+                      <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-700">{(product.quantity || 0).toLocaleString()}</td>
+                      {proposal && (
+                        <td className="px-3 py-3 whitespace-nowrap text-sm text-indigo-700 font-bold">
+                          {line ? `${line.quantity.toLocaleString()} (${line.cartons} קרטונים)` : '-'}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+            <button
+              onClick={handleOptimize}
+              disabled={activeProducts.length === 0 || (objective === 'revenue' && targetRevenueILS <= 0)}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              חשב הצעה
+            </button>
+            {proposal && (
+              <>
+                <div className="text-sm text-gray-700 flex flex-wrap gap-4">
+                  <span>יחידות: <b>{proposal.summary.totalUnits.toLocaleString()}</b></span>
+                  <span>נפח: <b>{proposal.summary.totalCBM.toFixed(2)} / {proposal.summary.containerCapacityCBM.toFixed(1)} CBM</b></span>
+                  <span>הכנסה: <b>₪{formatMoney(proposal.totalRevenueILS)}</b></span>
+                  <span>רווח: <b className="text-emerald-700">₪{formatMoney(proposal.summary.totalProfitILS)}</b></span>
+                </div>
+                <button
+                  onClick={handleApply}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors text-sm font-medium"
+                >
+                  החל הצעה
+                </button>
+              </>
+            )}
+          </div>
+          {proposal?.message && (
+            <p className={`mt-2 text-sm ${proposal.feasible ? 'text-gray-600' : 'text-red-500'}`}>{proposal.message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OptimizerPanel;
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Product } from '../types';
+import { SavedOrder, OrderRevision, getOrderRevisions, restoreOrderRevision } from '../dataService';
+import { diffOrderInputs } from '../orderDiff';
+
+interface OrderHistoryPanelProps {
+  order: SavedOrder;
+  catalog: Product[]; // Prices revisions saved before they kept their catalog
+  onRestored: (revision: OrderRevision) => void;
+  onClose: () => void;
+}
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatRevisionDate = (revision: OrderRevision) =>
+  revision.createdAt ? new Date(revision.createdAt).toLocaleString('he-IL') : 'לא זמין';
+
+// Revision history of a saved order: compare any two revisions and restore an older one
+const OrderHistoryPanel: React.FC<OrderHistoryPanelProps> = ({ order, catalog, onRestored, onClose }) => {
+  const [revisions, setRevisions] = useState<OrderRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  const loadRevisions = async () => {
+    if (!order.id) return;
+    try {
+      setLoading(true);
+      const history = await getOrderRevisions(order.id);
+      setRevisions(history);
+      setToId(history[0]?.id || '');
+      setFromId(history[1]?.id || history[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading order revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [order.id]);
+
+  const revisionNumber = (revision: OrderRevision) => revisions.length - revisions.indexOf(revision);
+
+  const restoredFromNumber = (revision: OrderRevision) => {
+    const source = revisions.find(r => r.id === revision.restoredFrom);
+    return source ? revisionNumber(source) : '?';
+  };
+
+  const diff = useMemo(() => {
+    const from = revisions.find(r => r.id === fromId);
+    const to = revisions.find(r => r.id === toId);
+    return from && to ? diffOrderInputs(from.inputs, to.inputs, from.catalog || catalog, to.catalog || catalog) : null;
+  }, [revisions, fromId, toId, catalog]);
+
+  const handleRestore = async (revision: OrderRevision) => {
+    if (!order.id) return;
+    if (!confirm(`לשחזר את גרסה ${revisionNumber(revision)} מתאריך ${formatRevisionDate(revision)}?`)) {
+      return;
+    }
+    try {
+      setLoading(true);
+      const inputs = await restoreOrderRevision(order.id, revision, catalog);
+      onRestored({ ...revision, inputs });
+      await loadRevisions();
+    } catch (error: any) {
+      alert(error.message || 'שגיאה לא ידועה');
+      setLoading(false);
+    }
+  };
+
+  const revisionOptions = revisions.map(revision => (
+    <option key={revision.id} value={revision.id}>
+      גרסה {revisionNumber(revision)} - {formatRevisionDate(revision)}
+    </option>
+  ));
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-base font-semibold text-gray-800">היסטוריית גרסאות</h4>
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700">סגור</button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">טוען...</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">אין גרסאות שמורות להזמנה זו (הזמנה שנשמרה לפני הוספת ההיסטוריה)</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100 mb-4 max-h-56 overflow-y-auto">
+            {revisions.map((revision, index) => (
+              <li key={revision.id} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-gray-700">
+                  <b>גרסה {revisionNumber(revision)}</b> - {formatRevisionDate(revision)}
+                  {revision.restoredFrom && (
+                    <span className="mr-2 text-xs text-indigo-600">
+                      (שחזור של גרסה {restoredFromNumber(revision)})
+                    </span>
+                  )}
+                  {index === 0 && <span className="mr-2 text-xs text-green-600">(נוכחית)</span>}
+                </span>
+                {index > 0 && (
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    className="px-3 py-1 bg-amber-500 text-white rounded-md hover:bg-amber-600 transition-colors text-xs font-medium"
+                  >
+                    שחזר
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-col sm:flex-row gap-2 mb-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              מ-
+              <select value={fromId} onChange={(e) => setFromId(e.target.value)} className="border-gray-300 border rounded-md p-1.5 text-sm">
+                {revisionOptions}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              אל-
+              <select value={toId} onChange={(e) => setToId(e.target.value)} className="border-gray-300 border rounded-md p-1.5 text-sm">
+                {revisionOptions}
+              </select>
+            </label>
+          </div>
+
+          {diff && (
+            <>
+              <div className="text-sm text-gray-700 flex flex-wrap gap-4 mb-3">
+                <span>רווח לפני: <b>₪{formatMoney(diff.profitBeforeILS)}</b></span>
+                <span>רווח אחרי: <b>₪{formatMoney(diff.profitAfterILS)}</b></span>
+                <span>
+                  השפעה על הרווח:{' '}
+                  <b className={diff.profitDeltaILS < 0 ? 'text-red-600' : 'text-emerald-600'}>
+                    {diff.profitDeltaILS > 0 ? '+' : ''}₪{formatMoney(diff.profitDeltaILS)}
+                  </b>
+                </span>
+              </div>
+              {diff.changes.length === 0 ? (
+                <p className="text-sm text-gray-500">אין הבדלים בין הגרסאות</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-right">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        <th className="px-3 py-2 text-sm font-medium text-gray-700">קבוצה</th>
+                        <th className="px-3 py-2 text-sm font-medium text-gray-700">שדה</th>
+                        <th className="px-3 py-2 text-sm font-medium text-gray-700">לפני</th>
+                        <th className="px-3 py-2 text-sm font-medium text-gray-700">אחרי</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {diff.changes.map((change, index) => (
+                        <tr key={index}>
+                          <td className="px-3 py-2 text-sm text-gray-900">{change.group}</td>
+                          <td className="px-3 py-2 text-sm text-gray-700">{change.field}</td>
+                          <td className="px-3 py-2 text-sm text-red-600 line-through">{change.before}</td>
+                          <td className="px-3 py-2 text-sm text-emerald-700 font-medium">{change.after}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OrderHistoryPanel;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { CurrencyCode, CustomerPriceTier, FactoryPriceTier, Product } from '../types';
+import { getCurrencySymbol } from '../currency';
+
+type TierFields = Pick<Product, 'minOrderQuantity' | 'factoryPriceTiers' | 'customerPriceTiers'>;
+
+interface PriceTiersEditorProps {
+  product: TierFields & { purchaseCurrency?: CurrencyCode };
+  onChange: <K extends keyof TierFields>(field: K, value: TierFields[K]) => void;
+  showFactoryTiers: boolean; // Factory prices are for users who see costs
+  disabled: boolean;
+}
+
+interface TierListProps<T extends { minQuantity: number }> {
+  title: string;
+  valueLabel: string;
+  valueKey: keyof T & string;
+  tiers: T[];
+  newTier: T;
+  onChange: (tiers: T[] | undefined) => void;
+  disabled: boolean;
+}
+
+// Rows of quantity breaks: from how many units, and the value that applies from there
+const TierList = <T extends { minQuantity: number }>({ title, valueLabel, valueKey, tiers, newTier, onChange, disabled }: TierListProps<T>) => {
+  const update = (index: number, changes: Partial<T>) => {
+    onChange(tiers.map((tier, i) => i === index ? { ...tier, ...changes } : tier));
+  };
+  const remove = (index: number) => {
+    const remaining = tiers.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? remaining : undefined);
+  };
+
+  return (
+    <div>
+      <div className="text-xs text-gray-500 mb-1">{title}</div>
+      {tiers.length > 0 && (
+        <table className="text-sm mb-1">
+          <thead>
+            <tr>
+              <th className="px-1 text-right text-xs font-normal text-gray-500">מ- (יחידות)</th>
+              <th className="px-1 text-right text-xs font-normal text-gray-500">{valueLabel}</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {tiers.map((tier, index) => (
+              <tr key={index}>
+                <td className="px-1 py-0.5">
+                  <input
+                    type="number"
+                    value={tier.minQuantity || ''}
+                    onChange={(e) => update(index, { minQuantity: parseInt(e.target.value) || 0 } as Partial<T>)}
+                    className="w-24 border-gray-300 border rounded-md px-2 py-1 text-sm"
+                    min="1"
+                    step="1"
+                    disabled={disabled}
+                  />
+                </td>
+                <td className="px-1 py-0.5">
+                  <input
+                    type="number"
+                    value={(tier[valueKey] as number) || ''}
+                    onChange={(e) => update(index, { [valueKey]: parseFloat(e.target.value) || 0 } as Partial<T>)}
+                    className="w-24 border-gray-300 border rounded-md px-2 py-1 text-sm"
+                    step="0.01"
+                    disabled={disabled}
+                  />
+                </td>
+                <td className="px-1 py-0.5">
+                  {!disabled && (
+                    <button onClick={() => remove(index)} className="text-xs text-red-600 hover:text-red-800">מחק</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {!disabled && (
+        <button
+          onClick={() => onChange([...tiers, newTier])}
+          className="text-xs text-blue-600 hover:text-blue-800"
+        >
+          + הוסף מדרגה
+        </button>
+      )}
+    </div>
+  );
+};
+
+// A product's factory MOQ and price breaks, and the volume discounts it offers customers
+const PriceTiersEditor: React.FC<PriceTiersEditorProps> = ({ product, onChange, showFactoryTiers, disabled }) => {
+  const factoryTiers = product.factoryPriceTiers || [];
+  const customerTiers = product.customerPriceTiers || [];
+  const lastMinQuantity = (tiers: { minQuantity: number }[]) => tiers.reduce((max, tier) => Math.max(max, tier.minQuantity), 0);
+
+  return (
+    <div className="flex flex-wrap gap-6">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">MOQ (יחידות)</label>
+        <input
+          type="number"
+          value={product.minOrderQuantity || ''}
+          onChange={(e) => onChange('minOrderQuantity', parseInt(e.target.value) || undefined)}
+          className="w-24 border-gray-300 border rounded-md px-2 py-1.5 text-sm"
+          placeholder="0"
+          min="0"
+          step="1"
+          disabled={disabled}
+        />
+      </div>
+      {showFactoryTiers && (
+        <TierList<FactoryPriceTier>
+          title="מדרגות מחיר מפעל"
+          valueLabel={`מחיר (${getCurrencySymbol(product.purchaseCurrency || 'USD')})`}
+          valueKey="price"
+          tiers={factoryTiers}
+          newTier={{ minQuantity: lastMinQuantity(factoryTiers) + 1000, price: 0 }}
+          onChange={(tiers) => onChange('factoryPriceTiers', tiers)}
+          disabled={disabled}
+        />
+      )}
+      <TierList<CustomerPriceTier>
+        title="הנחות כמות ללקוח"
+        valueLabel="הנחה (%)"
+        valueKey="discountPercent"
+        tiers={customerTiers}
+        newTier={{ minQuantity: lastMinQuantity(customerTiers) + 1000, discountPercent: 0 }}
+        onChange={(tiers) => onChange('customerPriceTiers', tiers)}
+        disabled={disabled}
+      />
+    </div>
+  );
+};
+
+export default PriceTiersEditor;
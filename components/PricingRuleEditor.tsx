@@ -0,0 +1,97 @@
+import React from 'react';
+import { PriceRounding, PricingRule, PricingStrategy } from '../types';
+import { CURRENCIES, PRICING_STRATEGY_LABELS, PRICE_ROUNDING_LABELS } from '../constants';
+
+interface PricingRuleEditorProps {
+  rule?: PricingRule;
+  onChange: (rule: PricingRule | undefined) => void;
+  disabled: boolean;
+}
+
+const STRATEGIES = Object.keys(PRICING_STRATEGY_LABELS) as PricingStrategy[];
+const ROUNDINGS = Object.keys(PRICE_ROUNDING_LABELS) as PriceRounding[];
+
+// A product's pricing strategy and price rounding
+const PricingRuleEditor: React.FC<PricingRuleEditorProps> = ({ rule, onChange, disabled }) => {
+  const strategy = rule?.strategy || 'margin';
+  const isCalculated = strategy === 'margin' || strategy === 'markup';
+
+  const update = (changes: Partial<PricingRule>) => {
+    const next: PricingRule = { ...rule, strategy, ...changes };
+    // Plain margin pricing without rounding is the default - no rule to keep
+    onChange(next.strategy === 'margin' && (!next.rounding || next.rounding === 'none') ? undefined : next);
+  };
+
+  const inputClass = 'border-gray-300 border rounded-md px-2 py-1.5 text-sm';
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">אסטרטגיה</label>
+        <select
+          value={strategy}
+          onChange={(e) => update({ strategy: e.target.value as PricingStrategy })}
+          className={inputClass}
+          disabled={disabled}
+        >
+          {STRATEGIES.map(key => <option key={key} value={key}>{PRICING_STRATEGY_LABELS[key]}</option>)}
+        </select>
+      </div>
+      {strategy === 'markup' && (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">תוספת (%)</label>
+          <input
+            type="number"
+            value={rule?.markupPercent ?? ''}
+            onChange={(e) => update({ markupPercent: parseFloat(e.target.value) || 0 })}
+            className={`${inputClass} w-24`}
+            placeholder="60"
+            step="0.1"
+            disabled={disabled}
+          />
+        </div>
+      )}
+      {!isCalculated && (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">
+            {strategy === 'targetPrice' ? 'מחיר ליחידה כולל שילוח' : 'מחיר ליחידה'}
+          </label>
+          <div className="flex gap-1">
+            <input
+              type="number"
+              value={rule?.price ?? ''}
+              onChange={(e) => update({ price: parseFloat(e.target.value) || 0 })}
+              className={`${inputClass} w-28`}
+              placeholder="0"
+              step="0.01"
+              disabled={disabled}
+            />
+            <select
+              value={rule?.priceCurrency || 'ILS'}
+              onChange={(e) => update({ priceCurrency: e.target.value as PricingRule['priceCurrency'] })}
+              className={inputClass}
+              disabled={disabled}
+            >
+              {CURRENCIES.map(currency => <option key={currency.code} value={currency.code}>{currency.symbol}</option>)}
+            </select>
+          </div>
+        </div>
+      )}
+      {isCalculated && (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">עיגול מחיר (כלפי מעלה)</label>
+          <select
+            value={rule?.rounding || 'none'}
+            onChange={(e) => update({ rounding: e.target.value as PriceRounding })}
+            className={inputClass}
+            disabled={disabled}
+          >
+            {ROUNDINGS.map(key => <option key={key} value={key}>{PRICE_ROUNDING_LABELS[key]}</option>)}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PricingRuleEditor;
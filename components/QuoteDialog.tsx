@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { Incoterm, QuoteDetails, QuoteTemplate } from '../types';
+import { DEFAULT_QUOTE_TEMPLATE, INCOTERMS } from '../constants';
+import { getQuoteTemplate, allocateQuoteNumber } from '../dataService';
+import { getQuoteValidUntil } from '../quoteDocument';
+
+interface QuoteDialogProps {
+  initial?: QuoteDetails; // The order's last quotation
+  canAllocateNumber: boolean; // May take the next running quote number
+  onCancel: () => void;
+  onConfirm: (details: QuoteDetails, template: QuoteTemplate) => Promise<void>;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Customer and terms of a customer quotation - defaults come from the team's template or the order's last quotation
+const QuoteDialog: React.FC<QuoteDialogProps> = ({ initial, canAllocateNumber, onCancel, onConfirm }) => {
+  const [template, setTemplate] = useState<QuoteTemplate>(DEFAULT_QUOTE_TEMPLATE);
+  const [details, setDetails] = useState<QuoteDetails>(() => initial ? { ...initial, issueDate: today() } : {
+    customerName: '',
+    customerContact: '',
+    quoteNumber: '',
+    issueDate: today(),
+    validityDays: DEFAULT_QUOTE_TEMPLATE.validityDays,
+    incoterm: DEFAULT_QUOTE_TEMPLATE.incoterm,
+    paymentTerms: DEFAULT_QUOTE_TEMPLATE.paymentTerms,
+  });
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    getQuoteTemplate()
+      .then(loaded => {
+        setTemplate(loaded);
+        if (!initial) {
+          setDetails(prev => ({
+            ...prev,
+            validityDays: loaded.validityDays,
+            incoterm: loaded.incoterm,
+            paymentTerms: loaded.paymentTerms,
+          }));
+        }
+      })
+      .catch(error => console.error('Error loading quote template:', error));
+  }, []);
+
+  const update = (changes: Partial<QuoteDetails>) => setDetails(prev => ({ ...prev, ...changes }));
+
+  const handleConfirm = async () => {
+    try {
+      setLoading(true);
+      const quoteNumber = details.quoteNumber.trim() || (canAllocateNumber ? await allocateQuoteNumber(template.quoteNumberPrefix) : '');
+      update({ quoteNumber });
+      await onConfirm({ ...details, quoteNumber }, template);
+    } catch (error: any) {
+      alert(error.message || 'שגיאה לא ידועה');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full border-gray-300 border rounded-md px-3 py-2 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" dir="rtl">
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4 text-gray-800">הצעת מחיר ללקוח</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">שם הלקוח</label>
+            <input
+              type="text"
+              value={details.customerName}
+              onChange={(e) => update({ customerName: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">איש קשר ופרטי התקשרות</label>
+            <textarea
+              value={details.customerContact}
+              onChange={(e) => update({ customerContact: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">מספר הצעה</label>
+              <input
+                type="text"
+                value={details.quoteNumber}
+                onChange={(e) => update({ quoteNumber: e.target.value })}
+                className={inputClass}
+                dir="ltr"
+                placeholder={canAllocateNumber ? 'יוקצה אוטומטית' : ''}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">תאריך</label>
+              <input
+                type="date"
+                value={details.issueDate}
+                onChange={(e) => update({ issueDate: e.target.value || today() })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">תוקף (ימים)</label>
+              <input
+                type="number"
+                min={1}
+                value={details.validityDays}
+                onChange={(e) => update({ validityDays: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                בתוקף עד {new Date(`${getQuoteValidUntil(details)}T00:00:00`).toLocaleDateString('he-IL')}
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">תנאי אספקה</label>
+              <select
+                value={details.incoterm}
+                onChange={(e) => update({ incoterm: e.target.value as Incoterm })}
+                className={inputClass}
+              >
+                {INCOTERMS.map(term => <option key={term.code} value={term.code}>{term.label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">תנאי תשלום</label>
+            <input
+              type="text"
+              value={details.paymentTerms}
+              onChange={(e) => update({ paymentTerms: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2 justify-end mt-6">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors"
+          >
+            ביטול
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={loading || !details.customerName.trim()}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {loading ? 'מפיק...' : 'הפק הצעת מחיר'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteDialog;
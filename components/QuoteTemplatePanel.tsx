@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { Incoterm, QuoteTemplate } from '../types';
+import { DEFAULT_QUOTE_TEMPLATE, INCOTERMS } from '../constants';
+import { getQuoteTemplate, saveQuoteTemplate } from '../dataService';
+
+// The logo is stored inside the template document, so it has to stay small
+const MAX_LOGO_BYTES = 200 * 1024;
+
+// Company details, logo and default terms printed on the team's customer quotations (admins only)
+const QuoteTemplatePanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [template, setTemplate] = useState<QuoteTemplate>(DEFAULT_QUOTE_TEMPLATE);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getQuoteTemplate()
+      .then(setTemplate)
+      .catch(error => console.error('Error loading quote template:', error));
+  }, [isOpen]);
+
+  const update = (changes: Partial<QuoteTemplate>) => setTemplate(prev => ({ ...prev, ...changes }));
+
+  const handleLogoChange = (file: File | undefined) => {
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      alert('הלוגו חייב להיות קובץ PNG או JPEG');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      alert('קובץ הלוגו גדול מדי (עד 200KB)');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => update({ logoDataUrl: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    try {
+      setLoading(true);
+      await saveQuoteTemplate(template);
+      alert('תבנית הצעת המחיר נשמרה');
+    } catch (error: any) {
+      alert(error.message || 'שגיאה לא ידועה');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full border-gray-300 border rounded-md px-3 py-2 text-sm';
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-4 md:p-6 mb-6">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 text-sm font-semibold text-gray-700"
+      >
+        <svg className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        תבנית הצעת מחיר
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">שם החברה</label>
+              <input
+                type="text"
+                value={template.companyName}
+                onChange={(e) => update({ companyName: e.target.value })}
+                className={inputClass}
+              />
+              <label className="block text-sm font-medium text-gray-700 mt-3 mb-1">פרטי החברה (שורה לכל פרט)</label>
+              <textarea
+                value={template.companyDetails}
+                onChange={(e) => update({ companyDetails: e.target.value })}
+                rows={4}
+                className={inputClass}
+                placeholder={'כתובת\nטלפון\nדוא"ל\nח.פ.'}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">לוגו (PNG או JPEG)</label>
+              {template.logoDataUrl && (
+                <div className="flex items-center gap-3 mb-2">
+                  <img src={template.logoDataUrl} alt="לוגו" className="max-h-16 max-w-[10rem] object-contain border border-gray-200 rounded" />
+                  <button
+                    onClick={() => update({ logoDataUrl: undefined })}
+                    className="text-xs text-red-600 hover:text-red-800"
+                  >
+                    הסר לוגו
+                  </button>
+                </div>
+              )}
+              <input
+                type="file"
+                accept="image/png,image/jpeg"
+                onChange={(e) => {
+                  handleLogoChange(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+                className="text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">קידומת מספר הצעה</label>
+              <input
+                type="text"
+                value={template.quoteNumberPrefix}
+                onChange={(e) => update({ quoteNumberPrefix: e.target.value })}
+                className={inputClass}
+                dir="ltr"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">תוקף (ימים)</label>
+              <input
+                type="number"
+                min={1}
+                value={template.validityDays}
+                onChange={(e) => update({ validityDays: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">תנאי אספקה</label>
+              <select
+                value={template.incoterm}
+                onChange={(e) => update({ incoterm: e.target.value as Incoterm })}
+                className={inputClass}
+              >
+                {INCOTERMS.map(term => <option key={term.code} value={term.code}>{term.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">תנאי תשלום</label>
+              <input
+                type="text"
+                value={template.paymentTerms}
+                onChange={(e) => update({ paymentTerms: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">הערות ותנאים כלליים</label>
+            <textarea
+              value={template.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">שם החותם</label>
+              <input
+                type="text"
+                value={template.signatureName}
+                onChange={(e) => update({ signatureName: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">תפקיד החותם</label>
+              <input
+                type="text"
+                value={template.signatureTitle}
+                onChange={(e) => update({ signatureTitle: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSave}
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+            >
+              {loading ? 'שומר...' : 'שמור תבנית'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuoteTemplatePanel;
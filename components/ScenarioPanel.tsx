@@ -0,0 +1,238 @@
+import React, { useState, useMemo } from 'react';
+import { ContainerTypeId, CurrencyCode, Scenario, ScenarioOverrides, UserInputs } from '../types';
+import { CONTAINER_TYPES } from '../constants';
+import { formatCurrency } from '../currency';
+import { compareScenarios, ScenarioMetrics } from '../scenarios';
+
+interface ScenarioPanelProps {
+  inputs: UserInputs;
+  scenarios: Scenario[];
+  onChange: (scenarios: Scenario[]) => void; // Kept with the order
+  readOnly: boolean;
+}
+
+interface MetricRow {
+  key: keyof ScenarioMetrics;
+  label: string;
+  format: (value: number, currency: CurrencyCode) => string;
+  higherIsBetter: boolean;
+}
+
+const formatNumber = (value: number, fractionDigits = 0) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+
+const METRIC_ROWS: MetricRow[] = [
+  { key: 'totalUnits', label: 'יחידות', format: value => formatNumber(value), higherIsBetter: true },
+  { key: 'totalCBM', label: 'CBM', format: value => formatNumber(value, 2), higherIsBetter: true },
+  { key: 'cbmUtilizationPercent', label: 'ניצולת מכולה', format: value => `${formatNumber(value, 1)}%`, higherIsBetter: true },
+  { key: 'totalInvestmentUSD', label: 'השקעה', format: value => formatCurrency(value, 'USD'), higherIsBetter: false },
+  { key: 'totalRevenueSale', label: 'הכנסה (כולל שילוח)', format: (value, currency) => formatCurrency(value, currency), higherIsBetter: true },
+  { key: 'totalProfitILS', label: 'רווח', format: value => formatCurrency(value, 'ILS'), higherIsBetter: true },
+  { key: 'profitPercent', label: '% רווח', format: value => `${formatNumber(value, 1)}%`, higherIsBetter: true },
+];
+
+const CONTAINER_IDS = Object.keys(CONTAINER_TYPES) as ContainerTypeId[];
+
+const newScenarioId = () => `scenario-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// An empty field keeps the order's value
+const parseOverride = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || isNaN(parsed) ? undefined : parsed;
+};
+
+// Named what-if variants of the order priced side by side, with the deltas against a chosen baseline
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ inputs, scenarios, onChange, readOnly }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [baselineId, setBaselineId] = useState<string | undefined>(undefined);
+
+  const comparison = useMemo(
+    () => isOpen ? compareScenarios(inputs, scenarios, baselineId) : [],
+    [isOpen, inputs, scenarios, baselineId]
+  );
+  const baselineKey = scenarios.some(scenario => scenario.id === baselineId) ? baselineId : undefined;
+
+  const handleAdd = () => {
+    onChange([...scenarios, { id: newScenarioId(), name: `תרחיש ${scenarios.length + 1}`, overrides: {} }]);
+  };
+
+  const updateScenario = (id: string, changes: Partial<Scenario>) => {
+    onChange(scenarios.map(scenario => scenario.id === id ? { ...scenario, ...changes } : scenario));
+  };
+
+  const updateOverride = (scenario: Scenario, key: keyof ScenarioOverrides, value: ScenarioOverrides[keyof ScenarioOverrides]) => {
+    const overrides = { ...scenario.overrides, [key]: value };
+    if (value === undefined) {
+      delete overrides[key];
+    }
+    updateScenario(scenario.id, { overrides });
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(scenarios.filter(scenario => scenario.id !== id));
+    if (baselineId === id) {
+      setBaselineId(undefined);
+    }
+  };
+
+  const inputClass = 'w-full border-gray-300 border rounded-md px-2 py-1 text-sm';
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-4 md:p-6 mb-4 md:mb-6">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 text-sm font-semibold text-gray-700"
+      >
+        <svg className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        השוואת תרחישים {scenarios.length > 0 && `(${scenarios.length})`}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-xs text-gray-500">
+            כל תרחיש מחושב מההזמנה הנוכחית עם השינויים שלו בלבד. שדה ריק שומר על ערך ההזמנה.
+          </p>
+
+          {scenarios.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-2 py-2 text-right text-xs font-medium text-gray-600">שם</th>
+                    <th className="px-2 py-2 text-right text-xs font-medium text-gray-600">מכולה</th>
+                    <th className="px-2 py-2 text-right text-xs font-medium text-gray-600">מס' מכולות</th>
+                    <th className="px-2 py-2 text-right text-xs font-medium text-gray-600">שער דולר</th>
+                    <th className="px-2 py-2 text-right text-xs font-medium text-gray-600">רווחיות אחידה %</th>
+                    <th className="px-2 py-2 text-right text-xs font-medium text-gray-600">שילוח ($)</th>
+                    <th className="px-2 py-2 text-right text-xs font-medium text-gray-600">הוצאות לא צפויות</th>
+                    <th className="px-2 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {scenarios.map(scenario => (
+                    <tr key={scenario.id}>
+                      <td className="px-2 py-1.5 min-w-[8rem]">
+                        <input
+                          type="text"
+                          value={scenario.name}
+                          onChange={(e) => updateScenario(scenario.id, { name: e.target.value })}
+                          disabled={readOnly}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="px-2 py-1.5 min-w-[8rem]">
+                        <select
+                          value={scenario.overrides.containerType || ''}
+                          onChange={(e) => updateOverride(scenario, 'containerType', (e.target.value || undefined) as ContainerTypeId | undefined)}
+                          disabled={readOnly}
+                          className={inputClass}
+                        >
+                          <option value="">כמו בהזמנה</option>
+                          {CONTAINER_IDS.map(id => <option key={id} value={id}>{CONTAINER_TYPES[id].label}</option>)}
+                        </select>
+                      </td>
+                      {([
+                        ['containerCount', inputs.containerCount ?? 1],
+                        ['usdRate', inputs.exchangeRates.USD],
+                        ['profitMargin', ''],
+                        ['shippingCostUSD', inputs.shippingCostUSD],
+                        ['unknownExpensesValue', inputs.unknownExpensesValue],
+                      ] as [keyof ScenarioOverrides, number | string][]).map(([key, current]) => (
+                        <td key={key} className="px-2 py-1.5 min-w-[6rem]">
+                          <input
+                            type="number"
+                            step="any"
+                            value={(scenario.overrides[key] as number | undefined) ?? ''}
+                            placeholder={String(current)}
+                            onChange={(e) => updateOverride(scenario, key, parseOverride(e.target.value))}
+                            disabled={readOnly}
+                            className={inputClass}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-2 py-1.5">
+                        {!readOnly && (
+                          <button
+                            onClick={() => handleRemove(scenario.id)}
+                            className="text-xs text-red-600 hover:text-red-800"
+                          >
+                            מחק
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!readOnly && (
+            <button
+              onClick={handleAdd}
+              className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors"
+            >
+              הוסף תרחיש
+            </button>
+          )}
+
+          {scenarios.length > 0 && (
+            <div className="overflow-x-auto">
+              <h4 className="text-sm font-semibold text-gray-800 mb-2">השוואה</h4>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-600"></th>
+                    {comparison.map(entry => {
+                      const id = entry.scenario?.id;
+                      return (
+                        <th key={id || 'order'} className="px-3 py-2 text-right text-xs font-medium text-gray-700">
+                          <div>{entry.scenario ? entry.scenario.name : 'ההזמנה'}</div>
+                          <label className="flex items-center gap-1 font-normal text-gray-500 mt-1">
+                            <input
+                              type="radio"
+                              name="scenario-baseline"
+                              checked={baselineKey === id}
+                              onChange={() => setBaselineId(id)}
+                            />
+                            בסיס
+                          </label>
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {METRIC_ROWS.map(row => (
+                    <tr key={row.key}>
+                      <td className="px-3 py-1.5 text-xs font-medium text-gray-600 whitespace-nowrap">{row.label}</td>
+                      {comparison.map(entry => {
+                        const delta = entry.deltas[row.key];
+                        const isBaseline = (entry.scenario?.id) === baselineKey;
+                        const better = row.higherIsBetter ? delta > 0 : delta < 0;
+                        return (
+                          <td key={entry.scenario?.id || 'order'} className="px-3 py-1.5 whitespace-nowrap">
+                            <div className="text-gray-900">{row.format(entry.metrics[row.key], inputs.saleCurrency)}</div>
+                            {!isBaseline && Math.abs(delta) > 1e-9 && (
+                              <div className={`text-xs ${better ? 'text-green-700' : 'text-red-700'}`}>
+                                {delta > 0 ? '+' : '−'}{row.format(Math.abs(delta), inputs.saleCurrency)}
+                              </div>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPanel;
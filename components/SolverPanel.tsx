@@ -0,0 +1,206 @@
+import React, { useState, useMemo } from 'react';
+import { UserInputs } from '../types';
+import { formatCurrency } from '../currency';
+import { getActiveProducts } from '../pricingEngine';
+import { solveForTarget, getBreakEvenPrices, SolverSolution, SolverUnknown } from '../profitSolver';
+
+interface SolverPanelProps {
+  inputs: UserInputs;
+  onApplyMargins: (margins: Record<string, number>) => void;
+  onApplyQuantities: (quantities: Record<string, number>) => void;
+  readOnly: boolean;
+}
+
+const UNKNOWN_LABELS: Record<SolverUnknown, string> = {
+  margin: 'רווחיות',
+  rate: 'שער דולר',
+  shipping: 'עלות שילוח',
+  quantity: 'כמות',
+};
+
+const UNKNOWN_DESCRIPTIONS: Record<SolverUnknown, string> = {
+  margin: 'איזו רווחיות מביאה ליעד הרווח',
+  rate: 'באיזה שער דולר המחירים הנוכחיים ללקוח מגיעים ליעד (שער גבוה יותר מקטין את הרווח)',
+  shipping: 'עד איזו עלות שילוח המחירים הנוכחיים ללקוח, כולל שילוח, עדיין מגיעים ליעד',
+  quantity: 'כמה יחידות צריך כדי להגיע ליעד הרווח ברווחיות הנוכחית',
+};
+
+const formatNumber = (value: number, fractionDigits = 2) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+
+// Break-even and target-profit solver: solves the order for one unknown, per product or uniformly
+const SolverPanel: React.FC<SolverPanelProps> = ({ inputs, onApplyMargins, onApplyQuantities, readOnly }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [unknown, setUnknown] = useState<SolverUnknown>('margin');
+  const [breakEven, setBreakEven] = useState(true);
+  const [targetProfitILS, setTargetProfitILS] = useState(0);
+  const [productId, setProductId] = useState('');
+  const [solution, setSolution] = useState<SolverSolution | null>(null);
+
+  const activeProducts = getActiveProducts(inputs.products);
+  const breakEvenPrices = useMemo(() => isOpen ? getBreakEvenPrices(inputs) : [], [isOpen, inputs]);
+
+  const reset = () => setSolution(null);
+
+  const handleSolve = () => {
+    setSolution(solveForTarget(inputs, {
+      unknown,
+      targetProfitILS: breakEven ? 0 : targetProfitILS,
+      productId: productId || undefined,
+    }));
+  };
+
+  const describeSolution = (solved: SolverSolution): string => {
+    const value = solved.value ?? 0;
+    switch (unknown) {
+      case 'margin':
+        return `רווחיות של ${formatNumber(value)}%`;
+      case 'rate':
+        return `שער של ${formatNumber(value, 4)} ₪ לדולר (כעת ${formatNumber(inputs.exchangeRates.USD, 4)})`;
+      case 'shipping':
+        return `עלות שילוח של ${formatCurrency(value, 'USD')}${inputs.containerType === 'LCL' ? ' ל-CBM' : ' למכולה'} (כעת ${formatCurrency(inputs.shippingCostUSD, 'USD')})`;
+      case 'quantity':
+        return `${value.toLocaleString()} יחידות`;
+    }
+  };
+
+  const handleApply = () => {
+    if (!solution) return;
+    if (solution.margins) {
+      // Rounded up so the applied margin still reaches the target
+      onApplyMargins(Object.fromEntries(Object.entries(solution.margins).map(([id, margin]) => [id, Math.ceil(margin * 100) / 100])));
+    } else if (solution.quantities) {
+      onApplyQuantities(solution.quantities);
+    }
+    setSolution(null);
+  };
+
+  const canApply = !readOnly && solution?.feasible && (solution.margins || solution.quantities);
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-4 md:p-6 mb-4 md:mb-6">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 text-sm font-semibold text-gray-700"
+      >
+        <svg className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        נקודת איזון ויעד רווח
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="flex gap-2 bg-gray-100 p-1 rounded-lg w-fit">
+            {(Object.keys(UNKNOWN_LABELS) as SolverUnknown[]).map(key => (
+              <button
+                key={key}
+                onClick={() => { setUnknown(key); reset(); }}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  unknown === key
+                    ? 'bg-blue-600 text-white shadow-sm'
+                    : 'bg-transparent text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {UNKNOWN_LABELS[key]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">{UNKNOWN_DESCRIPTIONS[unknown]}</p>
+
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">יעד</label>
+              <div className="flex items-center gap-3 text-sm text-gray-700">
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={breakEven} onChange={() => { setBreakEven(true); reset(); }} />
+                  איזון (רווח 0)
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={!breakEven} onChange={() => { setBreakEven(false); reset(); }} />
+                  רווח של
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    value={targetProfitILS}
+                    onChange={(e) => { setTargetProfitILS(parseFloat(e.target.value) || 0); setBreakEven(false); reset(); }}
+                    className="w-32 border-gray-300 border rounded-md pl-3 pr-7 py-1.5 text-sm"
+                  />
+                  <span className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 text-sm">₪</span>
+                </div>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">עבור</label>
+              <select
+                value={productId}
+                onChange={(e) => { setProductId(e.target.value); reset(); }}
+                className="border-gray-300 border rounded-md px-2 py-1.5 text-sm"
+              >
+                <option value="">כל ההזמנה (אחיד)</option>
+                {activeProducts.map(product => (
+                  <option key={product.id} value={product.id}>{product.name || 'ללא שם'}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={handleSolve}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+            >
+              חשב
+            </button>
+          </div>
+
+          {solution && (
+            <div className={`rounded-md p-3 text-sm ${solution.feasible ? 'bg-green-50 border border-green-200' : 'bg-amber-50 border border-amber-200'}`}>
+              {solution.feasible ? (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">{describeSolution(solution)}</p>
+                    {solution.quantities && !productId && (
+                      <p className="text-xs text-gray-600 mt-1">
+                        {activeProducts.filter(product => solution.quantities![product.id]).map(product =>
+                          `${product.name}: ${solution.quantities![product.id].toLocaleString()}`
+                        ).join(' · ')}
+                      </p>
+                    )}
+                    {solution.exceedsCapacity && (
+                      <p className="text-xs text-amber-700 mt-1">הכמות חורגת מקיבולת המכולות של ההזמנה</p>
+                    )}
+                  </div>
+                  {canApply && (
+                    <button
+                      onClick={handleApply}
+                      className="px-3 py-1.5 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 transition-colors"
+                    >
+                      החל על ההזמנה
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-amber-800">{solution.message}</p>
+              )}
+            </div>
+          )}
+
+          {breakEvenPrices.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-2">מחיר איזון ליחידה (כולל שילוח)</h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {breakEvenPrices.map(price => (
+                  <div key={price.productId} className="bg-slate-50 rounded-md px-3 py-2">
+                    <p className="text-xs text-gray-600">{price.name || 'ללא שם'}</p>
+                    <p className="text-sm font-medium text-gray-900">{formatCurrency(price.priceSale, inputs.saleCurrency)}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SolverPanel;
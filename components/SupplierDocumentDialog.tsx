@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Incoterm, SupplierDocumentDetails } from '../types';
+import { INCOTERMS } from '../constants';
+import { SupplierDocumentKind } from '../supplierDocuments';
+import { SpreadsheetFormat } from '../catalogTransfer';
+
+interface SupplierDocumentDialogProps {
+  initial?: SupplierDocumentDetails; // The order's last proforma
+  onCancel: () => void;
+  onGenerate: (kind: SupplierDocumentKind, format: SpreadsheetFormat | 'pdf', details: SupplierDocumentDetails) => Promise<void>;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Supplier and shipping terms of the proforma and packing list, then either document as PDF or XLSX.
+// The documents are in English - the fields are filled in English too.
+const SupplierDocumentDialog: React.FC<SupplierDocumentDialogProps> = ({ initial, onCancel, onGenerate }) => {
+  const [details, setDetails] = useState<SupplierDocumentDetails>(() => initial || {
+    documentNumber: `PO-${today().replace(/-/g, '')}`,
+    issueDate: today(),
+    supplierName: '',
+    supplierDetails: '',
+    incoterm: 'FOB',
+    paymentTerms: '30% deposit, 70% before shipment',
+    portOfLoading: '',
+    portOfDischarge: 'Haifa, Israel',
+    shippingMarks: '',
+  });
+  const [loading, setLoading] = useState(false);
+
+  const update = (changes: Partial<SupplierDocumentDetails>) => setDetails(prev => ({ ...prev, ...changes }));
+
+  const handleGenerate = async (kind: SupplierDocumentKind, format: SpreadsheetFormat | 'pdf') => {
+    try {
+      setLoading(true);
+      await onGenerate(kind, format, details);
+    } catch (error: any) {
+      console.error('Error generating supplier document:', error);
+      alert(error.message || 'שגיאה ביצירת המסמך. נסה שוב.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full border-gray-300 border rounded-md px-3 py-2 text-sm';
+  const canGenerate = !loading && details.supplierName.trim() && details.documentNumber.trim();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" dir="rtl">
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-1 text-gray-800">מסמכים לספק</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          הזמנת רכש / פרופורמה ורשימת אריזה באנגלית. המסמכים כוללים את מחירי הספק בלבד - ללא מחירי לקוח ורווחיות.
+        </p>
+        <div className="space-y-3" dir="ltr">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Document No.</label>
+              <input
+                type="text"
+                value={details.documentNumber}
+                onChange={(e) => update({ documentNumber: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input
+                type="date"
+                value={details.issueDate}
+                onChange={(e) => update({ issueDate: e.target.value || today() })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+            <input
+              type="text"
+              value={details.supplierName}
+              onChange={(e) => update({ supplierName: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Supplier address and contact</label>
+            <textarea
+              value={details.supplierDetails}
+              onChange={(e) => update({ supplierDetails: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Incoterm</label>
+              <select
+                value={details.incoterm}
+                onChange={(e) => update({ incoterm: e.target.value as Incoterm })}
+                className={inputClass}
+              >
+                {INCOTERMS.map(term => <option key={term.code} value={term.code}>{term.code}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Payment terms</label>
+              <input
+                type="text"
+                value={details.paymentTerms}
+                onChange={(e) => update({ paymentTerms: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Port of loading</label>
+              <input
+                type="text"
+                value={details.portOfLoading}
+                onChange={(e) => update({ portOfLoading: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Port of discharge</label>
+              <input
+                type="text"
+                value={details.portOfDischarge}
+                onChange={(e) => update({ portOfDischarge: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Shipping marks</label>
+            <input
+              type="text"
+              value={details.shippingMarks}
+              onChange={(e) => update({ shippingMarks: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2 mt-6">
+          <button
+            onClick={() => handleGenerate('proforma', 'pdf')}
+            disabled={!canGenerate}
+            className="px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+          >
+            פרופורמה PDF
+          </button>
+          <button
+            onClick={() => handleGenerate('proforma', 'xlsx')}
+            disabled={!canGenerate}
+            className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+          >
+            פרופורמה Excel
+          </button>
+          <button
+            onClick={() => handleGenerate('packingList', 'pdf')}
+            disabled={!canGenerate}
+            className="px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+          >
+            רשימת אריזה PDF
+          </button>
+          <button
+            onClick={() => handleGenerate('packingList', 'xlsx')}
+            disabled={!canGenerate}
+            className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+          >
+            רשימת אריזה Excel
+          </button>
+        </div>
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors"
+          >
+            סגור
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierDocumentDialog;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { SyncState, subscribeToSync } from '../syncStatus';
+import { PendingWrite, getConflictingWrites, resolveConflict, syncPendingWrites } from '../dataService';
+
+interface SyncStatusIndicatorProps {
+  onResolved: () => void; // A conflict was resolved - the catalog and orders should be reloaded
+}
+
+const describeWrite = (write: PendingWrite): string =>
+  write.kind === 'saveProducts' ? 'קטלוג המוצרים' : `הזמנה "${write.name}"`;
+
+const statusLabel = (state: SyncState): { text: string; color: string } => {
+  if (!state.online) {
+    return {
+      text: state.pending > 0 ? `לא מקוון - ${state.pending} שינויים ממתינים` : 'לא מקוון - עובד מהנתונים במכשיר',
+      color: 'bg-amber-500',
+    };
+  }
+  if (state.syncing) return { text: 'מסנכרן...', color: 'bg-blue-500' };
+  if (state.error) return { text: 'הסנכרון נכשל', color: 'bg-red-500' };
+  if (state.pending > 0) return { text: `${state.pending} שינויים ממתינים`, color: 'bg-amber-500' };
+  return { text: 'מסונכרן', color: 'bg-green-500' };
+};
+
+// Connection and sync status in the header, with the conflicts left by the last sync
+const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ onResolved }) => {
+  const [state, setState] = useState<SyncState | null>(null);
+  const [conflicts, setConflicts] = useState<PendingWrite[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => subscribeToSync(setState), []);
+
+  useEffect(() => {
+    if (showConflicts) {
+      getConflictingWrites().then(setConflicts).catch(error => console.error('Error loading sync conflicts:', error));
+    }
+  }, [showConflicts, state?.conflicts]);
+
+  if (!state) return null;
+
+  const { text, color } = statusLabel(state);
+
+  const handleResolve = async (write: PendingWrite, keep: 'local' | 'server') => {
+    try {
+      setLoading(true);
+      await resolveConflict(write, keep);
+      onResolved();
+    } catch (error: any) {
+      alert(error.message || 'שגיאה לא ידועה');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="relative inline-flex items-center gap-2">
+      <span className={`w-2 h-2 rounded-full ${color}`} />
+      <span title={state.error || undefined}>{text}</span>
+      {state.online && state.error && (
+        <button onClick={() => syncPendingWrites()} className="text-blue-600 hover:text-blue-800">נסה שוב</button>
+      )}
+      {state.conflicts > 0 && (
+        <button
+          onClick={() => setShowConflicts(prev => !prev)}
+          className="text-xs bg-red-100 text-red-800 px-2 py-0.5 rounded-md hover:bg-red-200"
+        >
+          {state.conflicts} התנגשויות
+        </button>
+      )}
+
+      {showConflicts && state.conflicts > 0 && (
+        <div className="absolute top-full mt-2 left-1/2 -translate-x-1/2 z-10 w-80 bg-white border border-gray-200 rounded-lg shadow-lg p-3 text-right">
+          <p className="text-xs text-gray-600 mb-2">
+            השינויים הבאים נשמרו במכשיר בזמן שהנתונים השתנו גם בשרת. יש לבחור איזו גרסה לשמור.
+          </p>
+          <ul className="divide-y divide-gray-100">
+            {conflicts.map(write => (
+              <li key={write.id} className="py-2">
+                <div className="text-sm text-gray-800 mb-1">{describeWrite(write)}</div>
+                <div className="text-xs text-gray-500 mb-2">
+                  נשמר במכשיר: {new Date(write.queuedAt).toLocaleString('he-IL')}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleResolve(write, 'local')}
+                    disabled={loading || !state.online}
+                    className="px-2 py-1 bg-blue-600 text-white text-xs rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    שמור את הגרסה שלי
+                  </button>
+                  <button
+                    onClick={() => handleResolve(write, 'server')}
+                    disabled={loading}
+                    className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded-md hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    השאר את הגרסה בשרת
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusIndicator;
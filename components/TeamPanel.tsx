@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { AppUser, Team, getTeam, setMemberRole, removeFromTeam, joinTeam, setSalesMarginRange, resendVerificationEmail } from '../authService';
+import { UserRole } from '../types';
+import { DEFAULT_SALES_MARGIN_RANGE, ROLE_LABELS, ROLE_PERMISSIONS } from '../constants';
+
+interface TeamPanelProps {
+  user: AppUser;
+  onTeamChange: (user: AppUser) => void; // Moved to another team
+  onUserChange: (user: AppUser) => void; // Same team, changed settings
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+// The user's team: members and their roles and the sales margin range for admins, and switching to another team
+const TeamPanel: React.FC<TeamPanelProps> = ({ user, onTeamChange, onUserChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('sales');
+  const [marginRange, setMarginRange] = useState(user.salesMarginRange ?? DEFAULT_SALES_MARGIN_RANGE);
+  const [joinTeamId, setJoinTeamId] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadTeam = async () => {
+    try {
+      setTeam(await getTeam(user.teamId));
+    } catch (error) {
+      console.error('Error loading team:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTeam();
+    }
+  }, [isOpen, user.teamId]);
+
+  useEffect(() => {
+    setMarginRange(user.salesMarginRange ?? DEFAULT_SALES_MARGIN_RANGE);
+  }, [user.salesMarginRange]);
+
+  const canManage = ROLE_PERMISSIONS[user.role].manageTeam;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setLoading(true);
+      await action();
+    } catch (error: any) {
+      alert(error.message || 'שגיאה לא ידועה');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = () => run(async () => {
+    await setMemberRole(user.teamId, inviteEmail, inviteRole);
+    setInviteEmail('');
+    await loadTeam();
+  });
+
+  const handleRoleChange = (email: string, role: UserRole) => run(async () => {
+    await setMemberRole(user.teamId, email, role);
+    await loadTeam();
+  });
+
+  const handleSaveMarginRange = () => run(async () => {
+    onUserChange(await setSalesMarginRange(user, marginRange));
+  });
+
+  const handleRemove = (email: string) => run(async () => {
+    if (!confirm(`להסיר את ${email} מהצוות?`)) return;
+    await removeFromTeam(user.teamId, email);
+    await loadTeam();
+  });
+
+  const handleResendVerification = () => run(async () => {
+    await resendVerificationEmail();
+    alert(`מייל אימות נשלח אל ${user.email}`);
+  });
+
+  const handleJoin = (teamId: string) => run(async () => {
+    if (!confirm('לעבור לצוות אחר? ההזמנות והקטלוג יוחלפו בשל הצוות החדש.')) return;
+    onTeamChange(await joinTeam(user, teamId.trim()));
+    setJoinTeamId('');
+  });
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-4 md:p-6 mb-6">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 text-sm font-semibold text-gray-700"
+      >
+        <svg className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        צוות {team ? `- ${team.name}` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            התפקיד שלך: <span className="font-medium">{ROLE_LABELS[user.role]}</span>
+          </p>
+          <p className="text-sm text-gray-700">
+            מזהה הצוות: <code className="bg-gray-100 px-2 py-0.5 rounded text-xs" dir="ltr">{user.teamId}</code>
+          </p>
+
+          {team && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-2">חברי צוות</h4>
+              <ul className="divide-y divide-gray-100 mb-2">
+                {Object.entries(team.memberRoles).map(([email, role]) => (
+                  <li key={email} className="flex items-center justify-between gap-2 py-1.5 text-sm text-gray-700">
+                    <span dir="ltr">{email}</span>
+                    <div className="flex items-center gap-2">
+                      {canManage && email !== user.email ? (
+                        <select
+                          value={role}
+                          onChange={(e) => handleRoleChange(email, e.target.value as UserRole)}
+                          disabled={loading}
+                          className="border-gray-300 border rounded-md px-2 py-1 text-xs"
+                        >
+                          {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                        </select>
+                      ) : (
+                        <span className="text-xs text-gray-500">{ROLE_LABELS[role]}</span>
+                      )}
+                      {canManage && email !== user.email && (
+                        <button onClick={() => handleRemove(email)} disabled={loading} className="text-xs text-red-600 hover:text-red-800">
+                          הסר
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              {canManage && (
+                <div className="flex gap-2">
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    className="flex-1 border-gray-300 border rounded-md px-3 py-1.5 text-sm"
+                    placeholder="אימייל להזמנה"
+                    dir="ltr"
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as UserRole)}
+                    className="border-gray-300 border rounded-md px-2 py-1.5 text-sm"
+                  >
+                    {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                  <button
+                    onClick={handleInvite}
+                    disabled={loading || !inviteEmail.trim()}
+                    className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    הזמן
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {canManage && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-2">טווח אחוזי רווח לאנשי מכירות</h4>
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                <span>מ-</span>
+                <input
+                  type="number"
+                  value={marginRange.min}
+                  onChange={(e) => setMarginRange(prev => ({ ...prev, min: parseFloat(e.target.value) || 0 }))}
+                  className="w-20 border-gray-300 border rounded-md px-2 py-1.5 text-sm"
+                  min="0"
+                  max="100"
+                />
+                <span>% עד</span>
+                <input
+                  type="number"
+                  value={marginRange.max}
+                  onChange={(e) => setMarginRange(prev => ({ ...prev, max: parseFloat(e.target.value) || 0 }))}
+                  className="w-20 border-gray-300 border rounded-md px-2 py-1.5 text-sm"
+                  min="0"
+                  max="99"
+                />
+                <span>%</span>
+                <button
+                  onClick={handleSaveMarginRange}
+                  disabled={loading}
+                  className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  שמור
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                אנשי המכירות רואים מחירים בלבד - טווח המחירים שלהם מחושב מחדש בשמירת הקטלוג הבאה
+              </p>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-800 mb-2">הצטרפות לצוות אחר</h4>
+            {!user.emailVerified && (
+              <p className="text-xs text-amber-700 mb-2">
+                ההצטרפות לצוות דורשת כתובת מייל מאומתת - פתח את הקישור שנשלח אל {user.email}.{' '}
+                <button onClick={handleResendVerification} disabled={loading} className="underline disabled:opacity-50">
+                  שלח שוב
+                </button>
+              </p>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={joinTeamId}
+                onChange={(e) => setJoinTeamId(e.target.value)}
+                className="flex-1 border-gray-300 border rounded-md px-3 py-1.5 text-sm"
+                placeholder="מזהה צוות"
+                dir="ltr"
+              />
+              <button
+                onClick={() => handleJoin(joinTeamId)}
+                disabled={loading || !joinTeamId.trim()}
+                className="px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                הצטרף
+              </button>
+              {user.teamId !== user.uid && (
+                <button
+                  onClick={() => handleJoin(user.uid)}
+                  disabled={loading}
+                  className="px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300 transition-colors disabled:opacity-50"
+                >
+                  חזור לצוות האישי
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamPanel;
@@ -1,5 +1,4 @@
-
-import { BoxSizeData } from './types';
+import { BoxSizeData, CostLine, CostLineBasis, AllocationRule, ContainerType, ContainerTypeId, CurrencyCode, ExchangeRateTable, UserRole, RolePermissions, MarginRange, Incoterm, QuoteTemplate, PricingStrategy, PriceRounding } from './types';
 
 export const BOX_SIZES: BoxSizeData[] = [
   {
@@ -31,7 +30,97 @@ export const BOX_SIZES: BoxSizeData[] = [
   }
 ];
 
-export const CONTAINER_CAPACITIES = {
-  '20': 27.2,
-  '40': 67.1
+// Container / freight catalog. FCL containers are priced per container, LCL (part-load) per CBM.
+export const CONTAINER_TYPES: Record<ContainerTypeId, ContainerType> = {
+  '20': { id: '20', label: "מכולה 20'", usableCBM: 27.2, maxPayloadKg: 28000, freightBasis: 'perContainer' },
+  '40': { id: '40', label: "מכולה 40'", usableCBM: 67.1, maxPayloadKg: 26700, freightBasis: 'perContainer' },
+  '40HC': { id: '40HC', label: "מכולה 40'HC", usableCBM: 76.3, maxPayloadKg: 26500, freightBasis: 'perContainer' },
+  '45HC': { id: '45HC', label: "מכולה 45'HC", usableCBM: 86.0, maxPayloadKg: 27700, freightBasis: 'perContainer' },
+  'LCL': { id: 'LCL', label: 'LCL (מטען חלקי)', usableCBM: 15, maxPayloadKg: 10000, freightBasis: 'perCBM' },
+};
+
+// Typical landed-cost lines for importing into Israel (amounts to be filled per order)
+export const DEFAULT_COST_LINES: Omit<CostLine, 'id'>[] = [
+  { name: 'מכס', currency: 'USD', basis: 'percentCIF', amount: 0, allocation: 'perValue' },
+  { name: 'מע"מ יבוא', currency: 'USD', basis: 'percentCIF', amount: 18, allocation: 'perValue' },
+  { name: 'דמי נמל ומסוף', currency: 'USD', basis: 'fixed', amount: 0, allocation: 'perCBM' },
+  { name: 'עמיל מכס', currency: 'ILS', basis: 'fixed', amount: 0, allocation: 'perValue' },
+  { name: 'הובלה יבשתית', currency: 'ILS', basis: 'fixed', amount: 0, allocation: 'perCBM' },
+];
+
+export const COST_LINE_BASIS_LABELS: Record<CostLineBasis, string> = {
+  fixed: 'סכום קבוע',
+  percentFOB: '% מ-FOB',
+  percentCIF: '% מ-CIF',
+  perCBM: 'ל-CBM',
+  perCarton: 'לקרטון',
+};
+
+export const ALLOCATION_RULE_LABELS: Record<AllocationRule, string> = {
+  perUnit: 'ליחידה',
+  perCBM: 'לפי CBM',
+  perValue: 'לפי ערך',
+  perCarton: 'לפי קרטונים',
+};
+
+export const PRICING_STRATEGY_LABELS: Record<PricingStrategy, string> = {
+  margin: 'רווחיות מהמחיר',
+  markup: 'תוספת על העלות',
+  fixedPrice: 'מחיר קבוע',
+  targetPrice: 'מחיר יעד כולל שילוח',
+};
+
+export const PRICE_ROUNDING_LABELS: Record<PriceRounding, string> = {
+  none: 'ללא עיגול',
+  to90: 'לסיומת 90',
+  whole: 'לשלם',
+  to5: 'לכפולה של 5',
+};
+
+export const CURRENCIES: { code: CurrencyCode; symbol: string; label: string }[] = [
+  { code: 'ILS', symbol: '₪', label: 'שקל' },
+  { code: 'USD', symbol: '$', label: 'דולר' },
+  { code: 'EUR', symbol: '€', label: 'אירו' },
+  { code: 'CNY', symbol: '¥', label: 'יואן' },
+];
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  ILS: 1,
+  USD: 3.2,
+  EUR: 3.5,
+  CNY: 0.44,
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'מנהל',
+  sales: 'איש מכירות',
+  viewer: 'צופה',
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, RolePermissions> = {
+  admin: { viewCosts: true, editCatalog: true, editCosts: true, editOrders: true, manageTeam: true },
+  sales: { viewCosts: false, editCatalog: false, editCosts: false, editOrders: true, manageTeam: false },
+  viewer: { viewCosts: false, editCatalog: false, editCosts: false, editOrders: false, manageTeam: false },
+};
+
+// Margin range of teams that never set one
+export const DEFAULT_SALES_MARGIN_RANGE: MarginRange = { min: 15, max: 60 };
+
+export const INCOTERMS: { code: Incoterm; label: string }[] = [
+  { code: 'EXW', label: 'EXW - איסוף מהמפעל' },
+  { code: 'FOB', label: 'FOB - עד נמל המוצא' },
+  { code: 'DDP', label: 'DDP - עד הלקוח כולל מכס ומסים' },
+];
+
+// Quotation template of teams that never set one
+export const DEFAULT_QUOTE_TEMPLATE: QuoteTemplate = {
+  companyName: '',
+  companyDetails: '',
+  quoteNumberPrefix: 'Q',
+  validityDays: 30,
+  incoterm: 'DDP',
+  paymentTerms: 'שוטף + 30',
+  notes: 'המחירים אינם כוללים מע"מ.',
+  signatureName: '',
+  signatureTitle: '',
 };
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { applyProposal, optimizeContainerMix } from './containerOptimizer';
+import { calculateOrder } from './pricingEngine';
+import { defaultInputs } from './testFixtures';
+
+// Mixes of the default Small/Medium/Large products in a 40' container (testFixtures.ts)
+
+const quantities = (lines: { productId: string; quantity: number }[]) =>
+  Object.fromEntries(lines.map(line => [line.productId, line.quantity]));
+
+describe('optimizeContainerMix', () => {
+  it('fills the container with the product that packs the most units', () => {
+    const proposal = optimizeContainerMix(defaultInputs(), { objective: 'units' });
+    expect(proposal.feasible).toBe(true);
+    expect(quantities(proposal.lines)).toEqual({ small: 4544, medium: 0, large: 0 });
+    expect(proposal.summary.totalCBM).toBeLessThanOrEqual(67.1);
+  });
+
+  it('earns more than the 40/30/30 mix when maximizing profit', () => {
+    const inputs = defaultInputs();
+    const proposal = optimizeContainerMix(inputs, { objective: 'profit' });
+    expect(proposal.feasible).toBe(true);
+    expect(proposal.summary.totalCBM).toBeLessThanOrEqual(67.1);
+    expect(proposal.summary.totalProfitILS).toBeGreaterThan(calculateOrder(inputs).summary.totalProfitILS);
+  });
+
+  it('keeps every product inside its minimum and maximum', () => {
+    const proposal = optimizeContainerMix(defaultInputs(), {
+      objective: 'profit',
+      limits: { small: { maxQuantity: 2000 }, large: { minQuantity: 600 } },
+    });
+    const quantity = quantities(proposal.lines);
+    expect(quantity.small).toBeLessThanOrEqual(2000);
+    expect(quantity.large).toBeGreaterThanOrEqual(600);
+    expect(proposal.summary.totalCBM).toBeLessThanOrEqual(67.1);
+  });
+
+  it('reports minimums that do not fit the container', () => {
+    const proposal = optimizeContainerMix(defaultInputs(), { objective: 'units', limits: { large: { minQuantity: 5000 } } });
+    expect(proposal.feasible).toBe(false);
+    expect(proposal.message).toBeTruthy();
+  });
+
+  it('reaches a target revenue with part of the container', () => {
+    const proposal = optimizeContainerMix(defaultInputs(), { objective: 'revenue', targetRevenueILS: 50000 });
+    expect(proposal.feasible).toBe(true);
+    expect(proposal.totalRevenueILS).toBeGreaterThanOrEqual(50000);
+    expect(proposal.summary.totalCBM).toBeLessThan(67.1 * 0.75);
+  });
+
+  it('reports a target revenue beyond the container', () => {
+    const proposal = optimizeContainerMix(defaultInputs(), { objective: 'revenue', targetRevenueILS: 1000000 });
+    expect(proposal.feasible).toBe(false);
+  });
+});
+
+describe('applyProposal', () => {
+  it('sets the proposed quantities and the volume shares they take', () => {
+    const inputs = applyProposal(defaultInputs(), [{ productId: 'small', name: 'Small', cartons: 250, quantity: 1000 }]);
+    const small = inputs.products.find(p => p.id === 'small');
+    expect(small?.quantity).toBe(1000);
+    expect(small?.mixPercent).toBeCloseTo((250 * 0.059 / 67.1) * 100, 9);
+  });
+});
@@ -0,0 +1,189 @@
+import { UserInputs, OrderProduct, SummaryData } from './types';
+import { calculateOrder, calculateResults, getActiveProducts, getFactoryPriceUSD, getContainerCapacityCBM, getContainerPayloadKg, quantitiesToMixPercents } from './pricingEngine';
+import { getStrategyPriceUSD } from './pricingStrategy';
+
+// Container-fill optimizer - finds the carton mix that maximizes profit or units,
+// or reaches a target revenue with the least container space.
+
+export type OptimizerObjective = 'profit' | 'units' | 'revenue';
+
+export interface ProductLimits {
+  minQuantity?: number; // Minimum units of the product in the order
+  maxQuantity?: number; // Maximum units (demand cap)
+}
+
+export interface OptimizerOptions {
+  objective: OptimizerObjective;
+  targetRevenueILS?: number; // Required for the 'revenue' objective
+  limits?: Record<string, ProductLimits>; // Per product id
+}
+
+export interface OptimizedLine {
+  productId: string;
+  name: string;
+  cartons: number;
+  quantity: number;
+}
+
+export interface OptimizerProposal {
+  lines: OptimizedLine[];
+  summary: SummaryData; // The proposed mix priced through the regular pricing engine
+  totalRevenueILS: number;
+  feasible: boolean; // False when the minimums do not fit or the target revenue cannot be reached
+  message?: string;
+}
+
+// Capacity is discretized into slots; each carton takes the larger of its volume and weight share
+const CAPACITY_SLOTS = 100000;
+
+interface Candidate {
+  product: OrderProduct;
+  minCartons: number;
+  maxCartons: number;
+  size: number; // Capacity slots per carton
+  value: number; // Objective value per carton
+  revenuePerCartonILS: number;
+}
+
+// Per-unit profit and price of each product, taken from a representative full container
+// (all active products in equal volume shares) so order-level costs are spread realistically
+const getUnitEconomics = (inputs: UserInputs, products: OrderProduct[]): Record<string, { profitILS: number; priceILS: number }> => {
+  const equalShare = products.length > 0 ? 100 / products.length : 0;
+  const results = calculateResults({
+    ...inputs,
+    products: products.map(p => ({ ...p, quantity: undefined, mixPercent: equalShare })),
+  });
+  const economics: Record<string, { profitILS: number; priceILS: number }> = {};
+  products.forEach(product => {
+    const result = results.find(r => r.size.id === product.id);
+    const landingCostUSD = result?.landingCostUSD ?? getFactoryPriceUSD(product, inputs);
+    const priceILS = result && result.totalUnits > 0
+      ? result.priceILS
+      : getStrategyPriceUSD(product, landingCostUSD, 0, inputs) * inputs.exchangeRates.USD;
+    economics[product.id] = { priceILS, profitILS: priceILS - landingCostUSD * inputs.exchangeRates.USD };
+  });
+  return economics;
+};
+
+// Bounded knapsack over the capacity slots. Each product's carton count is split into
+// power-of-two bundles so the bounded problem becomes a 0/1 knapsack.
+// Returns the best value for every capacity and a way to rebuild the chosen cartons.
+const solveKnapsack = (candidates: Candidate[], capacity: number) => {
+  const bundles: { candidateIndex: number; count: number; size: number; value: number }[] = [];
+  candidates.forEach((candidate, candidateIndex) => {
+    let remaining = candidate.maxCartons - candidate.minCartons;
+    let count = 1;
+    while (remaining > 0) {
+      const take = Math.min(count, remaining);
+      bundles.push({ candidateIndex, count: take, size: take * candidate.size, value: take * candidate.value });
+      remaining -= take;
+      count *= 2;
+    }
+  });
+
+  const best = new Float64Array(capacity + 1);
+  const taken = bundles.map(() => new Uint8Array(capacity + 1));
+  bundles.forEach((bundle, bundleIndex) => {
+    for (let c = capacity; c >= bundle.size; c--) {
+      const withBundle = best[c - bundle.size] + bundle.value;
+      if (withBundle > best[c]) {
+        best[c] = withBundle;
+        taken[bundleIndex][c] = 1;
+      }
+    }
+  });
+
+  const rebuild = (slots: number): number[] => {
+    const cartons = candidates.map(candidate => candidate.minCartons);
+    let c = slots;
+    for (let bundleIndex = bundles.length - 1; bundleIndex >= 0; bundleIndex--) {
+      if (taken[bundleIndex][c]) {
+        cartons[bundles[bundleIndex].candidateIndex] += bundles[bundleIndex].count;
+        c -= bundles[bundleIndex].size;
+      }
+    }
+    return cartons;
+  };
+
+  return { best, rebuild };
+};
+
+// Find the best carton mix for the active products within the container capacity
+export const optimizeContainerMix = (inputs: UserInputs, options: OptimizerOptions): OptimizerProposal => {
+  const products = getActiveProducts(inputs.products).filter(p => p.masterCartonCBM > 0 && p.unitsPerCarton > 0);
+  const capacityCBM = getContainerCapacityCBM(inputs);
+  const payloadKg = getContainerPayloadKg(inputs);
+  const economics = getUnitEconomics(inputs, products);
+
+  const candidates: Candidate[] = products.map(product => {
+    const limits = options.limits?.[product.id] || {};
+    const cbmShare = product.masterCartonCBM / capacityCBM;
+    const weightShare = product.grossWeightKg && payloadKg > 0 ? product.grossWeightKg / payloadKg : 0;
+    const size = Math.max(1, Math.ceil(Math.max(cbmShare, weightShare) * CAPACITY_SLOTS));
+    const minCartons = Math.ceil((limits.minQuantity || 0) / product.unitsPerCarton);
+    const capacityCartons = Math.floor(CAPACITY_SLOTS / size);
+    const maxCartons = limits.maxQuantity !== undefined && limits.maxQuantity > 0
+      ? Math.max(minCartons, Math.min(capacityCartons, Math.floor(limits.maxQuantity / product.unitsPerCarton)))
+      : Math.max(minCartons, capacityCartons);
+    const { profitILS, priceILS } = economics[product.id];
+    const revenuePerCartonILS = priceILS * product.unitsPerCarton;
+    const value = options.objective === 'units'
+      ? product.unitsPerCarton
+      : options.objective === 'revenue'
+        ? revenuePerCartonILS
+        : Math.max(0, profitILS * product.unitsPerCarton);
+    return { product, minCartons, maxCartons, size, value, revenuePerCartonILS };
+  });
+
+  const reservedSlots = candidates.reduce((sum, c) => sum + c.minCartons * c.size, 0);
+  const freeSlots = CAPACITY_SLOTS - reservedSlots;
+  let feasible = freeSlots >= 0;
+  let message: string | undefined = feasible ? undefined : 'הכמויות המינימליות חורגות מקיבולת המכולה';
+
+  let cartons = candidates.map(c => c.minCartons);
+  if (feasible) {
+    const { best, rebuild } = solveKnapsack(candidates, freeSlots);
+    if (options.objective === 'revenue') {
+      // Smallest container share whose best revenue reaches the target
+      const minimumRevenue = candidates.reduce((sum, c) => sum + c.minCartons * c.revenuePerCartonILS, 0);
+      const target = (options.targetRevenueILS || 0) - minimumRevenue;
+      let slots = -1;
+      for (let c = 0; c <= freeSlots; c++) {
+        if (best[c] >= target) {
+          slots = c;
+          break;
+        }
+      }
+      if (slots < 0) {
+        feasible = false;
+        message = 'לא ניתן להגיע להכנסת היעד בקיבולת המכולה - מוצגת ההכנסה המרבית';
+        slots = freeSlots;
+      }
+      cartons = rebuild(slots);
+    } else {
+      cartons = rebuild(freeSlots);
+    }
+  }
+
+  const lines: OptimizedLine[] = candidates.map((c, index) => ({
+    productId: c.product.id,
+    name: c.product.name,
+    cartons: cartons[index],
+    quantity: cartons[index] * c.product.unitsPerCarton,
+  }));
+
+  const proposedInputs = applyProposal(inputs, lines);
+  const { results, summary } = calculateOrder(proposedInputs);
+  const totalRevenueILS = results.reduce((sum, r) => sum + r.priceILS * r.totalUnits, 0);
+
+  return { lines, summary, totalRevenueILS, feasible, message };
+};
+
+// Apply a proposal to the order: proposed products get their quantity, the volume shares follow
+export const applyProposal = (inputs: UserInputs, lines: OptimizedLine[]): UserInputs => {
+  const products = inputs.products.map(product => {
+    const line = lines.find(l => l.productId === product.id);
+    return line ? { ...product, quantity: line.quantity } : product;
+  });
+  return { ...inputs, products: quantitiesToMixPercents(products, inputs) };
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { PriceListInputs, getSalesPrice, splitProducts, mergeProducts, splitOrderInputs, mergeOrderInputs, hideSupplierPrices } from './costVisibility';
+import { migrateEmbeddedProducts } from './orderLines';
+import { DEFAULT_EXCHANGE_RATES } from './constants';
+import { OrderInputs, Product } from './types';
+
+// A product bought in yuan with a price break at 1,000 units: 32 CNY = $4.40 at 3.2 / 0.44
+const cnyProduct: Product = {
+  id: 'small', name: 'Small', dimensions: '', description: '', masterCartonCBM: 0.059, unitsPerCarton: 4,
+  factoryPriceUSD: 32, purchaseCurrency: 'CNY', factoryPriceTiers: [{ minQuantity: 1000, price: 30 }],
+  profitMargin: 40, active: true,
+};
+
+// Prices in ILS with 5% unknown expenses: the list prices start from a landing cost of $4.62
+const priceList: PriceListInputs = {
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  saleCurrency: 'ILS',
+  unknownExpensesType: 'percent',
+  unknownExpensesValue: 5,
+  salesMarginRange: { min: 30, max: 50 },
+};
+
+const orderOf = (changes: Partial<OrderInputs['lines'][number]> = {}): OrderInputs => ({
+  containerType: '40',
+  lines: [{ productId: 'small', mixPercent: 100, ...changes }],
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  saleCurrency: 'ILS',
+  shippingCostUSD: 4000,
+  shippingAllocation: 'perUnit',
+  unknownExpensesType: 'percent',
+  unknownExpensesValue: 5,
+  costLines: [],
+});
+
+describe('getSalesPrice', () => {
+  it('prices the product at its margin and at the ends of the team range, in the sale currency', () => {
+    const salesPrice = getSalesPrice(cnyProduct, priceList)!;
+    expect(salesPrice.currency).toBe('ILS');
+    expect(salesPrice.price).toBeCloseTo(4.62 / 0.6 * 3.2, 9);
+    expect(salesPrice.minPrice).toBeCloseTo(4.62 / 0.7 * 3.2, 9);
+    expect(salesPrice.maxPrice).toBeCloseTo(4.62 / 0.5 * 3.2, 9);
+  });
+
+  it('leaves fixed-price products out of the price list', () => {
+    expect(getSalesPrice({ ...cnyProduct, pricing: { strategy: 'fixedPrice', price: 30 } }, priceList)).toBeUndefined();
+  });
+});
+
+describe('splitProducts', () => {
+  it('keeps the supplier price, its price breaks and the margin out of the team-readable product', () => {
+    const { products, prices } = splitProducts([cnyProduct], priceList);
+    expect(products[0]).not.toHaveProperty('factoryPriceUSD');
+    expect(products[0]).not.toHaveProperty('purchaseCurrency');
+    expect(products[0]).not.toHaveProperty('factoryPriceTiers');
+    expect(products[0]).not.toHaveProperty('profitMargin');
+    expect(prices.small).toEqual({ factoryPriceUSD: 32, purchaseCurrency: 'CNY', factoryPriceTiers: [{ minQuantity: 1000, price: 30 }], profitMargin: 40 });
+  });
+
+  it('merges back to the product for admins and to the list price without a cost for everyone else', () => {
+    const { products, prices } = splitProducts([cnyProduct], priceList);
+    expect(mergeProducts(products, prices)).toEqual([{ ...cnyProduct, salesPrice: products[0].salesPrice }]);
+    const [merged] = mergeProducts(products);
+    expect(merged.factoryPriceUSD).toBe(0);
+    expect(merged.factoryPriceTiers).toBeUndefined();
+    expect(merged.pricing).toEqual({ strategy: 'fixedPrice', price: products[0].salesPrice!.price, priceCurrency: 'ILS' });
+  });
+});
+
+describe('splitOrderInputs', () => {
+  const split = splitProducts([cnyProduct], priceList);
+  const catalog = mergeProducts(split.products, split.prices);
+
+  // A full container reaches the 1,000 break: 30 CNY = $4.125, landing at $4.33125
+  it('gives a line with an admin margin the price it quotes, and keeps the margin private', () => {
+    const { inputs, prices } = splitOrderInputs(orderOf({ profitMarginOverride: 50 }), catalog);
+    expect(inputs.lines[0]).not.toHaveProperty('profitMarginOverride');
+    expect(inputs.lines[0].quotedPrice).toBeCloseTo(4.33125 / 0.5 * 3.2, 9);
+    expect(prices.small.profitMarginOverride).toBe(50);
+  });
+
+  it('quotes that price to readers without cost access and the margin to admins', () => {
+    const { inputs, prices } = splitOrderInputs(orderOf({ profitMarginOverride: 50 }), catalog);
+    expect(mergeOrderInputs(inputs).lines[0].salePriceOverride).toBeCloseTo(4.33125 / 0.5 * 3.2, 9);
+    expect(mergeOrderInputs(inputs, prices).lines[0]).toMatchObject({ profitMarginOverride: 50, salePriceOverride: undefined });
+  });
+});
+
+describe('orders that embed their products', () => {
+  // Saved before the catalog split: the order carries the product with its supplier price and margin
+  const legacyOrder = (): OrderInputs => ({ ...orderOf(), lines: migrateEmbeddedProducts([{ ...cnyProduct, mixPercent: 100 }]) });
+
+  it('hides the supplier price and margin from readers without cost access, at the price the order gave', () => {
+    const { lines: [line] } = hideSupplierPrices(legacyOrder());
+    expect(line.factoryPriceOverride).toBeUndefined();
+    expect(line.profitMarginOverride).toBeUndefined();
+    expect(line.snapshot).toMatchObject({ factoryPriceUSD: 0, profitMargin: 0 });
+    expect(line.snapshot).not.toHaveProperty('factoryPriceTiers');
+    // The order's own factory price replaces the price breaks: $4.40, landing at $4.62
+    expect(line.salePriceOverride).toBeCloseTo(4.62 / 0.6 * 3.2, 9);
+  });
+
+  it('moves them to the private document when an admin saves the order', () => {
+    const { inputs, prices } = splitOrderInputs(legacyOrder(), []);
+    expect(inputs.lines[0]).not.toHaveProperty('factoryPriceOverride');
+    expect(inputs.lines[0].snapshot).not.toHaveProperty('factoryPriceUSD');
+    expect(prices.small).toMatchObject({ factoryPriceOverride: 32, profitMarginOverride: 40, snapshot: { factoryPriceUSD: 32, profitMargin: 40 } });
+  });
+});
@@ -0,0 +1,186 @@
+import { CalculationResult, CurrencyCode, FactoryPriceTier, MarginRange, OrderInputs, OrderLine, PricingRule, Product, SalesPrice, UserInputs } from './types';
+import { convertCurrency } from './currency';
+import { calculateResults, getFactoryPriceUSD } from './pricingEngine';
+import { getStrategyPriceUSD } from './pricingStrategy';
+import { resolveOrderInputs } from './orderLines';
+
+// Supplier prices, price breaks, margins and markups are admin-only - any of them next to a sell
+// price gives the unit cost away. The catalog and order documents every team member reads carry
+// sell prices instead: a price list worked out when an admin saves the catalog, and the prices of
+// order lines an admin priced with their own factory price or margin. The admin-only part is kept
+// in documents next to them. Sales and viewers quote from the sell prices, admins merge the rest back.
+
+// The admin-only part of a catalog product
+export interface SupplierPrice {
+  factoryPriceUSD: number; // In the purchase currency
+  purchaseCurrency?: CurrencyCode;
+  factoryPriceTiers?: FactoryPriceTier[]; // In the purchase currency
+  profitMargin: number;
+  pricing?: PricingRule;
+}
+
+// A catalog product as stored in team-readable documents - pricing only when it is a sell price
+export interface PublicProduct extends Omit<Product, 'factoryPriceUSD' | 'purchaseCurrency' | 'factoryPriceTiers' | 'profitMargin'> {}
+
+// An order line as stored in team-readable documents
+export interface PublicOrderLine extends Omit<OrderLine, 'factoryPriceOverride' | 'profitMarginOverride' | 'snapshot'> {
+  quotedPrice?: number; // Sale price of a line an admin priced with their own factory price or margin, like salePriceOverride
+  snapshot?: PublicProduct;
+}
+
+export interface PublicOrderInputs extends Omit<OrderInputs, 'lines'> {
+  lines: PublicOrderLine[];
+}
+
+// The admin-only part of an order line, keyed by product id in the order's private document
+export interface LineSupplierPrices {
+  factoryPriceOverride?: number;
+  profitMarginOverride?: number;
+  snapshot?: SupplierPrice;
+}
+
+// What the price list is worked out from: the admin's rates, sale currency and unknown expenses, and
+// the margins the team's sales reps may quote with
+export interface PriceListInputs extends Pick<UserInputs, 'exchangeRates' | 'saleCurrency' | 'unknownExpensesType' | 'unknownExpensesValue'> {
+  salesMarginRange: MarginRange;
+}
+
+// Documents written before the split carried the supplier prices themselves
+type StoredProduct = PublicProduct & Partial<SupplierPrice>;
+type StoredOrderLine = PublicOrderLine & Pick<OrderLine, 'factoryPriceOverride' | 'profitMarginOverride'>;
+
+const isSellPriceRule = (rule?: PricingRule): boolean => rule?.strategy === 'fixedPrice' || rule?.strategy === 'targetPrice';
+
+// Price list entry of a margin or markup priced product: the price at the base price break, with the
+// unknown expenses as a percentage surcharge (a fixed amount depends on the order). Fixed and target
+// prices are sell prices already and need no entry.
+export const getSalesPrice = (product: Product, priceList: PriceListInputs): SalesPrice | undefined => {
+  if (isSellPriceRule(product.pricing)) {
+    return undefined;
+  }
+  const { exchangeRates, saleCurrency, salesMarginRange } = priceList;
+  const surchargeMultiplier = priceList.unknownExpensesType === 'percent' ? 1 + priceList.unknownExpensesValue / 100 : 1;
+  const landingCostUSD = getFactoryPriceUSD(product, priceList) * surchargeMultiplier;
+  const toSale = (priceUSD: number) => convertCurrency(priceUSD, 'USD', saleCurrency, exchangeRates);
+  const atMargin = (profitMargin: number) => toSale(getStrategyPriceUSD({ profitMargin }, landingCostUSD, 0, priceList));
+  return {
+    price: toSale(getStrategyPriceUSD(product, landingCostUSD, 0, priceList)),
+    minPrice: atMargin(salesMarginRange.min),
+    maxPrice: atMargin(salesMarginRange.max),
+    currency: saleCurrency,
+  };
+};
+
+// Without a price list the product keeps the sales price it was saved with (e.g. order snapshots)
+const splitProduct = (product: Product, priceList?: PriceListInputs): PublicProduct => {
+  const { factoryPriceUSD, purchaseCurrency, factoryPriceTiers, profitMargin, pricing, ...rest } = product;
+  return {
+    ...rest,
+    pricing: isSellPriceRule(pricing) ? pricing : undefined,
+    salesPrice: priceList ? getSalesPrice(product, priceList) : product.salesPrice,
+  };
+};
+
+const toSupplierPrice = ({ factoryPriceUSD, purchaseCurrency, factoryPriceTiers, profitMargin, pricing }: Product): SupplierPrice => ({
+  factoryPriceUSD,
+  purchaseCurrency,
+  factoryPriceTiers,
+  profitMargin,
+  pricing,
+});
+
+// Without the supplier prices a product has no cost: it is priced at its list price (or its own
+// fixed or target price)
+const mergeProduct = (stored: StoredProduct, price?: SupplierPrice): Product => {
+  if (price) {
+    return { ...stored, ...price };
+  }
+  if (stored.factoryPriceUSD !== undefined) {
+    return stored as Product;
+  }
+  const { salesPrice } = stored;
+  return {
+    ...stored,
+    factoryPriceUSD: 0,
+    profitMargin: 0,
+    pricing: stored.pricing ?? (salesPrice && { strategy: 'fixedPrice', price: salesPrice.price, priceCurrency: salesPrice.currency }),
+  };
+};
+
+// Split the catalog and work out its price list
+export const splitProducts = (products: Product[], priceList: PriceListInputs): {
+  products: PublicProduct[];
+  prices: Record<string, SupplierPrice>;
+} => ({
+  products: products.map(product => splitProduct(product, priceList)),
+  prices: Object.fromEntries(products.map(product => [product.id, toSupplierPrice(product)])),
+});
+
+// Catalog products for the reader: with the supplier prices for admins, priced from the price list otherwise
+export const mergeProducts = (products: PublicProduct[], prices?: Record<string, SupplierPrice>): Product[] => {
+  return products.map(product => mergeProduct(product, prices?.[product.id]));
+};
+
+// The price of a line an admin priced with their own factory price or margin, in the currency of the
+// product's price list entry (ILS without one) and before the customer's volume discount - as a
+// salePriceOverride would be
+const getQuotedPrice = (line: OrderLine, product: Product | undefined, results: CalculationResult[], inputs: OrderInputs): number | undefined => {
+  const hasOwnCost = line.factoryPriceOverride !== undefined || line.profitMarginOverride !== undefined;
+  const result = results.find(res => res.size.id === line.productId);
+  if (!hasOwnCost || line.salePriceOverride !== undefined || !product || !result) {
+    return undefined;
+  }
+  const discountFactor = 1 - result.customerDiscountPercent / 100;
+  return discountFactor > 0
+    ? convertCurrency(result.priceUSD / discountFactor, 'USD', product.salesPrice?.currency || 'ILS', inputs.exchangeRates)
+    : undefined;
+};
+
+// Split an order. Lines an admin priced with their own factory price or margin get the price it gives,
+// so that readers without cost access quote them as the admin did.
+export const splitOrderInputs = (inputs: OrderInputs, catalog: Product[]): {
+  inputs: PublicOrderInputs;
+  prices: Record<string, LineSupplierPrices>;
+} => {
+  const results = calculateResults(resolveOrderInputs(inputs, catalog));
+  const prices: Record<string, LineSupplierPrices> = {};
+  const lines = inputs.lines.map((line): PublicOrderLine => {
+    const { factoryPriceOverride, profitMarginOverride, snapshot, ...rest } = line;
+    if (factoryPriceOverride !== undefined || profitMarginOverride !== undefined || snapshot) {
+      prices[line.productId] = {
+        factoryPriceOverride,
+        profitMarginOverride,
+        snapshot: snapshot && toSupplierPrice(snapshot),
+      };
+    }
+    const product = catalog.find(p => p.id === line.productId) || snapshot;
+    return {
+      ...rest,
+      quotedPrice: getQuotedPrice(line, product, results, inputs),
+      snapshot: snapshot && splitProduct(snapshot),
+    };
+  });
+  return { inputs: { ...inputs, lines }, prices };
+};
+
+// Order inputs as a reader without cost access gets them, for orders whose stored document still
+// carries the supplier prices (orders saved before the catalog split). Lines are priced with the
+// definitions they carry.
+export const hideSupplierPrices = (inputs: OrderInputs): OrderInputs => mergeOrderInputs(splitOrderInputs(inputs, []).inputs);
+
+// Order inputs for the reader, like mergeProducts. Lines saved before the split keep the
+// overrides they carry themselves.
+export const mergeOrderInputs = (inputs: PublicOrderInputs, prices?: Record<string, LineSupplierPrices>): OrderInputs => {
+  const lines = inputs.lines.map((stored): OrderLine => {
+    const { quotedPrice, snapshot, ...line } = stored as StoredOrderLine;
+    const price = prices?.[line.productId];
+    return {
+      ...line,
+      factoryPriceOverride: price?.factoryPriceOverride ?? line.factoryPriceOverride,
+      profitMarginOverride: price?.profitMarginOverride ?? line.profitMarginOverride,
+      salePriceOverride: line.salePriceOverride ?? (prices ? undefined : quotedPrice),
+      snapshot: snapshot && mergeProduct(snapshot, price?.snapshot),
+    };
+  });
+  return { ...inputs, lines };
+};
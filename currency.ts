@@ -0,0 +1,19 @@
+import { CURRENCIES } from './constants';
+import { CurrencyCode, ExchangeRateTable } from './types';
+
+// Convert an amount between two currencies through the order's rate table (rates are ILS per unit)
+export const convertCurrency = (amount: number, from: CurrencyCode, to: CurrencyCode, rates: ExchangeRateTable): number => {
+  if (from === to) return amount;
+  const fromRate = from === 'ILS' ? 1 : rates[from];
+  const toRate = to === 'ILS' ? 1 : rates[to];
+  return toRate > 0 ? (amount * fromRate) / toRate : 0;
+};
+
+export const getCurrencySymbol = (currency: CurrencyCode): string => {
+  return CURRENCIES.find(c => c.code === currency)?.symbol || currency;
+};
+
+// Format a money amount with its currency symbol (e.g. "₪1,234.50")
+export const formatCurrency = (amount: number, currency: CurrencyCode, fractionDigits = 2): string => {
+  return `${getCurrencySymbol(currency)}${amount.toLocaleString(undefined, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits })}`;
+};
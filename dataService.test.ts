@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMemoryRepository } from './memoryRepository';
+import { DataRepository } from './repository';
+import {
+  DataSession,
+  getConflictingWrites,
+  resolveConflict,
+  saveOrder,
+  setDataSession,
+  setRepository,
+  startSync,
+  syncPendingWrites,
+  updateOrder,
+} from './dataService';
+import { getSyncState, updateSyncState } from './syncStatus';
+import { defaultCatalog, defaultOrder } from './testFixtures';
+
+// Offline work against a remote repository: the in-memory one standing in for Firestore, with the
+// device's IndexedDB store kept in maps
+
+const device = vi.hoisted(() => ({ cache: new Map<string, unknown>(), pending: new Map<string, { id: string }>() }));
+
+vi.mock('./localStore', () => ({
+  readCache: async (key: string) => structuredClone(device.cache.get(key)),
+  writeCache: async (key: string, value: unknown) => {
+    device.cache.set(key, structuredClone(value));
+  },
+  getPendingWrites: async () => [...device.pending.values()].map(write => structuredClone(write)),
+  putPendingWrite: async (write: { id: string }) => {
+    device.pending.set(write.id, structuredClone(write));
+  },
+  deletePendingWrite: async (id: string) => {
+    device.pending.delete(id);
+  },
+}));
+
+const admin: DataSession = { uid: 'admin', teamId: 'team', role: 'admin' };
+
+let server: DataRepository;
+
+const setOnline = (onLine: boolean) => vi.stubGlobal('navigator', { onLine });
+
+const serverOrder = async (orderId: string) => (await server.listOrders(admin)).find(order => order.id === orderId);
+
+beforeEach(() => {
+  device.cache.clear();
+  device.pending.clear();
+  server = { ...createMemoryRepository(), remote: true };
+  setRepository(server);
+  setDataSession(admin);
+  setOnline(true);
+  updateSyncState({ pending: 0, conflicts: 0, error: null, lastSyncedAt: null });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('offline writes', () => {
+  it('queues orders saved offline and sends them when the connection returns', async () => {
+    setOnline(false);
+    const orderId = await saveOrder('הזמנה', defaultOrder(), defaultCatalog());
+    await updateOrder(orderId, 'הזמנה מעודכנת', { ...defaultOrder(), shippingCostUSD: 4500 }, defaultCatalog());
+    expect(getSyncState().pending).toBe(1);
+    expect(await server.listOrders(admin)).toEqual([]);
+
+    setOnline(true);
+    await syncPendingWrites();
+    expect(await serverOrder(orderId)).toMatchObject({ name: 'הזמנה מעודכנת', inputs: { shippingCostUSD: 4500 } });
+    expect(getSyncState()).toMatchObject({ pending: 0, conflicts: 0, error: null });
+    expect(device.pending.size).toBe(0);
+  });
+
+  it('keeps an edit as a conflict when the order changed on the server since', async () => {
+    const orderId = await saveOrder('הזמנה', defaultOrder(), defaultCatalog());
+    setOnline(false);
+    await updateOrder(orderId, 'מהמכשיר', defaultOrder(), defaultCatalog());
+    await server.updateOrder(admin, orderId, 'ממכשיר אחר', defaultOrder(), defaultCatalog());
+
+    setOnline(true);
+    await syncPendingWrites();
+    expect(getSyncState()).toMatchObject({ pending: 0, conflicts: 1 });
+    expect((await serverOrder(orderId))!.name).toBe('ממכשיר אחר');
+
+    const [conflict] = await getConflictingWrites();
+    await resolveConflict(conflict, 'local');
+    expect((await serverOrder(orderId))!.name).toBe('מהמכשיר');
+    expect(getSyncState().conflicts).toBe(0);
+  });
+
+  it('checks offline edits against the server time, whatever the device clock says', async () => {
+    const orderId = await saveOrder('הזמנה', defaultOrder(), defaultCatalog());
+    setOnline(false);
+    const dayAhead = Date.now() + 24 * 60 * 60 * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(dayAhead);
+    await updateOrder(orderId, 'מהמכשיר', defaultOrder(), defaultCatalog());
+    vi.mocked(Date.now).mockRestore();
+    await server.updateOrder(admin, orderId, 'ממכשיר אחר', defaultOrder(), defaultCatalog());
+    setOnline(true);
+    await syncPendingWrites();
+
+    // A second edit while the first waits as a conflict is based on the same server version
+    setOnline(false);
+    await updateOrder(orderId, 'שוב מהמכשיר', defaultOrder(), defaultCatalog());
+    setOnline(true);
+    await syncPendingWrites();
+    expect(getSyncState().conflicts).toBe(2);
+    expect((await serverOrder(orderId))!.name).toBe('ממכשיר אחר');
+  });
+});
+
+describe('startSync', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+  });
+
+  it('sends the queue when the connection returns', async () => {
+    setOnline(false);
+    const orderId = await saveOrder('הזמנה', defaultOrder(), defaultCatalog());
+    const stop = startSync();
+    setOnline(true);
+    window.dispatchEvent(new Event('online'));
+    await vi.waitFor(async () => expect(await serverOrder(orderId)).toBeDefined());
+    expect(getSyncState().online).toBe(true);
+    stop();
+  });
+
+  it('reports a sync that fails in the sync state', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setDataSession(null);
+    const stop = startSync();
+    await vi.waitFor(() => expect(getSyncState().error).toContain('שגיאה בסנכרון'));
+    stop();
+  });
+});
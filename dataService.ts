@@ -0,0 +1,566 @@
+import { OrderInputs, Product, QuoteTemplate, RateRecord, RolePermissions } from './types';
+import { DEFAULT_QUOTE_TEMPLATE, DEFAULT_SALES_MARGIN_RANGE, ROLE_PERMISSIONS } from './constants';
+import {
+  CatalogVersion,
+  DataRepository,
+  DataSession,
+  OrderRevision,
+  SavedOrder,
+  StoredCatalog,
+  getStorageBackend,
+} from './repository';
+import { createFirestoreRepository } from './firestoreRepository';
+import { getSalePricesOutOfRange, lockSalePrices, pinCatalogPrices } from './orderLines';
+import { PriceListInputs } from './costVisibility';
+import { createMemoryRepository, localStoragePersistence } from './memoryRepository';
+import { readCache, writeCache, getPendingWrites, putPendingWrite, deletePendingWrite } from './localStore';
+import { getSyncState, updateSyncState } from './syncStatus';
+
+export type { SavedOrder, OrderRevision, CatalogVersion, DataSession } from './repository';
+
+// The app's data access: permission checks and price rules on top of the storage repository the
+// env config selects. For a remote repository the data last read is also cached on the device and
+// writes made while offline are queued and sent when the connection returns.
+
+// A write made while offline, kept on the device and sent when the connection returns
+export type PendingWrite = {
+  id: string; // Sorts by the time the write was queued
+  uid: string;
+  teamId: string;
+  queuedAt: number;
+  conflict?: boolean; // The data changed on the server since - waits for the user to choose a version
+} & (
+  | { kind: 'saveOrder'; orderId: string; name: string; inputs: OrderInputs; catalog: Product[] }
+  | { kind: 'updateOrder'; orderId: string; name: string; inputs: OrderInputs; catalog: Product[]; baseUpdatedAt: number | null }
+  | { kind: 'saveProducts'; products: Product[]; priceList: PriceListInputs; note?: string; baseVersion: number }
+);
+
+type PendingWriteData = PendingWrite extends infer W ? W extends PendingWrite ? Omit<W, 'id' | 'uid' | 'teamId' | 'queuedAt'> : never : never;
+
+let repository: DataRepository | null = null;
+
+const getRepository = (): DataRepository => {
+  if (!repository) {
+    const backend = getStorageBackend();
+    repository = backend === 'firestore'
+      ? createFirestoreRepository()
+      : createMemoryRepository(backend === 'local' ? localStoragePersistence : undefined);
+  }
+  return repository;
+};
+
+// Replace the repository the env config selected, e.g. with createMemoryRepository() in tests
+export const setRepository = (next: DataRepository): void => {
+  repository = next;
+};
+
+// Whether data is shared over the network (and so can be offline or out of sync)
+export const isRemoteStorage = (): boolean => getRepository().remote;
+
+let session: DataSession | null = null;
+
+export const setDataSession = (next: DataSession | null): void => {
+  session = next;
+};
+
+const requireSession = (): DataSession => {
+  if (!session) {
+    throw new Error('יש להתחבר כדי לגשת לנתונים');
+  }
+  return session;
+};
+
+// The security rules enforce the same permissions - this check only gives a clear error first
+const requirePermission = (permission: keyof RolePermissions): DataSession => {
+  const current = requireSession();
+  if (!ROLE_PERMISSIONS[current.role][permission]) {
+    throw new Error('אין לך הרשאה לפעולה זו');
+  }
+  return current;
+};
+
+const isOnline = (): boolean => !getRepository().remote || typeof navigator === 'undefined' || navigator.onLine;
+
+// Actions that need the server (history, deletes, rates) are not queued
+const requireOnline = (): void => {
+  if (!isOnline()) {
+    throw new Error('אין חיבור לרשת - פעולה זו זמינה רק במצב מקוון');
+  }
+};
+
+// Cached data is kept per user and team, so a shared device never shows one user another's prices
+const cacheKey = (name: string): string => {
+  const { uid, teamId } = requireSession();
+  return `${uid}/${teamId}/${name}`;
+};
+
+// Read from the repository and cache the result when it is remote. Offline, or when the server
+// cannot be reached, the cached copy is used.
+const readThrough = async <T>(name: string, fetch: () => Promise<T>): Promise<T> => {
+  if (!getRepository().remote) {
+    return fetch();
+  }
+  const key = cacheKey(name);
+  const fromCache = async (error: unknown) => {
+    const cached = await readCache<T>(key);
+    if (cached === undefined) {
+      throw error;
+    }
+    return cached;
+  };
+  if (!isOnline()) {
+    return fromCache(new Error('אין חיבור לרשת ואין נתונים שמורים במכשיר'));
+  }
+  try {
+    const value = await fetch();
+    await writeCache(key, value);
+    return value;
+  } catch (error: any) {
+    if (error?.code === 'unavailable') {
+      return fromCache(error);
+    }
+    throw error;
+  }
+};
+
+const refreshPendingCount = async (): Promise<void> => {
+  const { uid, teamId } = requireSession();
+  const writes = (await getPendingWrites<PendingWrite>()).filter(write => write.uid === uid && write.teamId === teamId);
+  updateSyncState({
+    pending: writes.filter(write => !write.conflict).length,
+    conflicts: writes.filter(write => write.conflict).length,
+  });
+};
+
+const targetOf = (write: PendingWriteData): string =>
+  write.kind === 'saveProducts' ? 'catalog' : `order/${write.orderId}`;
+
+// A later edit of a queued write: its data with the kind and base of the queued one, so an order
+// created offline stays a new order
+const replaceQueuedWrite = (previous: PendingWrite, write: PendingWriteData): PendingWrite => {
+  const queuedAt = Date.now();
+  if (previous.kind === 'saveProducts' && write.kind === 'saveProducts') {
+    return { ...previous, products: write.products, priceList: write.priceList, note: write.note, queuedAt };
+  }
+  if (previous.kind !== 'saveProducts' && write.kind !== 'saveProducts') {
+    return { ...previous, name: write.name, inputs: write.inputs, catalog: write.catalog, queuedAt };
+  }
+  throw new Error('הכתיבה שבתור שייכת לנתונים אחרים');
+};
+
+// Queue a write. A later edit of the same order or of the catalog replaces the queued one, keeping
+// the server state the first edit was based on, so conflicts are checked against what the user last saw.
+const queueWrite = async (write: PendingWriteData): Promise<void> => {
+  const { uid, teamId } = requireSession();
+  const pending = await getPendingWrites<PendingWrite>();
+  const previous = pending.find(p => p.uid === uid && p.teamId === teamId && !p.conflict && targetOf(p) === targetOf(write));
+  if (previous) {
+    await putPendingWrite(replaceQueuedWrite(previous, write));
+  } else {
+    const queuedAt = Date.now();
+    await putPendingWrite({ ...write, id: `${queuedAt}-${Math.random().toString(36).slice(2, 8)}`, uid, teamId, queuedAt } as PendingWrite);
+  }
+  await refreshPendingCount();
+};
+
+// Put a saved or queued order in the cached orders list. For saved orders the time is the server's
+// updatedAt, which later offline edits are checked against; a queued edit keeps the one the order
+// had, so that the device clock is never compared with the server's.
+const cacheOrderLocally = async (orderId: string, name: string, inputs: OrderInputs, updatedAt?: number): Promise<void> => {
+  if (!getRepository().remote) {
+    return;
+  }
+  const key = cacheKey('orders');
+  const { uid, teamId } = requireSession();
+  const orders = (await readCache<SavedOrder[]>(key)) || [];
+  const existing = orders.find(order => order.id === orderId);
+  const createdAt = updatedAt ?? Date.now();
+  const order: SavedOrder = existing
+    ? { ...existing, name, inputs, updatedAt: updatedAt ?? existing.updatedAt }
+    : { id: orderId, name, inputs, ownerId: uid, teamId, createdAt, updatedAt: createdAt };
+  await writeCache(key, [order, ...orders.filter(o => o.id !== orderId)]);
+};
+
+const cacheCatalogLocally = async (catalog: StoredCatalog): Promise<void> => {
+  if (getRepository().remote) {
+    await writeCache(cacheKey('catalog'), catalog);
+  }
+};
+
+// Sales reps quote from the price list: every line is saved with the price it was quoted at, which
+// must lie in the range the team's margins give. Returns the inputs to save.
+const checkSalePrices = (inputs: OrderInputs, catalog: Product[]): OrderInputs => {
+  if (requireSession().role !== 'sales') return inputs;
+  const locked = lockSalePrices(inputs, catalog);
+  const outOfRange = getSalePricesOutOfRange(locked, catalog);
+  if (outOfRange.length > 0) {
+    const names = outOfRange.map(line => catalog.find(p => p.id === line.productId)?.name || line.productId);
+    throw new Error(`המחיר מחוץ לטווח המותר: ${names.join(', ')}`);
+  }
+  return locked;
+};
+
+const writeNewOrder = async (orderId: string, name: string, inputs: OrderInputs, catalog: Product[]): Promise<void> => {
+  const updatedAt = await getRepository().createOrder(requireSession(), orderId, name, inputs, catalog);
+  await cacheOrderLocally(orderId, name, inputs, updatedAt);
+};
+
+const writeOrderUpdate = async (orderId: string, name: string, inputs: OrderInputs, catalog: Product[]): Promise<void> => {
+  const updatedAt = await getRepository().updateOrder(requireSession(), orderId, name, inputs, catalog);
+  await cacheOrderLocally(orderId, name, inputs, updatedAt);
+};
+
+// Save a new order. The catalog is the one the order was priced with. Offline, the order is
+// queued on the device and sent when the connection returns.
+export const saveOrder = async (name: string, quoted: OrderInputs, catalog: Product[]): Promise<string> => {
+  try {
+    requirePermission('editOrders');
+    const inputs = checkSalePrices(quoted, catalog);
+    const orderId = getRepository().newOrderId();
+    if (!isOnline()) {
+      await queueWrite({ kind: 'saveOrder', orderId, name, inputs, catalog });
+      await cacheOrderLocally(orderId, name, inputs);
+      return orderId;
+    }
+    await writeNewOrder(orderId, name, inputs, catalog);
+    return orderId;
+  } catch (error: any) {
+    console.error('Error saving order:', error);
+    throw new Error(`שגיאה בשמירה: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Get all saved orders
+export const getAllOrders = async (): Promise<SavedOrder[]> => {
+  try {
+    const current = requireSession();
+    return await readThrough('orders', async () => {
+      // Send queued writes first, so the list includes them
+      await syncPendingWrites();
+      return getRepository().listOrders(current);
+    });
+  } catch (error) {
+    console.error('Error getting orders:', error);
+    throw error;
+  }
+};
+
+// Update an existing order
+export const updateOrder = async (orderId: string, name: string, quoted: OrderInputs, catalog: Product[]): Promise<void> => {
+  try {
+    requirePermission('editOrders');
+    const inputs = checkSalePrices(quoted, catalog);
+    if (!isOnline()) {
+      const cached = (await readCache<SavedOrder[]>(cacheKey('orders')))?.find(order => order.id === orderId);
+      await queueWrite({ kind: 'updateOrder', orderId, name, inputs, catalog, baseUpdatedAt: cached?.updatedAt ?? null });
+      await cacheOrderLocally(orderId, name, inputs);
+      return;
+    }
+    await writeOrderUpdate(orderId, name, inputs, catalog);
+  } catch (error) {
+    console.error('Error updating order:', error);
+    throw error;
+  }
+};
+
+// Get the revision history of an order, newest first (admins only)
+export const getOrderRevisions = async (orderId: string): Promise<OrderRevision[]> => {
+  try {
+    const current = requirePermission('viewCosts');
+    requireOnline();
+    return await getRepository().listRevisions(current, orderId);
+  } catch (error) {
+    console.error('Error getting order revisions:', error);
+    throw error;
+  }
+};
+
+// Restore an older revision. The restore is itself recorded as a new revision, so history is never rewritten.
+// Where the catalog changed since, the lines keep the prices and margins the revision was priced with.
+// Returns the inputs as restored.
+export const restoreOrderRevision = async (orderId: string, revision: OrderRevision, catalog: Product[]): Promise<OrderInputs> => {
+  try {
+    const current = requirePermission('viewCosts');
+    requireOnline();
+    const inputs = revision.catalog ? pinCatalogPrices(revision.inputs, revision.catalog, catalog) : revision.inputs;
+    const updatedAt = await getRepository().updateOrder(current, orderId, revision.name, inputs, catalog, revision.id);
+    await cacheOrderLocally(orderId, revision.name, inputs, updatedAt);
+    return inputs;
+  } catch (error: any) {
+    console.error('Error restoring order revision:', error);
+    throw new Error(`שגיאה בשחזור הגרסה: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Delete an order together with its revision history and supplier prices (admins only - the
+// revisions and prices are only readable by them)
+export const deleteOrder = async (orderId: string): Promise<void> => {
+  try {
+    const current = requirePermission('viewCosts');
+    requireOnline();
+    await getRepository().deleteOrder(current, orderId);
+  } catch (error) {
+    console.error('Error deleting order:', error);
+    throw error;
+  }
+};
+
+// Replace the current catalog and record the save as a new version. Returns the new version number.
+const writeCatalog = async (products: Product[], priceList: PriceListInputs, note?: string): Promise<number> => {
+  const version = await getRepository().saveCatalog(requireSession(), products, priceList, note);
+  await cacheCatalogLocally({ products, version });
+  return version;
+};
+
+// The settings the price list is worked out from: the order's rates, sale currency and unknown
+// expenses, and the team's margin range
+export type PriceListSettings = Omit<PriceListInputs, 'salesMarginRange'>;
+
+// Save the product catalog (admins only), with the price list sales reps and viewers quote from.
+// Offline, the catalog is queued on the device and the version it will get is returned. Returns the
+// new version number.
+export const saveProducts = async (products: Product[], settings: PriceListSettings, note?: string): Promise<number> => {
+  try {
+    const current = requirePermission('editCatalog');
+    const priceList: PriceListInputs = {
+      exchangeRates: settings.exchangeRates,
+      saleCurrency: settings.saleCurrency,
+      unknownExpensesType: settings.unknownExpensesType,
+      unknownExpensesValue: settings.unknownExpensesValue,
+      salesMarginRange: current.salesMarginRange ?? DEFAULT_SALES_MARGIN_RANGE,
+    };
+    if (!isOnline()) {
+      const key = cacheKey('catalog');
+      const baseVersion = (await readCache<StoredCatalog>(key))?.version || 0;
+      await queueWrite({ kind: 'saveProducts', products, priceList, note, baseVersion });
+      // The cache keeps the server version, which the next queued save is based on
+      await writeCache(key, { products, version: baseVersion });
+      return baseVersion + 1;
+    }
+    return await writeCatalog(products, priceList, note);
+  } catch (error: any) {
+    console.error('Error saving products:', error);
+    throw new Error(`שגיאה בשמירת המוצרים: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Get the current product catalog - with supplier prices for admins, priced from the price list for
+// everyone else. Offline, the catalog last read on this device is returned.
+export const getSavedProducts = async (): Promise<Product[]> => {
+  try {
+    const current = requireSession();
+    const catalog = await readThrough('catalog', async () => {
+      await syncPendingWrites();
+      return getRepository().getCatalog(current);
+    });
+    return catalog.products;
+  } catch (error) {
+    console.error('Error getting products:', error);
+    throw error;
+  }
+};
+
+// List the catalog versions, newest first (admins only - versions keep the supplier prices)
+export const getCatalogVersions = async (): Promise<CatalogVersion[]> => {
+  try {
+    requireOnline();
+    return await getRepository().listCatalogVersions(requirePermission('editCatalog'));
+  } catch (error) {
+    console.error('Error getting catalog versions:', error);
+    throw error;
+  }
+};
+
+// Roll the catalog back to an older version. The rollback is saved as a new version, so no version is lost.
+export const rollbackCatalog = async (version: CatalogVersion, settings: PriceListSettings): Promise<number> => {
+  requireOnline();
+  return saveProducts(version.products, settings, `שחזור גרסה ${version.version}`);
+};
+
+// Delete all but the newest `keep` catalog versions. Returns the number of deleted versions.
+export const pruneCatalogVersions = async (keep: number): Promise<number> => {
+  try {
+    const current = requirePermission('editCatalog');
+    requireOnline();
+    return await getRepository().pruneCatalogVersions(current, keep);
+  } catch (error: any) {
+    console.error('Error pruning catalog versions:', error);
+    throw new Error(`שגיאה בניקוי גרסאות הקטלוג: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Save exchange-rate records to the rate history (one record per date, rates merged into it)
+export const saveRateRecords = async (records: RateRecord[]): Promise<void> => {
+  try {
+    const current = requirePermission('editCosts');
+    requireOnline();
+    await getRepository().saveRateRecords(current, records);
+  } catch (error: any) {
+    console.error('Error saving exchange rates:', error);
+    throw new Error(`שגיאה בשמירת שערי המטבע: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Get the exchange-rate history, newest date first
+export const getRateHistory = async (): Promise<RateRecord[]> => {
+  try {
+    const current = requireSession();
+    return await readThrough('rateHistory', () => getRepository().getRateHistory(current));
+  } catch (error) {
+    console.error('Error getting exchange rates:', error);
+    throw error;
+  }
+};
+
+// Get the team's quotation template, with defaults for what was never set
+export const getQuoteTemplate = async (): Promise<QuoteTemplate> => {
+  try {
+    const current = requireSession();
+    const template = await readThrough('quoteTemplate', () => getRepository().getQuoteTemplate(current));
+    return { ...DEFAULT_QUOTE_TEMPLATE, ...template };
+  } catch (error) {
+    console.error('Error getting quote template:', error);
+    throw error;
+  }
+};
+
+// Save the quotation template used for every quote of the team (admins only)
+export const saveQuoteTemplate = async (template: QuoteTemplate): Promise<void> => {
+  try {
+    const current = requirePermission('manageTeam');
+    requireOnline();
+    await getRepository().saveQuoteTemplate(current, template);
+    if (getRepository().remote) {
+      await writeCache(cacheKey('quoteTemplate'), template);
+    }
+  } catch (error: any) {
+    console.error('Error saving quote template:', error);
+    throw new Error(`שגיאה בשמירת תבנית הצעת המחיר: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Issue the next quote number of the year, e.g. Q-2026-0042. Numbers come from a shared counter,
+// so they need a connection.
+export const allocateQuoteNumber = async (prefix: string): Promise<string> => {
+  try {
+    const current = requirePermission('editOrders');
+    requireOnline();
+    const year = new Date().getFullYear();
+    const sequence = await getRepository().nextQuoteSequence(current, year);
+    return `${prefix ? `${prefix}-` : ''}${year}-${String(sequence).padStart(4, '0')}`;
+  } catch (error: any) {
+    console.error('Error allocating quote number:', error);
+    throw new Error(`שגיאה בהקצאת מספר הצעה: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Whether the server changed what a queued write was based on
+const hasConflict = async (write: PendingWrite): Promise<boolean> => {
+  const current = requireSession();
+  if (write.kind === 'updateOrder') {
+    const updatedAt = await getRepository().getOrderUpdatedAt(current, write.orderId);
+    if (updatedAt === null) {
+      return true;
+    }
+    return write.baseUpdatedAt !== null && updatedAt > write.baseUpdatedAt;
+  }
+  if (write.kind === 'saveProducts') {
+    return (await getRepository().getCatalogVersion(current)) !== write.baseVersion;
+  }
+  return false;
+};
+
+const applyPendingWrite = async (write: PendingWrite): Promise<void> => {
+  if (write.kind === 'saveOrder') {
+    await writeNewOrder(write.orderId, write.name, write.inputs, write.catalog);
+  } else if (write.kind === 'updateOrder') {
+    if ((await getRepository().getOrderUpdatedAt(requireSession(), write.orderId)) !== null) {
+      await writeOrderUpdate(write.orderId, write.name, write.inputs, write.catalog);
+    } else {
+      // Deleted on the server meanwhile - keeping the local version brings it back
+      await writeNewOrder(write.orderId, write.name, write.inputs, write.catalog);
+    }
+  } else {
+    await writeCatalog(write.products, write.priceList, write.note);
+  }
+};
+
+// Send the writes queued on this device for the current user and team, oldest first. A write whose
+// data changed on the server since it was queued is kept as a conflict for the user to resolve.
+export const syncPendingWrites = async (): Promise<void> => {
+  if (!session || !getRepository().remote || !isOnline() || getSyncState().syncing) {
+    return;
+  }
+  const { uid, teamId } = session;
+  try {
+    updateSyncState({ syncing: true, error: null });
+    const writes = (await getPendingWrites<PendingWrite>())
+      .filter(write => write.uid === uid && write.teamId === teamId && !write.conflict)
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+    for (const write of writes) {
+      if (await hasConflict(write)) {
+        await putPendingWrite({ ...write, conflict: true });
+        continue;
+      }
+      await applyPendingWrite(write);
+      await deletePendingWrite(write.id);
+    }
+    updateSyncState({ lastSyncedAt: Date.now() });
+  } catch (error: any) {
+    console.error('Error syncing pending writes:', error);
+    updateSyncState({ error: `שגיאה בסנכרון: ${error?.message || 'שגיאה לא ידועה'}` });
+  } finally {
+    updateSyncState({ syncing: false });
+    await refreshPendingCount();
+  }
+};
+
+// Queued writes that conflict with the server, for the user to resolve
+export const getConflictingWrites = async (): Promise<PendingWrite[]> => {
+  const { uid, teamId } = requireSession();
+  return (await getPendingWrites<PendingWrite>()).filter(write => write.uid === uid && write.teamId === teamId && write.conflict);
+};
+
+// Resolve a conflict by sending the local version over the server's, or by dropping it
+export const resolveConflict = async (write: PendingWrite, keep: 'local' | 'server'): Promise<void> => {
+  try {
+    if (keep === 'local') {
+      requireOnline();
+      await applyPendingWrite(write);
+    }
+    await deletePendingWrite(write.id);
+    await refreshPendingCount();
+  } catch (error: any) {
+    console.error('Error resolving sync conflict:', error);
+    throw new Error(`שגיאה בפתרון ההתנגשות: ${error?.message || 'שגיאה לא ידועה'}`);
+  }
+};
+
+// Count and send the queued writes without waiting for them; a failure shows in the sync state
+const syncInBackground = (): void => {
+  refreshPendingCount().then(syncPendingWrites).catch((error: any) => {
+    console.error('Error syncing pending writes:', error);
+    updateSyncState({ error: `שגיאה בסנכרון: ${error?.message || 'שגיאה לא ידועה'}` });
+  });
+};
+
+// Follow the connection for the signed-in session: queued writes are sent whenever it returns.
+// Returns a function that stops following it. Data stored on the device needs no syncing.
+export const startSync = (): (() => void) => {
+  if (!getRepository().remote) {
+    return () => {};
+  }
+  const handleOnline = () => {
+    updateSyncState({ online: true });
+    syncInBackground();
+  };
+  const handleOffline = () => updateSyncState({ online: false });
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  updateSyncState({ online: isOnline() });
+  syncInBackground();
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
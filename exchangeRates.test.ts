@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRateSensitivity, createHistoryRateProvider, importRatesCSV, parseRatesCSV, saveRates } from './exchangeRates';
+import { setDataSession, setRepository } from './dataService';
+import { createMemoryRepository } from './memoryRepository';
+import { defaultInputs } from './testFixtures';
+
+describe('calculateRateSensitivity', () => {
+  it('holds the quoted shekel prices and moves only the costs', () => {
+    const rows = calculateRateSensitivity(defaultInputs(), 10, 1);
+    expect(rows.map(row => row.changePercent)).toEqual([-10, 0, 10]);
+    // 109,983.104 ₪ of sales on 65,989.8624 ₪ of landing costs
+    const [down, base, up] = rows;
+    expect(base.totalProfitILS).toBeCloseTo(43993.2416, 4);
+    expect(up.rates.USD).toBeCloseTo(3.52, 9);
+    expect(up.profitDeltaILS).toBeCloseTo(-6598.98624, 4);
+    expect(down.profitDeltaILS).toBeCloseTo(6598.98624, 4);
+  });
+
+  it('keeps the profit in dollars when the customer pays in dollars', () => {
+    const [, base, up] = calculateRateSensitivity(defaultInputs({ saleCurrency: 'USD' }), 10, 1);
+    // Prices and costs are both in dollars - the shekel profit grows with the rate
+    expect(up.totalProfitILS).toBeCloseTo(base.totalProfitILS * 1.1, 4);
+  });
+});
+
+describe('parseRatesCSV', () => {
+  it('reads a rate per date and currency', () => {
+    const { records, errors } = parseRatesCSV('date,USD,EUR\n2026-01-05,3.71,4.02\n');
+    expect(errors).toEqual([]);
+    expect(records).toEqual([{ date: '2026-01-05', rates: { USD: 3.71, EUR: 4.02 }, source: 'csv' }]);
+  });
+});
+
+describe('createHistoryRateProvider', () => {
+  it('reads the history again after rates are saved or imported', async () => {
+    setRepository(createMemoryRepository());
+    setDataSession({ uid: 'admin', teamId: 'team', role: 'admin' });
+    const provider = createHistoryRateProvider();
+    await saveRates([{ date: '2026-01-05', rates: { USD: 3.71 }, source: 'manual' }]);
+    expect((await provider.getLatestRates())?.date).toBe('2026-01-05');
+
+    await importRatesCSV('date,USD\n2026-02-02,3.65\n');
+    expect((await provider.getLatestRates())?.rates).toEqual({ USD: 3.65 });
+    await saveRates([{ date: '2026-01-20', rates: { USD: 3.68 }, source: 'manual' }]);
+    expect((await provider.getRatesForDate('2026-01-31'))?.rates).toEqual({ USD: 3.68 });
+  });
+});
@@ -0,0 +1,173 @@
+import { CURRENCIES } from './constants';
+import { CurrencyCode, ExchangeRateTable, RateRecord, UserInputs } from './types';
+import { calculateResults } from './pricingEngine';
+import { profitAtQuotedPrices } from './profitSolver';
+import { getRateHistory, saveRateRecords } from './dataService';
+
+// Exchange-rate subsystem: a provider interface, the local (Firestore) history provider,
+// CSV import and the profit sensitivity to rate moves.
+
+// Source of exchange rates. An online provider (e.g. Bank of Israel) implements the same interface.
+export interface ExchangeRateProvider {
+  id: string;
+  label: string;
+  getRatesForDate: (date: string) => Promise<RateRecord | null>; // Latest rates on or before the date
+  getLatestRates: () => Promise<RateRecord | null>;
+}
+
+// Latest record on or before the date (dates are ISO "YYYY-MM-DD", so string order is date order)
+export const findRateForDate = (history: RateRecord[], date: string): RateRecord | null => {
+  return history
+    .filter(record => record.date <= date)
+    .reduce<RateRecord | null>((latest, record) => !latest || record.date > latest.date ? record : latest, null);
+};
+
+// Counts the writes to the rate history, so that providers reload a history loaded before one
+let historyWrites = 0;
+
+// Save rate records to the history, for the providers to read
+export const saveRates = async (records: RateRecord[]): Promise<void> => {
+  await saveRateRecords(records);
+  historyWrites++;
+};
+
+// Provider backed by the rate history stored alongside the orders in Firestore
+export const createHistoryRateProvider = (): ExchangeRateProvider => {
+  let cache: { writes: number; history: RateRecord[] } | null = null;
+  const loadHistory = async () => {
+    if (!cache || cache.writes !== historyWrites) {
+      const writes = historyWrites;
+      cache = { writes, history: await getRateHistory() };
+    }
+    return cache.history;
+  };
+
+  return {
+    id: 'history',
+    label: 'היסטוריית שערים מקומית',
+    getRatesForDate: async (date) => findRateForDate(await loadHistory(), date),
+    getLatestRates: async () => {
+      const history = await loadHistory();
+      return history.length > 0 ? history[0] : null;
+    },
+  };
+};
+
+// Apply a rate record onto the order's rate table (currencies missing from the record keep their rate)
+export const applyRateRecord = (rates: ExchangeRateTable, record: RateRecord): ExchangeRateTable => {
+  return { ...rates, ...record.rates, ILS: 1 };
+};
+
+export interface RatesCSVParseResult {
+  records: RateRecord[];
+  errors: string[]; // Per-row problems, the rest of the file is still imported
+}
+
+const CURRENCY_CODES: CurrencyCode[] = CURRENCIES.map(c => c.code).filter(code => code !== 'ILS');
+
+// Accept "YYYY-MM-DD" or "DD/MM/YYYY" and return ISO "YYYY-MM-DD"
+const normalizeDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const match = trimmed.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  return null;
+};
+
+// Parse a rates CSV. Two layouts are supported:
+//   wide: date,USD,EUR,CNY        (one row per date)
+//   long: date,currency,rate      (one row per date and currency)
+// Rates are ILS per unit of the currency.
+export const parseRatesCSV = (text: string): RatesCSVParseResult => {
+  const rows = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  const errors: string[] = [];
+  if (rows.length < 2) {
+    return { records: [], errors: ['הקובץ ריק או חסרה שורת כותרת'] };
+  }
+
+  const header = rows[0].split(',').map(cell => cell.trim().toUpperCase());
+  const dateIndex = header.indexOf('DATE');
+  if (dateIndex < 0) {
+    return { records: [], errors: ['חסרה עמודת date'] };
+  }
+  const isLongLayout = header.includes('CURRENCY') && header.includes('RATE');
+  const byDate: Record<string, RateRecord> = {};
+
+  rows.slice(1).forEach((row, index) => {
+    const rowNumber = index + 2;
+    const cells = row.split(',').map(cell => cell.trim());
+    const date = normalizeDate(cells[dateIndex] || '');
+    if (!date) {
+      errors.push(`שורה ${rowNumber}: תאריך לא תקין "${cells[dateIndex] || ''}"`);
+      return;
+    }
+    const record = byDate[date] || (byDate[date] = { date, rates: {}, source: 'csv' });
+
+    const addRate = (currency: string, value: string) => {
+      const code = currency.toUpperCase() as CurrencyCode;
+      const rate = parseFloat(value);
+      if (!CURRENCY_CODES.includes(code)) {
+        errors.push(`שורה ${rowNumber}: מטבע לא נתמך "${currency}"`);
+      } else if (isNaN(rate) || rate <= 0) {
+        errors.push(`שורה ${rowNumber}: שער לא תקין עבור ${code}`);
+      } else {
+        record.rates[code] = rate;
+      }
+    };
+
+    if (isLongLayout) {
+      addRate(cells[header.indexOf('CURRENCY')] || '', cells[header.indexOf('RATE')] || '');
+    } else {
+      header.forEach((column, columnIndex) => {
+        if (columnIndex !== dateIndex && cells[columnIndex]) {
+          addRate(column, cells[columnIndex]);
+        }
+      });
+    }
+  });
+
+  const records = Object.values(byDate)
+    .filter(record => Object.keys(record.rates).length > 0)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  return { records, errors };
+};
+
+// Parse a CSV file and store its rates in the history
+export const importRatesCSV = async (text: string): Promise<RatesCSVParseResult> => {
+  const result = parseRatesCSV(text);
+  if (result.records.length > 0) {
+    await saveRates(result.records);
+  }
+  return result;
+};
+
+export interface RateSensitivityRow {
+  changePercent: number;
+  rates: ExchangeRateTable;
+  totalProfitILS: number;
+  profitDeltaILS: number;
+}
+
+// Profit of the order when every foreign currency moves by the given percentages against the shekel.
+// The customer keeps paying the prices quoted now - only the costs follow the rates.
+export const calculateRateSensitivity = (inputs: UserInputs, maxChangePercent: number, steps = 2): RateSensitivityRow[] => {
+  const quoted = calculateResults(inputs);
+  const baseProfit = profitAtQuotedPrices(quoted, inputs, false);
+  const changes: number[] = [];
+  for (let i = -steps; i <= steps; i++) {
+    changes.push((maxChangePercent * i) / steps);
+  }
+
+  return changes.map(changePercent => {
+    const rates = { ...inputs.exchangeRates };
+    CURRENCY_CODES.forEach(code => {
+      rates[code] = inputs.exchangeRates[code] * (1 + changePercent / 100);
+    });
+    const totalProfitILS = changePercent === 0
+      ? baseProfit
+      : profitAtQuotedPrices(quoted, { ...inputs, exchangeRates: rates }, false);
+    return { changePercent, rates, totalProfitILS, profitDeltaILS: totalProfitILS - baseProfit };
+  });
+};
@@ -0,0 +1,170 @@
+import { readFileSync } from 'fs';
+import { describe, it, beforeAll, beforeEach, afterAll } from 'vitest';
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { deleteDoc, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+
+// The security rules against the Firestore emulator: run with `npm run test:rules` (needs the
+// Firebase CLI). Without the emulator - a plain `npm test` - the suite is skipped.
+
+const TEAM = 'teamA';
+const OTHER_TEAM = 'teamB';
+
+// Members of teamA by uid; `unverified` is listed as a sales rep but never verified the address
+const USERS: Record<string, { email: string; verified: boolean; teamId: string }> = {
+  owner: { email: 'owner@a.com', verified: true, teamId: TEAM },
+  admin: { email: 'admin@a.com', verified: true, teamId: TEAM },
+  sales: { email: 'sales@a.com', verified: true, teamId: TEAM },
+  viewer: { email: 'viewer@a.com', verified: true, teamId: TEAM },
+  unverified: { email: 'new@a.com', verified: false, teamId: TEAM },
+  outsider: { email: 'other@b.com', verified: true, teamId: OTHER_TEAM },
+  invited: { email: 'invited@a.com', verified: true, teamId: 'invited' },
+};
+
+let env: RulesTestEnvironment;
+
+const dbOf = (uid: string) => {
+  const { email, verified } = USERS[uid];
+  return env.authenticatedContext(uid, { email, email_verified: verified }).firestore();
+};
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('firestore.rules', () => {
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: 'demo-hat-box-rules',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await env?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, 'teams', TEAM), {
+        name: 'A',
+        ownerId: 'owner',
+        memberRoles: {
+          'owner@a.com': 'admin',
+          'admin@a.com': 'admin',
+          'sales@a.com': 'sales',
+          'viewer@a.com': 'viewer',
+          'new@a.com': 'sales',
+          'invited@a.com': 'sales',
+        },
+      });
+      await setDoc(doc(db, 'teams', OTHER_TEAM), { name: 'B', ownerId: 'outsider', memberRoles: { 'other@b.com': 'admin' } });
+      await setDoc(doc(db, 'teams', TEAM, 'settings/salesMarginRange'), { min: 15, max: 60 });
+      await Promise.all(Object.entries(USERS).map(([uid, user]) => setDoc(doc(db, 'users', uid), { teamId: user.teamId })));
+
+      await setDoc(doc(db, 'orders/order1'), { name: 'Order', teamId: TEAM, ownerId: 'sales', inputs: {} });
+      await setDoc(doc(db, 'orders/order1/private/supplierPrices'), { prices: {} });
+      await setDoc(doc(db, 'orders/order1/revisions/rev1'), { name: 'Order', inputs: {}, authorId: 'sales' });
+      await setDoc(doc(db, 'orders/order1/revisions/rev1/private/supplierPrices'), { prices: {} });
+
+      await setDoc(doc(db, 'catalog', TEAM), { products: [], version: 1, teamId: TEAM });
+      await setDoc(doc(db, 'catalog', TEAM, 'private/supplierPrices'), { prices: {} });
+      await setDoc(doc(db, 'catalog', TEAM, 'versions/1'), { version: 1, products: [], authorId: 'admin' });
+
+      await setDoc(doc(db, 'products/legacy1'), { products: [] });
+    });
+  });
+
+  describe('team isolation', () => {
+    it('keeps other teams out of the orders and the catalog', async () => {
+      const db = dbOf('outsider');
+      await assertFails(getDoc(doc(db, 'orders/order1')));
+      await assertFails(getDoc(doc(db, 'catalog', TEAM)));
+      await assertFails(setDoc(doc(db, 'orders/order2'), { name: 'Mine', teamId: TEAM, ownerId: 'outsider', inputs: {} }));
+      await assertFails(updateDoc(doc(db, 'teams', TEAM), { name: 'Taken' }));
+    });
+
+    it('lets a user join only a team that listed their verified email', async () => {
+      await assertSucceeds(updateDoc(doc(dbOf('invited'), 'users/invited'), { teamId: TEAM }));
+      await assertFails(updateDoc(doc(dbOf('outsider'), 'users/outsider'), { teamId: TEAM }));
+    });
+
+    it('ignores a listing of an unverified email', async () => {
+      const db = dbOf('unverified');
+      await assertFails(getDoc(doc(db, 'teams', TEAM)));
+      await assertFails(getDoc(doc(db, 'orders/order1')));
+      await assertFails(getDoc(doc(db, 'catalog', TEAM)));
+    });
+  });
+
+  describe('roles', () => {
+    it('lets sales reps save orders but not the catalog or the team', async () => {
+      const db = dbOf('sales');
+      await assertSucceeds(setDoc(doc(db, 'orders/order2'), { name: 'New', teamId: TEAM, ownerId: 'sales', inputs: {} }));
+      await assertSucceeds(updateDoc(doc(db, 'orders/order1'), { name: 'Renamed' }));
+      await assertFails(setDoc(doc(db, 'orders/order3'), { name: 'New', teamId: TEAM, ownerId: 'admin', inputs: {} }));
+      await assertFails(deleteDoc(doc(db, 'orders/order1')));
+      await assertFails(setDoc(doc(db, 'catalog', TEAM), { products: [], version: 2, teamId: TEAM }));
+      await assertFails(updateDoc(doc(db, 'teams', TEAM), { name: 'Renamed' }));
+    });
+
+    it('keeps viewers read-only', async () => {
+      const db = dbOf('viewer');
+      await assertSucceeds(getDoc(doc(db, 'orders/order1')));
+      await assertFails(updateDoc(doc(db, 'orders/order1'), { name: 'Renamed' }));
+      await assertFails(setDoc(doc(db, 'orders/order2'), { name: 'New', teamId: TEAM, ownerId: 'viewer', inputs: {} }));
+    });
+
+    it('lets admins manage the catalog and the team but not move an order to another team', async () => {
+      const db = dbOf('admin');
+      await assertSucceeds(setDoc(doc(db, 'catalog', TEAM), { products: [], version: 2, teamId: TEAM }));
+      await assertSucceeds(updateDoc(doc(db, 'teams', TEAM), { name: 'Renamed' }));
+      await assertFails(updateDoc(doc(db, 'orders/order1'), { teamId: OTHER_TEAM }));
+    });
+  });
+
+  describe('private documents', () => {
+    it('hides supplier prices, the margin range, revisions and catalog versions from sales reps', async () => {
+      const db = dbOf('sales');
+      await assertFails(getDoc(doc(db, 'teams', TEAM, 'settings/salesMarginRange')));
+      await assertFails(getDoc(doc(db, 'orders/order1/private/supplierPrices')));
+      await assertFails(getDoc(doc(db, 'orders/order1/revisions/rev1')));
+      await assertFails(getDoc(doc(db, 'orders/order1/revisions/rev1/private/supplierPrices')));
+      await assertFails(getDoc(doc(db, 'catalog', TEAM, 'private/supplierPrices')));
+      await assertFails(getDoc(doc(db, 'catalog', TEAM, 'versions/1')));
+      await assertFails(setDoc(doc(db, 'orders/order1/private/supplierPrices'), { prices: {} }));
+    });
+
+    it('shows them to admins', async () => {
+      const db = dbOf('admin');
+      await assertSucceeds(getDoc(doc(db, 'teams', TEAM, 'settings/salesMarginRange')));
+      await assertSucceeds(getDoc(doc(db, 'orders/order1/private/supplierPrices')));
+      await assertSucceeds(getDoc(doc(db, 'orders/order1/revisions/rev1/private/supplierPrices')));
+      await assertSucceeds(getDoc(doc(db, 'catalog', TEAM, 'private/supplierPrices')));
+      await assertSucceeds(getDoc(doc(db, 'catalog', TEAM, 'versions/1')));
+    });
+
+    it('closes the legacy products collection to every client', async () => {
+      const db = dbOf('owner');
+      await assertFails(getDoc(doc(db, 'products/legacy1')));
+      await assertFails(deleteDoc(doc(db, 'products/legacy1')));
+    });
+  });
+
+  describe('revisions', () => {
+    it('are written by their author only', async () => {
+      const db = dbOf('sales');
+      await assertSucceeds(setDoc(doc(db, 'orders/order1/revisions/rev2'), { name: 'Order', inputs: {}, authorId: 'sales' }));
+      await assertFails(setDoc(doc(db, 'orders/order1/revisions/rev3'), { name: 'Order', inputs: {}, authorId: 'admin' }));
+    });
+
+    it('cannot be changed once written, not even by admins', async () => {
+      const db = dbOf('owner');
+      await assertFails(updateDoc(doc(db, 'orders/order1/revisions/rev1'), { name: 'Changed' }));
+      await assertFails(setDoc(doc(db, 'orders/order1/revisions/rev1/private/supplierPrices'), { prices: { small: {} } }));
+      await assertFails(setDoc(doc(db, 'catalog', TEAM, 'versions/1'), { version: 1, products: [{}], authorId: 'owner' }));
+    });
+  });
+});
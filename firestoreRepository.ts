@@ -0,0 +1,414 @@
+import { getDb } from './firebaseConfig';
+import {
+  collection,
+  addDoc,
+  getDocs,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  where,
+  runTransaction,
+  Timestamp
+} from 'firebase/firestore';
+import { OrderInputs, OrderProduct, Product, QuoteTemplate, RateRecord } from './types';
+import { migrateEmbeddedProducts } from './orderLines';
+import { DEFAULT_EXCHANGE_RATES } from './constants';
+import {
+  PublicOrderInputs,
+  PublicProduct,
+  LineSupplierPrices,
+  PriceListInputs,
+  hideSupplierPrices,
+  SupplierPrice,
+  splitOrderInputs,
+  mergeOrderInputs,
+  splitProducts,
+  mergeProducts,
+} from './costVisibility';
+import { CatalogVersion, DataRepository, DataSession, OrderRevision, SavedOrder, StoredCatalog, canViewCosts } from './repository';
+
+const ORDERS_COLLECTION = 'orders';
+const REVISIONS_SUBCOLLECTION = 'revisions';
+const TEAMS_COLLECTION = 'teams';
+// One catalog document per team (catalog/{teamId}) with its versions as a subcollection
+const CATALOG_COLLECTION = 'catalog';
+const VERSIONS_SUBCOLLECTION = 'versions';
+// Rate history is kept per team (teams/{teamId}/exchangeRates/{date})
+const EXCHANGE_RATES_COLLECTION = 'exchangeRates';
+// Team settings (teams/{teamId}/settings/{name}): the quote template and the quote number counter
+const SETTINGS_SUBCOLLECTION = 'settings';
+const QUOTE_TEMPLATE_DOC = 'quoteTemplate';
+const QUOTE_COUNTER_DOC = 'quoteCounter';
+// Supplier prices of the catalog, an order or a revision ({parent}/private/supplierPrices) - admins only
+const PRIVATE_SUBCOLLECTION = 'private';
+const SUPPLIER_PRICES_DOC = 'supplierPrices';
+
+// Helper function to remove undefined values from objects (Firestore doesn't support undefined)
+const removeUndefined = (obj: any): any => {
+  if (obj === null || obj === undefined) {
+    return null;
+  }
+  if (Array.isArray(obj)) {
+    return obj.map(item => removeUndefined(item));
+  }
+  if (typeof obj === 'object') {
+    const cleaned: any = {};
+    for (const key in obj) {
+      if (obj[key] !== undefined) {
+        cleaned[key] = removeUndefined(obj[key]);
+      }
+    }
+    return cleaned;
+  }
+  return obj;
+};
+
+const toMillis = (value: any): number => value?.toMillis?.() ?? 0;
+
+// Catalog products as definitions: ensure the active field (default to true if not set) and drop
+// the order quantities that catalogs saved before the catalog split carried
+const normalizeProducts = (products: OrderProduct[]): Product[] => {
+  return products.map(({ mixPercent, quantity, ...product }) => ({
+    ...product,
+    active: product.active !== undefined ? product.active : true
+  }));
+};
+
+type StoredOrderInputs = PublicOrderInputs & { exchangeRate?: number; products?: OrderProduct[] };
+
+// Bring inputs of orders saved by older versions up to the current shape and merge the
+// supplier prices back in for admins
+const normalizeInputs = (
+  session: DataSession,
+  inputs: StoredOrderInputs,
+  prices?: Record<string, LineSupplierPrices>
+): OrderInputs => {
+  const { exchangeRate, products, lines, ...rest } = inputs;
+  const normalized = {
+    ...rest,
+    // Orders saved before the allocation mode existed split shipping equally per unit
+    shippingAllocation: inputs.shippingAllocation || 'perUnit',
+    // Orders saved before the rate table had a single USD→ILS rate
+    exchangeRates: inputs.exchangeRates || { ...DEFAULT_EXCHANGE_RATES, USD: exchangeRate ?? DEFAULT_EXCHANGE_RATES.USD },
+    saleCurrency: inputs.saleCurrency || 'ILS',
+  };
+  // Orders saved before the catalog split embedded full products - supplier prices and margins
+  // included - instead of lines
+  if (!lines) {
+    const migrated = { ...normalized, lines: migrateEmbeddedProducts(products || []) };
+    return canViewCosts(session) ? migrated : hideSupplierPrices(migrated);
+  }
+  return mergeOrderInputs({ ...normalized, lines }, prices);
+};
+
+// The admin-only document stored next to a document, for admins only
+const getPrivateData = async (session: DataSession, ...path: string[]) => {
+  if (!canViewCosts(session)) {
+    return undefined;
+  }
+  const data = await getDoc(doc(getDb(), path.join('/'), PRIVATE_SUBCOLLECTION, SUPPLIER_PRICES_DOC));
+  return data.exists() ? data.data() : undefined;
+};
+
+// Supplier prices stored next to a document, for admins only
+const getSupplierPrices = async <T>(session: DataSession, ...path: string[]): Promise<Record<string, T> | undefined> => {
+  const data = await getPrivateData(session, ...path);
+  return data ? data.prices || {} : undefined;
+};
+
+// Store an order's inputs: the team-readable document gets sell prices, the supplier prices (and
+// any other admin-only fields) are written next to it when the user may see them (sales cannot
+// change them, so theirs stay as they were)
+const writeOrderInputs = async (
+  session: DataSession,
+  write: (inputs: PublicOrderInputs) => Promise<string>,
+  inputs: OrderInputs,
+  catalog: Product[],
+  privateFields: Record<string, unknown> = {}
+): Promise<string> => {
+  const split = splitOrderInputs(inputs, catalog);
+  const path = await write(removeUndefined(split.inputs) as PublicOrderInputs);
+  if (canViewCosts(session)) {
+    await setDoc(doc(getDb(), path, PRIVATE_SUBCOLLECTION, SUPPLIER_PRICES_DOC), removeUndefined({ ...privateFields, prices: split.prices }));
+  }
+  return path;
+};
+
+// Append a revision to the order's history (orders/{orderId}/revisions). The revision records the
+// catalog version it was priced with; admins also keep the catalog itself in its private document.
+const addOrderRevision = async (
+  session: DataSession,
+  orderId: string,
+  name: string,
+  inputs: OrderInputs,
+  catalog: Product[],
+  restoredFrom?: string
+): Promise<void> => {
+  const catalogVersion = await getCatalogVersion(session);
+  await writeOrderInputs(session, async (publicInputs) => {
+    const revision = {
+      name,
+      inputs: publicInputs,
+      catalogVersion,
+      createdAt: Timestamp.now(),
+      authorId: session.uid,
+      restoredFrom,
+    };
+    const revisionRef = await addDoc(collection(getDb(), ORDERS_COLLECTION, orderId, REVISIONS_SUBCOLLECTION), removeUndefined(revision));
+    return revisionRef.path;
+  }, inputs, catalog, { catalog });
+};
+
+const getCatalogVersion = async (session: DataSession): Promise<number> => {
+  const current = await getDoc(doc(getDb(), CATALOG_COLLECTION, session.teamId));
+  return current.exists() ? current.data().version || 0 : 0;
+};
+
+// Read the current catalog with the version it is at
+const getCatalog = async (session: DataSession): Promise<StoredCatalog> => {
+  const current = await getDoc(doc(getDb(), CATALOG_COLLECTION, session.teamId));
+  if (!current.exists()) {
+    return { products: [], version: 0 };
+  }
+  const prices = await getSupplierPrices<SupplierPrice>(session, CATALOG_COLLECTION, session.teamId);
+  return {
+    products: normalizeProducts(mergeProducts((current.data().products || []) as PublicProduct[], prices)),
+    version: current.data().version || 0,
+  };
+};
+
+// The team's data in Firestore. Access is enforced by the security rules; the session only scopes
+// the queries and decides whether the admin-only supplier price documents are read and written.
+export const createFirestoreRepository = (): DataRepository => ({
+  remote: true,
+
+  newOrderId: () => doc(collection(getDb(), ORDERS_COLLECTION)).id,
+
+  listOrders: async (session) => {
+    const q = query(collection(getDb(), ORDERS_COLLECTION), where('teamId', '==', session.teamId), orderBy('updatedAt', 'desc'));
+    const querySnapshot = await getDocs(q);
+
+    return await Promise.all(querySnapshot.docs.map(async doc => {
+      const data = doc.data();
+      const inputs = normalizeInputs(session, data.inputs, await getSupplierPrices<LineSupplierPrices>(session, ORDERS_COLLECTION, doc.id));
+      // An admin reading an order that embeds the supplier prices moves them to the private document
+      if (canViewCosts(session) && !(data.inputs as StoredOrderInputs).lines) {
+        try {
+          await writeOrderInputs(session, async (publicInputs) => {
+            await updateDoc(doc.ref, { inputs: publicInputs });
+            return doc.ref.path;
+          }, inputs, []);
+        } catch (error) {
+          console.error('Error moving supplier prices of order:', doc.id, error);
+        }
+      }
+      return {
+        id: doc.id,
+        ...data,
+        inputs,
+        createdAt: toMillis(data.createdAt),
+        updatedAt: toMillis(data.updatedAt),
+      };
+    })) as SavedOrder[];
+  },
+
+  getOrderUpdatedAt: async (_session, orderId) => {
+    const order = await getDoc(doc(getDb(), ORDERS_COLLECTION, orderId));
+    return order.exists() ? toMillis(order.data().updatedAt) : null;
+  },
+
+  // Create an order under an id made on the device, so an order saved offline keeps its id once synced
+  createOrder: async (session, orderId, name, inputs, catalog) => {
+    const now = Timestamp.now();
+    await writeOrderInputs(session, async (publicInputs) => {
+      const orderRef = doc(getDb(), ORDERS_COLLECTION, orderId);
+      await setDoc(orderRef, removeUndefined({
+        name,
+        ownerId: session.uid,
+        teamId: session.teamId,
+        inputs: publicInputs,
+        createdAt: now,
+        updatedAt: now,
+      }));
+      return orderRef.path;
+    }, inputs, catalog);
+    await addOrderRevision(session, orderId, name, inputs, catalog);
+    return now.toMillis();
+  },
+
+  updateOrder: async (session, orderId, name, inputs, catalog, restoredFrom) => {
+    const now = Timestamp.now();
+    await writeOrderInputs(session, async (publicInputs) => {
+      const orderRef = doc(getDb(), ORDERS_COLLECTION, orderId);
+      await updateDoc(orderRef, removeUndefined({
+        name,
+        inputs: publicInputs,
+        updatedAt: now,
+      }));
+      return orderRef.path;
+    }, inputs, catalog);
+    await addOrderRevision(session, orderId, name, inputs, catalog, restoredFrom);
+    return now.toMillis();
+  },
+
+  // Revisions saved by sales reps have no supplier prices of their own - reps cannot change them,
+  // so the order's prices apply - and no catalog, so admins see them priced with the catalog
+  // version they were saved at
+  listRevisions: async (session, orderId) => {
+    const db = getDb();
+    const q = query(collection(db, ORDERS_COLLECTION, orderId, REVISIONS_SUBCOLLECTION), orderBy('createdAt', 'desc'));
+    const querySnapshot = await getDocs(q);
+    const orderPrices = await getSupplierPrices<LineSupplierPrices>(session, ORDERS_COLLECTION, orderId);
+    const catalogVersions = new Map<number, Promise<Product[] | undefined>>();
+    const getVersionProducts = (version: number) => {
+      if (!catalogVersions.has(version)) {
+        catalogVersions.set(version, getDoc(doc(db, CATALOG_COLLECTION, session.teamId, VERSIONS_SUBCOLLECTION, String(version)))
+          .then(snapshot => snapshot.exists() ? normalizeProducts(snapshot.data().products || []) : undefined));
+      }
+      return catalogVersions.get(version)!;
+    };
+
+    return await Promise.all(querySnapshot.docs.map(async doc => {
+      const { catalogVersion, ...data } = doc.data();
+      const privateData = await getPrivateData(session, ORDERS_COLLECTION, orderId, REVISIONS_SUBCOLLECTION, doc.id);
+      const catalog = privateData?.catalog
+        ? normalizeProducts(privateData.catalog)
+        : canViewCosts(session) && catalogVersion ? await getVersionProducts(catalogVersion) : undefined;
+      return {
+        id: doc.id,
+        ...data,
+        inputs: normalizeInputs(session, data.inputs, privateData?.prices || orderPrices),
+        catalog,
+        createdAt: toMillis(data.createdAt),
+      };
+    })) as OrderRevision[];
+  },
+
+  // Delete an order together with its revision history and supplier prices
+  deleteOrder: async (_session, orderId) => {
+    const db = getDb();
+    const revisions = await getDocs(collection(db, ORDERS_COLLECTION, orderId, REVISIONS_SUBCOLLECTION));
+    await Promise.all(revisions.docs.map(revision => Promise.all([
+      deleteDoc(doc(db, revision.ref.path, PRIVATE_SUBCOLLECTION, SUPPLIER_PRICES_DOC)),
+      deleteDoc(revision.ref),
+    ])));
+    await deleteDoc(doc(db, ORDERS_COLLECTION, orderId, PRIVATE_SUBCOLLECTION, SUPPLIER_PRICES_DOC));
+    await deleteDoc(doc(db, ORDERS_COLLECTION, orderId));
+  },
+
+  getCatalog,
+
+  getCatalogVersion,
+
+  saveCatalog: async (session: DataSession, products: Product[], priceList: PriceListInputs, note?: string) => {
+    const db = getDb();
+    const { uid, teamId } = session;
+    const split = splitProducts(products, priceList);
+    return await runTransaction(db, async (transaction) => {
+      const currentRef = doc(db, CATALOG_COLLECTION, teamId);
+      const current = await transaction.get(currentRef);
+      const version = (current.exists() ? current.data().version || 0 : 0) + 1;
+      const now = Timestamp.now();
+
+      const versionData = {
+        version,
+        products: removeUndefined(products),
+        createdAt: now,
+        authorId: uid,
+        note,
+      };
+      transaction.set(doc(db, CATALOG_COLLECTION, teamId, VERSIONS_SUBCOLLECTION, String(version)), removeUndefined(versionData));
+      transaction.set(currentRef, removeUndefined({
+        products: removeUndefined(split.products),
+        version,
+        teamId,
+        updatedAt: now,
+      }));
+      transaction.set(doc(db, CATALOG_COLLECTION, teamId, PRIVATE_SUBCOLLECTION, SUPPLIER_PRICES_DOC), removeUndefined({
+        prices: split.prices,
+      }));
+      return version;
+    });
+  },
+
+  listCatalogVersions: async (session) => {
+    const q = query(collection(getDb(), CATALOG_COLLECTION, session.teamId, VERSIONS_SUBCOLLECTION), orderBy('version', 'desc'));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        products: normalizeProducts(data.products || []),
+        createdAt: toMillis(data.createdAt),
+      };
+    }) as CatalogVersion[];
+  },
+
+  // Delete all but the newest `keep` catalog versions of the team
+  pruneCatalogVersions: async (session, keep) => {
+    const versions = await getDocs(
+      query(collection(getDb(), CATALOG_COLLECTION, session.teamId, VERSIONS_SUBCOLLECTION), orderBy('version', 'desc'))
+    );
+    const staleVersions = versions.docs.slice(Math.max(1, keep));
+    await Promise.all(staleVersions.map(snapshot => deleteDoc(snapshot.ref)));
+    return staleVersions.length;
+  },
+
+  // One document per date, rates merged into it
+  saveRateRecords: async (session: DataSession, records: RateRecord[]) => {
+    await Promise.all(records.map(record =>
+      setDoc(doc(getDb(), TEAMS_COLLECTION, session.teamId, EXCHANGE_RATES_COLLECTION, record.date), removeUndefined({
+        ...record,
+        updatedAt: Timestamp.now(),
+      }), { merge: true })
+    ));
+  },
+
+  getRateHistory: async (session) => {
+    const q = query(collection(getDb(), TEAMS_COLLECTION, session.teamId, EXCHANGE_RATES_COLLECTION), orderBy('date', 'desc'));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        date: data.date,
+        rates: data.rates || {},
+        source: data.source || 'manual',
+      };
+    });
+  },
+
+  getQuoteTemplate: async (session) => {
+    const template = await getDoc(doc(getDb(), TEAMS_COLLECTION, session.teamId, SETTINGS_SUBCOLLECTION, QUOTE_TEMPLATE_DOC));
+    if (!template.exists()) {
+      return null;
+    }
+    const { updatedAt, ...data } = template.data();
+    return data as QuoteTemplate;
+  },
+
+  saveQuoteTemplate: async (session: DataSession, template: QuoteTemplate) => {
+    await setDoc(doc(getDb(), TEAMS_COLLECTION, session.teamId, SETTINGS_SUBCOLLECTION, QUOTE_TEMPLATE_DOC), removeUndefined({
+      ...template,
+      updatedAt: Timestamp.now(),
+    }));
+  },
+
+  // A transaction, so two reps quoting at the same moment never get the same number
+  nextQuoteSequence: async (session, year) => {
+    const db = getDb();
+    const counterRef = doc(db, TEAMS_COLLECTION, session.teamId, SETTINGS_SUBCOLLECTION, QUOTE_COUNTER_DOC);
+    return await runTransaction(db, async (transaction) => {
+      const counter = await transaction.get(counterRef);
+      const sequence = counter.exists() && counter.data().year === year ? (counter.data().last || 0) + 1 : 1;
+      transaction.set(counterRef, { year, last: sequence });
+      return sequence;
+    });
+  },
+});
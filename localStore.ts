@@ -0,0 +1,79 @@
+// Local persistence in IndexedDB: a cache of the data last read from the server (so the app opens
+// without a network) and the queue of writes made while offline. Every failure is logged and
+// treated as an empty store - the app then works as it did without local persistence.
+
+const DB_NAME = 'logistics-calculator';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const PENDING_WRITES_STORE = 'pendingWrites';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(CACHE_STORE)) {
+          database.createObjectStore(CACHE_STORE);
+        }
+        if (!database.objectStoreNames.contains(PENDING_WRITES_STORE)) {
+          database.createObjectStore(PENDING_WRITES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(database.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readCache = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    return await run<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.error('Error reading local cache:', error);
+    return undefined;
+  }
+};
+
+export const writeCache = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await run(CACHE_STORE, 'readwrite', store => store.put(value, key));
+  } catch (error) {
+    console.error('Error writing local cache:', error);
+  }
+};
+
+// Pending writes, oldest first (ids sort by the time they were queued)
+export const getPendingWrites = async <T extends { id: string }>(): Promise<T[]> => {
+  try {
+    return await run<T[]>(PENDING_WRITES_STORE, 'readonly', store => store.getAll());
+  } catch (error) {
+    console.error('Error reading pending writes:', error);
+    return [];
+  }
+};
+
+// Unlike the cache, a lost pending write loses the user's work - failures are reported to the caller
+export const putPendingWrite = async <T extends { id: string }>(write: T): Promise<void> => {
+  await run(PENDING_WRITES_STORE, 'readwrite', store => store.put(write));
+};
+
+export const deletePendingWrite = async (id: string): Promise<void> => {
+  await run(PENDING_WRITES_STORE, 'readwrite', store => store.delete(id));
+};
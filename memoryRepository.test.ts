@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryRepository } from './memoryRepository';
+import {
+  DataSession,
+  PriceListSettings,
+  getAllOrders,
+  getCatalogVersions,
+  getOrderRevisions,
+  getRateHistory,
+  getSavedProducts,
+  pruneCatalogVersions,
+  rollbackCatalog,
+  saveOrder,
+  saveProducts,
+  saveRateRecords,
+  setDataSession,
+  setRepository,
+  updateOrder,
+} from './dataService';
+import { DEFAULT_EXCHANGE_RATES } from './constants';
+import { defaultCatalog, defaultOrder } from './testFixtures';
+
+// The data service on an in-memory repository, which stores the data split like Firestore does
+
+const admin: DataSession = { uid: 'admin', teamId: 'team', role: 'admin', salesMarginRange: { min: 30, max: 50 } };
+const sales: DataSession = { uid: 'sales', teamId: 'team', role: 'sales' };
+const viewer: DataSession = { uid: 'viewer', teamId: 'team', role: 'viewer' };
+
+const priceList: PriceListSettings = {
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  saleCurrency: 'ILS',
+  unknownExpensesType: 'percent',
+  unknownExpensesValue: 5,
+};
+
+beforeEach(() => {
+  setRepository(createMemoryRepository());
+  setDataSession(admin);
+});
+
+describe('orders', () => {
+  it('loads an order as it was saved and keeps a revision of every save', async () => {
+    const orderId = await saveOrder('הזמנה', defaultOrder(), defaultCatalog());
+    const renamed = { ...defaultOrder(), shippingCostUSD: 4500 };
+    await updateOrder(orderId, 'הזמנה מעודכנת', renamed, defaultCatalog());
+
+    const [order] = await getAllOrders();
+    expect(order).toMatchObject({ id: orderId, name: 'הזמנה מעודכנת', ownerId: 'admin', teamId: 'team', inputs: renamed });
+    const revisions = await getOrderRevisions(orderId);
+    expect(revisions.map(revision => revision.inputs.shippingCostUSD)).toEqual([4500, 4000]);
+    expect(revisions[0].catalog).toEqual(defaultCatalog());
+  });
+
+  it('keeps each team to its own orders', async () => {
+    await saveOrder('הזמנה', defaultOrder(), defaultCatalog());
+    setDataSession({ ...admin, teamId: 'other' });
+    expect(await getAllOrders()).toEqual([]);
+  });
+});
+
+describe('catalog versions', () => {
+  it('records every save as a version, newest first, and rolls back by saving a new one', async () => {
+    expect(await saveProducts(defaultCatalog(), priceList)).toBe(1);
+    const cheaper = defaultCatalog().map(product => ({ ...product, factoryPriceUSD: product.factoryPriceUSD - 1 }));
+    expect(await saveProducts(cheaper, priceList, 'מחירים חדשים')).toBe(2);
+
+    const versions = await getCatalogVersions();
+    expect(versions.map(version => [version.version, version.note])).toEqual([[2, 'מחירים חדשים'], [1, undefined]]);
+    expect(await rollbackCatalog(versions[1], priceList)).toBe(3);
+    expect((await getSavedProducts()).map(product => product.factoryPriceUSD)).toEqual([4.48, 5.51, 5.79]);
+    expect((await getCatalogVersions())[0].note).toBe('שחזור גרסה 1');
+  });
+
+  it('prunes all but the newest versions', async () => {
+    for (let save = 0; save < 3; save++) {
+      await saveProducts(defaultCatalog(), priceList);
+    }
+    expect(await pruneCatalogVersions(1)).toBe(2);
+    expect((await getCatalogVersions()).map(version => version.version)).toEqual([3]);
+  });
+});
+
+describe('rate history', () => {
+  it('merges the rates of a date and lists the newest date first', async () => {
+    await saveRateRecords([
+      { date: '2026-01-05', rates: { USD: 3.71 }, source: 'manual' },
+      { date: '2026-02-02', rates: { USD: 3.65 }, source: 'manual' },
+    ]);
+    await saveRateRecords([{ date: '2026-01-05', rates: { EUR: 4.02 }, source: 'csv' }]);
+    expect(await getRateHistory()).toEqual([
+      { date: '2026-02-02', rates: { USD: 3.65 }, source: 'manual' },
+      { date: '2026-01-05', rates: { USD: 3.71, EUR: 4.02 }, source: 'csv' },
+    ]);
+  });
+
+  it('lets only roles that edit costs save rates', async () => {
+    setDataSession(sales);
+    await expect(saveRateRecords([{ date: '2026-01-05', rates: { USD: 3.71 }, source: 'manual' }])).rejects.toThrow('אין לך הרשאה');
+  });
+});
+
+describe('cost visibility by role', () => {
+  // An admin prices Medium at their own 45% margin, inside the team's 30-50% range
+  const adminOrder = () => {
+    const order = defaultOrder();
+    return { ...order, lines: order.lines.map(line => line.productId === 'medium' ? { ...line, profitMarginOverride: 45 } : line) };
+  };
+
+  it('gives sales reps and viewers the price list without supplier prices or margins', async () => {
+    await saveProducts(defaultCatalog(), priceList);
+    for (const session of [sales, viewer]) {
+      setDataSession(session);
+      const [small] = await getSavedProducts();
+      expect(small.factoryPriceUSD).toBe(0);
+      expect(small.profitMargin).toBe(0);
+      // $4.48 + 5% at the 40% margin
+      expect(small.pricing).toEqual({ strategy: 'fixedPrice', price: expect.closeTo(4.704 / 0.6 * 3.2, 9), priceCurrency: 'ILS' });
+      expect(small.salesPrice).toMatchObject({ minPrice: expect.closeTo(4.704 / 0.7 * 3.2, 9), maxPrice: expect.closeTo(4.704 / 0.5 * 3.2, 9) });
+    }
+  });
+
+  it('quotes an admin-priced line to sales reps at its price and keeps the margin for admins', async () => {
+    await saveProducts(defaultCatalog(), priceList);
+    const orderId = await saveOrder('הזמנה', adminOrder(), defaultCatalog());
+
+    setDataSession(sales);
+    const [salesView] = await getAllOrders();
+    const medium = salesView.inputs.lines.find(line => line.productId === 'medium')!;
+    expect(medium.profitMarginOverride).toBeUndefined();
+    expect(medium.salePriceOverride).toBeGreaterThan(0);
+    await expect(getOrderRevisions(orderId)).rejects.toThrow('אין לך הרשאה');
+
+    // A sales rep's save leaves the admin's margin in place
+    await updateOrder(orderId, 'הזמנה של הנציג', salesView.inputs, await getSavedProducts());
+    setDataSession(admin);
+    const [adminView] = await getAllOrders();
+    expect(adminView.name).toBe('הזמנה של הנציג');
+    expect(adminView.inputs.lines.find(line => line.productId === 'medium')!.profitMarginOverride).toBe(45);
+  });
+
+  it('keeps viewers from saving orders', async () => {
+    setDataSession(viewer);
+    await expect(saveOrder('הזמנה', defaultOrder(), defaultCatalog())).rejects.toThrow('אין לך הרשאה');
+  });
+});
@@ -0,0 +1,273 @@
+import { Product, QuoteTemplate, RateRecord } from './types';
+import {
+  PublicOrderInputs,
+  PublicProduct,
+  LineSupplierPrices,
+  SupplierPrice,
+  splitOrderInputs,
+  mergeOrderInputs,
+  splitProducts,
+  mergeProducts,
+} from './costVisibility';
+import { CatalogVersion, DataRepository, DataSession, canViewCosts } from './repository';
+
+// Orders, catalogs and rate history kept in memory, optionally persisted after every write (the
+// local backend keeps them in localStorage). Data is stored split like in Firestore - team-readable
+// part plus supplier prices - so the repository hands each role exactly what Firestore would.
+
+interface StoredRevision {
+  id: string;
+  name: string;
+  inputs: PublicOrderInputs;
+  prices?: Record<string, LineSupplierPrices>; // Not written for revisions saved by roles without cost access
+  catalog?: Product[]; // The catalog the order was priced with, like prices only from roles with cost access
+  catalogVersion?: number; // Catalog version at the time - the fallback for revisions without a catalog
+  createdAt: number;
+  authorId: string;
+  restoredFrom?: string;
+}
+
+interface StoredOrder {
+  id: string;
+  name: string;
+  ownerId: string;
+  teamId: string;
+  inputs: PublicOrderInputs;
+  prices?: Record<string, LineSupplierPrices>;
+  createdAt: number;
+  updatedAt: number;
+  revisions: StoredRevision[]; // Oldest first
+}
+
+interface TeamData {
+  orders: Record<string, StoredOrder>;
+  catalog: { products: PublicProduct[]; prices: Record<string, SupplierPrice>; version: number } | null;
+  catalogVersions: CatalogVersion[]; // Oldest first
+  rates: Record<string, RateRecord>; // By date
+  quoteTemplate?: QuoteTemplate;
+  quoteCounter?: { year: number; last: number };
+}
+
+export interface MemoryData {
+  teams: Record<string, TeamData>;
+}
+
+export interface MemoryPersistence {
+  load: () => MemoryData | null;
+  save: (data: MemoryData) => void;
+}
+
+const LOCAL_STORAGE_KEY = 'logistics-calculator-data';
+
+// Persist to localStorage; a failure to read starts from empty data, a failure to write is reported
+export const localStoragePersistence: MemoryPersistence = {
+  load: () => {
+    try {
+      const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error reading local data:', error);
+      return null;
+    }
+  },
+  save: (data) => {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(data));
+  },
+};
+
+// Stored values are copied in and out, so callers never share objects with the store.
+// The JSON round trip also drops undefined values, as persisting would.
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const randomId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createMemoryRepository = (persistence?: MemoryPersistence): DataRepository => {
+  const data: MemoryData = persistence?.load() || { teams: {} };
+  let lastTime = 0;
+
+  // Strictly increasing, so two saves in the same millisecond still differ for conflict checks
+  const now = (): number => {
+    lastTime = Math.max(Date.now(), lastTime + 1);
+    return lastTime;
+  };
+
+  const teamOf = (session: DataSession): TeamData => {
+    if (!data.teams[session.teamId]) {
+      data.teams[session.teamId] = { orders: {}, catalog: null, catalogVersions: [], rates: {} };
+    }
+    return data.teams[session.teamId];
+  };
+
+  const commit = (): void => {
+    persistence?.save(data);
+  };
+
+  const orderOf = (session: DataSession, orderId: string): StoredOrder => {
+    const order = teamOf(session).orders[orderId];
+    if (!order) {
+      throw new Error('ההזמנה לא נמצאה');
+    }
+    return order;
+  };
+
+  const pricesFor = <T>(session: DataSession, prices?: Record<string, T>): Record<string, T> | undefined =>
+    canViewCosts(session) ? prices : undefined;
+
+  const addRevision = (
+    session: DataSession,
+    order: StoredOrder,
+    split: ReturnType<typeof splitOrderInputs>,
+    catalog: Product[],
+    createdAt: number,
+    restoredFrom?: string
+  ): void => {
+    order.revisions.push(clone({
+      id: randomId(),
+      name: order.name,
+      inputs: split.inputs,
+      prices: canViewCosts(session) ? split.prices : undefined,
+      catalog: canViewCosts(session) ? catalog : undefined,
+      catalogVersion: teamOf(session).catalog?.version || 0,
+      createdAt,
+      authorId: session.uid,
+      restoredFrom,
+    }));
+  };
+
+  return {
+    remote: false,
+
+    newOrderId: randomId,
+
+    listOrders: async (session) => Object.values(teamOf(session).orders)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(({ revisions, prices, ...order }) => clone({
+        ...order,
+        inputs: mergeOrderInputs(order.inputs, pricesFor(session, prices)),
+      })),
+
+    getOrderUpdatedAt: async (session, orderId) => teamOf(session).orders[orderId]?.updatedAt ?? null,
+
+    createOrder: async (session, orderId, name, inputs, catalog) => {
+      const split = splitOrderInputs(inputs, catalog);
+      const createdAt = now();
+      const order: StoredOrder = clone({
+        id: orderId,
+        name,
+        ownerId: session.uid,
+        teamId: session.teamId,
+        inputs: split.inputs,
+        prices: canViewCosts(session) ? split.prices : undefined,
+        createdAt,
+        updatedAt: createdAt,
+        revisions: [],
+      });
+      addRevision(session, order, split, catalog, createdAt);
+      teamOf(session).orders[orderId] = order;
+      commit();
+      return createdAt;
+    },
+
+    // Like in Firestore, a role without cost access leaves the stored supplier prices as they were
+    updateOrder: async (session, orderId, name, inputs, catalog, restoredFrom) => {
+      const order = orderOf(session, orderId);
+      const split = splitOrderInputs(inputs, catalog);
+      const updatedAt = now();
+      order.name = name;
+      order.inputs = clone(split.inputs);
+      if (canViewCosts(session)) {
+        order.prices = clone(split.prices);
+      }
+      order.updatedAt = updatedAt;
+      addRevision(session, order, split, catalog, updatedAt, restoredFrom);
+      commit();
+      return updatedAt;
+    },
+
+    // Revisions saved without a catalog are priced with the catalog version they were saved at
+    listRevisions: async (session, orderId) => {
+      const order = orderOf(session, orderId);
+      const { catalogVersions } = teamOf(session);
+      return [...order.revisions].reverse().map(({ prices, catalog, catalogVersion, ...revision }) => clone({
+        ...revision,
+        inputs: mergeOrderInputs(revision.inputs, pricesFor(session, prices || order.prices)),
+        catalog: canViewCosts(session)
+          ? catalog || catalogVersions.find(version => version.version === catalogVersion)?.products
+          : undefined,
+      }));
+    },
+
+    deleteOrder: async (session, orderId) => {
+      delete teamOf(session).orders[orderId];
+      commit();
+    },
+
+    getCatalog: async (session) => {
+      const { catalog } = teamOf(session);
+      if (!catalog) {
+        return { products: [], version: 0 };
+      }
+      return clone({
+        products: mergeProducts(catalog.products, pricesFor(session, catalog.prices)),
+        version: catalog.version,
+      });
+    },
+
+    getCatalogVersion: async (session) => teamOf(session).catalog?.version || 0,
+
+    saveCatalog: async (session, products, priceList, note) => {
+      const team = teamOf(session);
+      const version = (team.catalog?.version || 0) + 1;
+      team.catalog = clone({ ...splitProducts(products, priceList), version });
+      team.catalogVersions.push(clone({
+        id: String(version),
+        version,
+        products,
+        createdAt: now(),
+        authorId: session.uid,
+        note,
+      }));
+      commit();
+      return version;
+    },
+
+    listCatalogVersions: async (session) => clone([...teamOf(session).catalogVersions].reverse()),
+
+    pruneCatalogVersions: async (session, keep) => {
+      const team = teamOf(session);
+      const kept = Math.max(1, keep);
+      const pruned = Math.max(0, team.catalogVersions.length - kept);
+      team.catalogVersions = team.catalogVersions.slice(pruned);
+      commit();
+      return pruned;
+    },
+
+    saveRateRecords: async (session, records) => {
+      const { rates } = teamOf(session);
+      records.forEach(record => {
+        const existing = rates[record.date];
+        rates[record.date] = clone({ ...record, rates: { ...existing?.rates, ...record.rates } });
+      });
+      commit();
+    },
+
+    getRateHistory: async (session) => clone(
+      Object.values(teamOf(session).rates).sort((a, b) => b.date.localeCompare(a.date))
+    ),
+
+    getQuoteTemplate: async (session) => clone(teamOf(session).quoteTemplate ?? null),
+
+    saveQuoteTemplate: async (session, template) => {
+      teamOf(session).quoteTemplate = clone(template);
+      commit();
+    },
+
+    nextQuoteSequence: async (session, year) => {
+      const team = teamOf(session);
+      const last = team.quoteCounter?.year === year ? team.quoteCounter.last : 0;
+      team.quoteCounter = { year, last: last + 1 };
+      commit();
+      return last + 1;
+    },
+  };
+};
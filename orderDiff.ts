@@ -0,0 +1,139 @@
+import { UserInputs, Product, OrderProduct, OrderInputs } from './types';
+import { CONTAINER_TYPES, CURRENCIES, COST_LINE_BASIS_LABELS, ALLOCATION_RULE_LABELS } from './constants';
+import { calculateOrder } from './pricingEngine';
+import { resolveOrderInputs } from './orderLines';
+import { describePricingRule } from './pricingStrategy';
+import { sortTiers } from './priceTiers';
+
+// Field-level comparison of two versions of an order (or of the product catalog)
+// and the profit impact of the changes.
+
+export interface FieldChange {
+  group: string; // "הזמנה", "שערים", or the product name
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface OrderDiff {
+  changes: FieldChange[];
+  profitBeforeILS: number;
+  profitAfterILS: number;
+  profitDeltaILS: number;
+}
+
+const ORDER_GROUP = 'הזמנה';
+const RATES_GROUP = 'שערים';
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'כן' : 'לא';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  return String(value);
+};
+
+// Quantity tiers as "1,000+: 4.2 · 5,000+: 3.9"
+const describeTiers = <T extends { minQuantity: number }>(tiers: T[] | undefined, value: (tier: T) => unknown): string | undefined =>
+  tiers && tiers.length > 0
+    ? sortTiers(tiers).map(tier => `${tier.minQuantity.toLocaleString()}+: ${formatValue(value(tier))}`).join(' · ')
+    : undefined;
+
+const containerLabel = (inputs: UserInputs) => CONTAINER_TYPES[inputs.containerType]?.label || inputs.containerType;
+
+// Catalog fields that matter for pricing, with their display labels
+const CATALOG_FIELDS: { key: keyof OrderProduct; label: string }[] = [
+  { key: 'name', label: 'שם' },
+  { key: 'dimensions', label: 'מידות' },
+  { key: 'factoryPriceUSD', label: 'מחיר מפעל' },
+  { key: 'purchaseCurrency', label: 'מטבע רכישה' },
+  { key: 'profitMargin', label: 'אחוז רווח' },
+  { key: 'unitsPerCarton', label: 'יחידות בקרטון' },
+  { key: 'masterCartonCBM', label: 'CBM לקרטון' },
+  { key: 'grossWeightKg', label: 'משקל קרטון' },
+  { key: 'minOrderQuantity', label: 'MOQ' },
+  { key: 'active', label: 'פעיל' },
+];
+
+// Order products also differ in what is ordered
+const ORDER_PRODUCT_FIELDS: { key: keyof OrderProduct; label: string }[] = [
+  ...CATALOG_FIELDS,
+  { key: 'quantity', label: 'כמות' },
+  { key: 'mixPercent', label: 'אחוז מהמכולה' },
+];
+
+const formatChange = (group: string, field: string, a: unknown, b: unknown): FieldChange | null => {
+  const before = formatValue(a);
+  const after = formatValue(b);
+  return before !== after ? { group, field, before, after } : null;
+};
+
+// Compare two product lists (matched by product id), grouped by product name
+export const diffProducts = (before: OrderProduct[], after: OrderProduct[], fields = CATALOG_FIELDS): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  const compare = (group: string, field: string, a: unknown, b: unknown) => {
+    const change = formatChange(group, field, a, b);
+    if (change) changes.push(change);
+  };
+
+  const productIds = Array.from(new Set([...before, ...after].map(product => product.id)));
+  productIds.forEach(id => {
+    const a = before.find(product => product.id === id);
+    const b = after.find(product => product.id === id);
+    const group = (b || a)!.name;
+    if (!a || !b) {
+      compare(group, 'מוצר', a ? 'קיים' : undefined, b ? 'קיים' : undefined);
+      return;
+    }
+    fields.forEach(({ key, label }) => compare(group, label, a[key], b[key]));
+    compare(group, 'תמחור', describePricingRule(a.pricing), describePricingRule(b.pricing));
+    compare(group, 'מדרגות מחיר מפעל', describeTiers(a.factoryPriceTiers, tier => tier.price), describeTiers(b.factoryPriceTiers, tier => tier.price));
+    compare(group, 'הנחות כמות', describeTiers(a.customerPriceTiers, tier => `${tier.discountPercent}%`), describeTiers(b.customerPriceTiers, tier => `${tier.discountPercent}%`));
+  });
+  return changes;
+};
+
+// Compare two versions of an order, each priced against the catalog it was saved with
+export const diffOrderInputs = (
+  beforeOrder: OrderInputs,
+  afterOrder: OrderInputs,
+  beforeCatalog: Product[],
+  afterCatalog = beforeCatalog
+): OrderDiff => {
+  const before = resolveOrderInputs(beforeOrder, beforeCatalog);
+  const after = resolveOrderInputs(afterOrder, afterCatalog);
+  const changes: FieldChange[] = [];
+  const compare = (group: string, field: string, a: unknown, b: unknown) => {
+    const change = formatChange(group, field, a, b);
+    if (change) changes.push(change);
+  };
+
+  compare(ORDER_GROUP, 'מכולה', containerLabel(before), containerLabel(after));
+  compare(ORDER_GROUP, 'מספר מכולות', before.containerCount || 1, after.containerCount || 1);
+  compare(ORDER_GROUP, 'עלות שילוח ($)', before.shippingCostUSD, after.shippingCostUSD);
+  compare(ORDER_GROUP, 'חלוקת שילוח', ALLOCATION_RULE_LABELS[before.shippingAllocation], ALLOCATION_RULE_LABELS[after.shippingAllocation]);
+  compare(ORDER_GROUP, 'הוצאות לא ידועות', before.unknownExpensesValue, after.unknownExpensesValue);
+  compare(ORDER_GROUP, 'סוג הוצאות לא ידועות', before.unknownExpensesType, after.unknownExpensesType);
+  compare(ORDER_GROUP, 'מטבע מכירה', before.saleCurrency, after.saleCurrency);
+
+  CURRENCIES.filter(currency => currency.code !== 'ILS').forEach(currency => {
+    compare(RATES_GROUP, currency.code, before.exchangeRates[currency.code], after.exchangeRates[currency.code]);
+  });
+  compare(RATES_GROUP, 'תאריך שערים', before.rateDate, after.rateDate);
+
+  const beforeLines = before.costLines || [];
+  const afterLines = after.costLines || [];
+  const lineIds = Array.from(new Set([...beforeLines, ...afterLines].map(line => line.id)));
+  lineIds.forEach(id => {
+    const a = beforeLines.find(line => line.id === id);
+    const b = afterLines.find(line => line.id === id);
+    const name = (b || a)!.name;
+    const describe = (line?: typeof a) => line ? `${line.amount} ${line.currency} ${COST_LINE_BASIS_LABELS[line.basis]}` : undefined;
+    compare('שורות עלות', name, describe(a), describe(b));
+  });
+
+  changes.push(...diffProducts(before.products, after.products, ORDER_PRODUCT_FIELDS));
+
+  const profitBeforeILS = calculateOrder(before).summary.totalProfitILS;
+  const profitAfterILS = calculateOrder(after).summary.totalProfitILS;
+  return { changes, profitBeforeILS, profitAfterILS, profitDeltaILS: profitAfterILS - profitBeforeILS };
+};
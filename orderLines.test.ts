@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { getSalePricesOutOfRange, lockSalePrices, pinCatalogPrices, resolveOrderInputs } from './orderLines';
+import { diffOrderInputs } from './orderDiff';
+import { calculateOrder } from './pricingEngine';
+import { OrderInputs, Product } from './types';
+import { defaultCatalog, defaultOrder } from './testFixtures';
+
+const profitOf = (order: OrderInputs, catalog: Product[]) => calculateOrder(resolveOrderInputs(order, catalog)).summary.totalProfitILS;
+
+const lineOf = (order: OrderInputs, productId: string) => order.lines.find(line => line.productId === productId)!;
+
+describe('pinCatalogPrices', () => {
+  // Small got dearer with a higher margin, Medium is unchanged and Large left the catalog
+  const [small, medium, large] = defaultCatalog();
+  const currentCatalog: Product[] = [{ ...small, factoryPriceUSD: 5, profitMargin: 50 }, medium];
+
+  it('keeps the old prices and margins of changed products as line overrides', () => {
+    const pinned = pinCatalogPrices(defaultOrder(), defaultCatalog(), currentCatalog);
+    expect(lineOf(pinned, 'small')).toMatchObject({ factoryPriceOverride: 4.48, profitMarginOverride: 40 });
+    expect(lineOf(pinned, 'medium')).toEqual({ productId: 'medium', mixPercent: 30 });
+    expect(lineOf(pinned, 'large').snapshot).toEqual(large);
+  });
+
+  it('prices the restored order as it was priced against the old catalog', () => {
+    const pinned = pinCatalogPrices(defaultOrder(), defaultCatalog(), currentCatalog);
+    expect(profitOf(pinned, currentCatalog)).toBeCloseTo(43993.2416, 4);
+    expect(diffOrderInputs(defaultOrder(), pinned, defaultCatalog(), currentCatalog).profitDeltaILS).toBeCloseTo(0, 6);
+  });
+
+  it('pins the price break the order reached, in the current purchase currency', () => {
+    const pricedWith: Product[] = [{ ...small, factoryPriceTiers: [{ minQuantity: 1000, price: 4.2 }] }, medium, large];
+    const catalog: Product[] = [{ ...small, factoryPriceUSD: 35, purchaseCurrency: 'CNY' }, medium, large];
+    // 1,816 Small units reach the 1,000 break: $4.20 = 30.5454... CNY at 3.2 / 0.44
+    expect(lineOf(pinCatalogPrices(defaultOrder(), pricedWith, catalog), 'small').factoryPriceOverride).toBeCloseTo(4.2 * 3.2 / 0.44, 9);
+  });
+
+  it('leaves lines that already have overrides alone', () => {
+    const order = defaultOrder({ lines: [{ productId: 'small', mixPercent: 100, factoryPriceOverride: 4, profitMarginOverride: 30 }] });
+    expect(pinCatalogPrices(order, defaultCatalog(), currentCatalog).lines).toEqual(order.lines);
+  });
+});
+
+describe('lockSalePrices', () => {
+  // A sales rep's catalog: Small and Medium on the price list, Large at a fixed price
+  const catalog = defaultCatalog();
+  const listCatalog: Product[] = [
+    { ...catalog[0], factoryPriceUSD: 0, profitMargin: 0, salesPrice: { price: 25, minPrice: 20, maxPrice: 30, currency: 'ILS' } },
+    { ...catalog[1], factoryPriceUSD: 0, profitMargin: 0, salesPrice: { price: 30, minPrice: 24, maxPrice: 36, currency: 'ILS' } },
+    { ...catalog[2], factoryPriceUSD: 0, profitMargin: 0, pricing: { strategy: 'fixedPrice', price: 40 } },
+  ];
+
+  it('keeps the list price of every listed line without a price of its own', () => {
+    const order = defaultOrder({
+      lines: [
+        { productId: 'small', mixPercent: 40 },
+        { productId: 'medium', mixPercent: 30, salePriceOverride: 33 },
+        { productId: 'large', mixPercent: 30 },
+      ],
+    });
+    const locked = lockSalePrices(order, listCatalog);
+    expect(locked.lines.map(line => line.salePriceOverride)).toEqual([25, 33, undefined]);
+  });
+
+  it('flags prices outside the range but always allows the list price', () => {
+    const order = defaultOrder({
+      lines: [
+        { productId: 'small', mixPercent: 40, salePriceOverride: 19.99 },
+        { productId: 'medium', mixPercent: 30, salePriceOverride: 36 },
+        { productId: 'large', mixPercent: 30 },
+      ],
+    });
+    expect(getSalePricesOutOfRange(order, listCatalog).map(line => line.productId)).toEqual(['small']);
+    const listedOutsideRange = [{ ...listCatalog[0], salesPrice: { price: 18, minPrice: 20, maxPrice: 30, currency: 'ILS' as const } }, ...listCatalog.slice(1)];
+    expect(getSalePricesOutOfRange(lockSalePrices(defaultOrder(), listedOutsideRange), listedOutsideRange)).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { Product, OrderLine, OrderProduct, OrderInputs, UserInputs } from './types';
+import { calculateResults, getFactoryPriceUSD, quantitiesToMixPercents } from './pricingEngine';
+import { convertCurrency } from './currency';
+
+// Order lines reference catalog products by id. The pricing engine works on the
+// resolved products: the catalog definition with the line's quantities and overrides applied.
+
+// A catalog product with its order line applied (no line - not ordered yet, default inclusion)
+const resolveProduct = (product: Product, line?: OrderLine): OrderProduct => ({
+  ...product,
+  factoryPriceUSD: line?.factoryPriceOverride ?? product.factoryPriceUSD,
+  factoryPriceTiers: line?.factoryPriceOverride !== undefined ? undefined : product.factoryPriceTiers,
+  profitMargin: line?.profitMarginOverride ?? product.profitMargin,
+  pricing: line?.salePriceOverride !== undefined
+    ? { strategy: 'fixedPrice', price: line.salePriceOverride, priceCurrency: product.salesPrice?.currency }
+    : product.pricing,
+  mixPercent: line?.mixPercent ?? 0,
+  quantity: line?.quantity,
+  active: line?.active ?? product.active !== false,
+});
+
+// Products of the order: every catalog product, then lines whose product left the catalog
+// but carry the definition they were saved with
+export const resolveOrderProducts = (catalog: Product[], lines: OrderLine[]): OrderProduct[] => {
+  const catalogIds = new Set(catalog.map(product => product.id));
+  const fromCatalog = catalog.map(product => resolveProduct(product, lines.find(line => line.productId === product.id)));
+  const fromSnapshots = lines
+    .filter(line => !catalogIds.has(line.productId) && line.snapshot)
+    .map(line => resolveProduct(line.snapshot!, line));
+  return [...fromCatalog, ...fromSnapshots];
+};
+
+// Pricing-engine inputs for a saved order
+export const resolveOrderInputs = (order: OrderInputs, catalog: Product[]): UserInputs => {
+  const { lines, ...rest } = order;
+  return { ...rest, products: resolveOrderProducts(catalog, lines) };
+};
+
+// Lines that point at products which are neither in the catalog nor embedded - they cannot be priced
+export const getMissingLines = (order: OrderInputs, catalog: Product[]): OrderLine[] => {
+  return order.lines.filter(line => !line.snapshot && !catalog.some(product => product.id === line.productId));
+};
+
+// Change a product's line in the order, creating the line on first edit
+export const updateLine = (lines: OrderLine[], productId: string, changes: Partial<OrderLine>): OrderLine[] => {
+  return lines.some(line => line.productId === productId)
+    ? lines.map(line => line.productId === productId ? { ...line, ...changes } : line)
+    : [...lines, { productId, ...changes }];
+};
+
+// Recalculate the container percentages from the quantities. With keepPercentLines, lines entered
+// by percentage keep their percentage; otherwise every line takes the percentage of its quantity.
+export const syncMixPercents = (order: OrderInputs, catalog: Product[], keepPercentLines = false): OrderInputs => {
+  const products = resolveOrderProducts(catalog, order.lines);
+  const withPercents = quantitiesToMixPercents(products, order);
+  const lines = withPercents.reduce((updated, product, index) => {
+    const hasQuantity = !!products[index].quantity && products[index].quantity! > 0;
+    return keepPercentLines && !hasQuantity
+      ? updated
+      : updateLine(updated, product.id, { mixPercent: product.mixPercent });
+  }, order.lines);
+  return { ...order, lines };
+};
+
+// Set the ordered quantity of several products at once (e.g. from an optimizer proposal)
+export const setLineQuantities = (order: OrderInputs, catalog: Product[], quantities: Record<string, number>): OrderInputs => {
+  const lines = Object.entries(quantities).reduce(
+    (updated, [productId, quantity]) => updateLine(updated, productId, { quantity }),
+    order.lines
+  );
+  return syncMixPercents({ ...order, lines }, catalog);
+};
+
+// Keep an order priced as it was against an older catalog (restoring a revision): where the catalog
+// has a different factory price or margin now, the line gets the old one as its override, and a
+// product that left the catalog comes back as a snapshot. The factory price is the one of the
+// price break the order reached, in the current purchase currency of the product.
+export const pinCatalogPrices = (order: OrderInputs, pricedWith: Product[], catalog: Product[]): OrderInputs => {
+  const results = calculateResults(resolveOrderInputs(order, pricedWith));
+  const lines = order.lines.map((line): OrderLine => {
+    const before = pricedWith.find(product => product.id === line.productId);
+    const current = catalog.find(product => product.id === line.productId);
+    if (!before) {
+      return line;
+    }
+    if (!current) {
+      return line.snapshot ? line : { ...line, snapshot: before };
+    }
+    const units = results.find(res => res.size.id === line.productId)?.totalUnits ?? 0;
+    const pinned: OrderLine = { ...line };
+    if (line.factoryPriceOverride === undefined) {
+      const priceUSD = getFactoryPriceUSD(before, order, units);
+      if (Math.abs(priceUSD - getFactoryPriceUSD(current, order, units)) > 1e-9) {
+        pinned.factoryPriceOverride = convertCurrency(priceUSD, 'USD', current.purchaseCurrency || 'USD', order.exchangeRates);
+      }
+    }
+    if (line.profitMarginOverride === undefined && before.profitMargin !== current.profitMargin) {
+      pinned.profitMarginOverride = before.profitMargin;
+    }
+    return pinned;
+  });
+  return { ...order, lines };
+};
+
+// Product of a line - from the catalog, or the definition the line carries if the product left it
+const lineProduct = (line: OrderLine, catalog: Product[]): Product | undefined =>
+  catalog.find(product => product.id === line.productId) || line.snapshot;
+
+// Sales reps quote from the price list. When they save, every line without a price of its own keeps
+// the list price it was quoted at, so a later price list does not change what the customer was offered.
+export const lockSalePrices = (order: OrderInputs, catalog: Product[]): OrderInputs => {
+  const lines = order.lines.map(line => {
+    const salesPrice = lineProduct(line, catalog)?.salesPrice;
+    return line.salePriceOverride === undefined && salesPrice ? { ...line, salePriceOverride: salesPrice.price } : line;
+  });
+  return { ...order, lines };
+};
+
+// Lines priced outside the range of their product's price list entry. The list price itself is always
+// allowed, even when the catalog margin lies outside the team's range.
+export const getSalePricesOutOfRange = (order: OrderInputs, catalog: Product[]): OrderLine[] => {
+  return order.lines.filter(line => {
+    const salesPrice = lineProduct(line, catalog)?.salesPrice;
+    if (line.salePriceOverride === undefined || !salesPrice || Math.abs(line.salePriceOverride - salesPrice.price) < 0.005) {
+      return false;
+    }
+    return line.salePriceOverride < salesPrice.minPrice - 0.005 || line.salePriceOverride > salesPrice.maxPrice + 0.005;
+  });
+};
+
+// Migration of orders saved before the catalog split: each embedded product becomes a line that
+// keeps the order's price and margin as overrides and the definition as a snapshot
+export const migrateEmbeddedProducts = (products: OrderProduct[]): OrderLine[] => {
+  return products.map(({ mixPercent, quantity, ...definition }) => ({
+    productId: definition.id,
+    mixPercent,
+    quantity,
+    factoryPriceOverride: definition.factoryPriceUSD,
+    profitMarginOverride: definition.profitMargin,
+    active: definition.active !== false,
+    snapshot: definition,
+  }));
+};
@@ -0,0 +1,70 @@
+import { jsPDF, Matrix, TextOptionsLight } from 'jspdf';
+import { UserOptions, __createTable, __drawTable } from 'jspdf-autotable';
+import heeboRegularUrl from '@expo-google-fonts/heebo/400Regular/Heebo_400Regular.ttf?url';
+import heeboBoldUrl from '@expo-google-fonts/heebo/700Bold/Heebo_700Bold.ttf?url';
+
+// Font embedding and text direction shared by the generated PDFs. Heebo covers Hebrew and Latin,
+// so Hebrew product names print correctly in the English supplier documents too.
+
+export const FONT_NAME = 'Heebo';
+
+export type TextDirection = 'rtl' | 'ltr';
+
+// Options of jsPDF's bidi engine: the strings are in logical order and are drawn in visual order
+// with mirrored brackets, in a right-to-left (Hebrew documents) or left-to-right paragraph.
+// Without them jsPDF treats the input as already visual.
+const BIDI_OPTIONS: Record<TextDirection, object> = {
+  rtl: { isInputVisual: false, isOutputVisual: true, isInputRtl: true, isOutputRtl: false, isSymmetricSwapping: true },
+  ltr: { isInputVisual: false, isOutputVisual: true, isInputRtl: false, isOutputRtl: false, isSymmetricSwapping: true },
+};
+
+// Base64 of the font files, fetched once per session
+let fontCache: Promise<{ regular: string; bold: string }> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadFonts = (): Promise<{ regular: string; bold: string }> => {
+  if (!fontCache) {
+    const load = async (url: string) => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Font request failed: ${response.status}`);
+      }
+      return toBase64(await response.arrayBuffer());
+    };
+    fontCache = Promise.all([load(heeboRegularUrl), load(heeboBoldUrl)]).then(([regular, bold]) => ({ regular, bold }));
+    fontCache.catch(() => {
+      fontCache = null;
+    });
+  }
+  return fontCache;
+};
+
+// Embed the font and give every text call of the document the paragraph direction (autoTable included)
+export const prepareDocument = async (doc: jsPDF, direction: TextDirection): Promise<void> => {
+  const fonts = await loadFonts();
+  doc.addFileToVFS('Heebo-Regular.ttf', fonts.regular);
+  doc.addFont('Heebo-Regular.ttf', FONT_NAME, 'normal');
+  doc.addFileToVFS('Heebo-Bold.ttf', fonts.bold);
+  doc.addFont('Heebo-Bold.ttf', FONT_NAME, 'bold');
+  doc.setFont(FONT_NAME, 'normal');
+
+  const text = doc.text.bind(doc);
+  doc.text = ((value: string | string[], x: number, y: number, options?: TextOptionsLight, transform?: Matrix) =>
+    text(value, x, y, { ...BIDI_OPTIONS[direction], ...options }, transform)) as jsPDF['text'];
+};
+
+// Draw a table like autoTable and return the y below it. autoTable itself returns nothing - the
+// table is created and drawn in its two steps to keep hold of it.
+export const drawTable = (doc: jsPDF, options: UserOptions): number => {
+  const table = __createTable(doc, options);
+  __drawTable(doc, table);
+  return table.finalY ?? 0; // Set once the table is drawn
+};
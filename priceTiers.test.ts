@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { getCustomerDiscountPercent, getCustomerTierPrices, getMinOrderQuantityWarnings, getTierFactoryPrice } from './priceTiers';
+import { calculateResults } from './pricingEngine';
+import { OrderProduct } from './types';
+import { defaultProducts, withSmall } from './testFixtures';
+
+// The default order (testFixtures.ts) with tiers on Small (1,816 units): a price break at 1,000 units,
+// customer tiers at 500 and 2,000 units and a MOQ of 100
+const tiers: Partial<OrderProduct> = {
+  factoryPriceTiers: [{ minQuantity: 1000, price: 4.2 }], minOrderQuantity: 100,
+  customerPriceTiers: [{ minQuantity: 2000, discountPercent: 10 }, { minQuantity: 500, discountPercent: 5 }],
+};
+const tieredSmall: OrderProduct = { ...defaultProducts()[0], ...tiers };
+const tieredInputs = (changes: Partial<OrderProduct> = {}) => withSmall({ ...tiers, ...changes });
+
+describe('tier lookup', () => {
+  it('takes the highest factory price break the units reach', () => {
+    expect(getTierFactoryPrice(tieredSmall, 999)).toBe(4.48);
+    expect(getTierFactoryPrice(tieredSmall, 1000)).toBe(4.2);
+  });
+
+  it('takes the highest customer discount the units reach, whatever order the tiers are in', () => {
+    expect(getCustomerDiscountPercent(tieredSmall, 499)).toBe(0);
+    expect(getCustomerDiscountPercent(tieredSmall, 1816)).toBe(5);
+    expect(getCustomerDiscountPercent(tieredSmall, 2000)).toBe(10);
+  });
+});
+
+describe('the engine with tiers', () => {
+  const small = calculateResults(tieredInputs()).find(res => res.size.id === 'small')!;
+
+  it('prices the order at the price break and the discount its units reach', () => {
+    // $4.20 + 5% = $4.41, / 0.6 = $7.35, less 5% = $6.9825
+    expect(small.landingCostUSD).toBeCloseTo(4.41, 9);
+    expect(small.customerDiscountPercent).toBe(5);
+    expect(small.priceUSD).toBeCloseTo(6.9825, 9);
+  });
+
+  it('warns about products below their factory MOQ', () => {
+    const inputs = tieredInputs({ minOrderQuantity: 2000 });
+    expect(getMinOrderQuantityWarnings(inputs.products, calculateResults(inputs))).toEqual([
+      { productId: 'small', name: 'Small', units: 1816, minOrderQuantity: 2000 },
+    ]);
+  });
+});
+
+describe('getCustomerTierPrices', () => {
+  it('prices every tier from the MOQ at the factory price break of its own quantity', () => {
+    const inputs = tieredInputs();
+    const [small] = getCustomerTierPrices(inputs, calculateResults(inputs));
+    expect(small.tiers.map(({ minQuantity, maxQuantity, discountPercent }) => [minQuantity, maxQuantity, discountPercent])).toEqual([
+      [100, 499, 0],
+      [500, 1999, 5],
+      [2000, undefined, 10],
+    ]);
+    // Below the break: $4.48 + 5% = $4.704, / 0.6 = $7.84; from 2,000 units: $4.41 / 0.6 = $7.35
+    expect(small.tiers[0].priceSale).toBeCloseTo(7.84 * 3.2, 9);
+    expect(small.tiers[1].priceSale).toBeCloseTo(7.84 * 0.95 * 3.2, 9);
+    expect(small.tiers[2].priceSale).toBeCloseTo(7.35 * 0.9 * 3.2, 9);
+  });
+
+  it('leaves out products without customer tiers', () => {
+    const inputs = tieredInputs();
+    expect(getCustomerTierPrices(inputs, calculateResults(inputs)).map(product => product.productId)).toEqual(['small']);
+  });
+});
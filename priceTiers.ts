@@ -0,0 +1,93 @@
+import { CalculationResult, CustomerPriceTier, FactoryPriceTier, OrderProduct, Product, UserInputs } from './types';
+import { convertCurrency } from './currency';
+import { getStrategyPriceUSD } from './pricingStrategy';
+
+// Quantity tiers: factory price breaks and the factory MOQ, and customer volume discounts.
+// A tier applies from its minimum quantity of the product in the order (the product's total units).
+
+export interface MinOrderQuantityWarning {
+  productId: string;
+  name: string;
+  units: number;
+  minOrderQuantity: number;
+}
+
+export interface CustomerTierPrice {
+  minQuantity: number;
+  maxQuantity?: number; // Unset for the last tier
+  discountPercent: number;
+  priceSale: number; // Unit price before shipping in the sale currency
+}
+
+export interface ProductTierPrices {
+  productId: string;
+  name: string;
+  tiers: CustomerTierPrice[];
+}
+
+// The tier with the highest minimum quantity the units reach
+const findTier = <T extends { minQuantity: number }>(tiers: T[] | undefined, units: number): T | undefined =>
+  (tiers || [])
+    .filter(tier => tier.minQuantity > 0 && units >= tier.minQuantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+
+// Tiers in quantity order, without empty rows
+export const sortTiers = <T extends { minQuantity: number }>(tiers: T[] | undefined): T[] =>
+  (tiers || []).filter(tier => tier.minQuantity > 0).sort((a, b) => a.minQuantity - b.minQuantity);
+
+// Factory unit price for the given units, in the purchase currency
+export const getTierFactoryPrice = (product: Pick<Product, 'factoryPriceUSD' | 'factoryPriceTiers'>, units: number): number => {
+  return findTier<FactoryPriceTier>(product.factoryPriceTiers, units)?.price ?? product.factoryPriceUSD;
+};
+
+// Customer volume discount for the given units, in percent
+export const getCustomerDiscountPercent = (product: Pick<Product, 'customerPriceTiers'>, units: number): number => {
+  return findTier<CustomerPriceTier>(product.customerPriceTiers, units)?.discountPercent ?? 0;
+};
+
+// Ordered products that do not reach the factory MOQ
+export const getMinOrderQuantityWarnings = (products: OrderProduct[], results: CalculationResult[]): MinOrderQuantityWarning[] => {
+  return results
+    .map(res => {
+      const product = products.find(p => p.id === res.size.id);
+      const minOrderQuantity = product?.minOrderQuantity || 0;
+      return { productId: res.size.id, name: res.size.name, units: res.totalUnits, minOrderQuantity };
+    })
+    .filter(warning => warning.units > 0 && warning.units < warning.minOrderQuantity);
+};
+
+// Customer unit price of every tier of the products that have customer tiers. Each row is priced with
+// the factory price break its minimum quantity reaches - the percentage unknown expenses move with it,
+// the other unit costs stay the order's. The first row is the undiscounted price from the MOQ up to
+// the first tier.
+export const getCustomerTierPrices = (inputs: UserInputs, results: CalculationResult[]): ProductTierPrices[] => {
+  return results.flatMap(res => {
+    const product = inputs.products.find(p => p.id === res.size.id);
+    const tiers = sortTiers(product?.customerPriceTiers);
+    if (!product || tiers.length === 0) {
+      return [];
+    }
+    const toUSD = (price: number) => convertCurrency(price, product.purchaseCurrency || 'USD', 'USD', inputs.exchangeRates);
+    const surchargeMultiplier = inputs.unknownExpensesType === 'percent' ? 1 + inputs.unknownExpensesValue / 100 : 1;
+    const orderFactoryPriceUSD = toUSD(getTierFactoryPrice(product, res.totalUnits));
+    const startQuantity = Math.max(1, product.minOrderQuantity || 0);
+    const rows = tiers[0].minQuantity > startQuantity
+      ? [{ minQuantity: startQuantity, discountPercent: 0 }, ...tiers]
+      : tiers;
+    return [{
+      productId: product.id,
+      name: product.name,
+      tiers: rows.map((tier, index) => {
+        const factoryPriceDeltaUSD = toUSD(getTierFactoryPrice(product, tier.minQuantity)) - orderFactoryPriceUSD;
+        const landingCostUSD = res.landingCostUSD + factoryPriceDeltaUSD * surchargeMultiplier;
+        const priceUSD = getStrategyPriceUSD(product, landingCostUSD, res.shippingPerUnitUSD, inputs, tier.discountPercent);
+        return {
+          minQuantity: tier.minQuantity,
+          maxQuantity: index < rows.length - 1 ? rows[index + 1].minQuantity - 1 : undefined,
+          discountPercent: tier.discountPercent,
+          priceSale: convertCurrency(priceUSD, 'USD', inputs.saleCurrency, inputs.exchangeRates),
+        };
+      }),
+    }];
+  });
+};
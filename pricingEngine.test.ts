@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import { calculateOrder, calculateResults, getActiveProducts, quantitiesToMixPercents } from './pricingEngine';
+import { DEFAULT_EXCHANGE_RATES } from './constants';
+import { mergeProducts, splitProducts } from './costVisibility';
+import { CalculationResult, UserInputs } from './types';
+import { defaultInputs, defaultProducts } from './testFixtures';
+
+// Pins the engine's numbers for the app's default Small/Medium/Large products, so a change in the
+// pricing shows up as a failing test rather than as different quotes. The order is a 40' container
+// split 40/30/30, $4,000 freight, 5% unknown expenses, USD at 3.2 (testFixtures.ts).
+
+const byId = (results: CalculationResult[], id: string): CalculationResult => {
+  const result = results.find(res => res.size.id === id);
+  if (!result) throw new Error(`no result for ${id}`);
+  return result;
+};
+
+describe('calculateResults with the default products', () => {
+  const results = calculateResults(defaultInputs());
+
+  it('fills the container with whole cartons of each product', () => {
+    expect(results.map(res => [res.size.id, res.cartons, res.totalUnits])).toEqual([
+      ['small', 454, 1816],
+      ['medium', 183, 1098],
+      ['large', 157, 942],
+    ]);
+    expect(byId(results, 'small').allocatedCBM).toBeCloseTo(26.786, 6);
+    expect(byId(results, 'medium').allocatedCBM).toBeCloseTo(20.13, 6);
+    expect(byId(results, 'large').allocatedCBM).toBeCloseTo(20.096, 6);
+  });
+
+  it('prices each unit at the landing cost divided by one minus the margin', () => {
+    // Landing cost = factory price + 5% unknown expenses; price = landing / 0.6
+    expect(byId(results, 'small').landingCostUSD).toBeCloseTo(4.704, 9);
+    expect(byId(results, 'small').priceUSD).toBeCloseTo(7.84, 9);
+    expect(byId(results, 'small').priceILS).toBeCloseTo(25.088, 9);
+    expect(byId(results, 'medium').landingCostUSD).toBeCloseTo(5.7855, 9);
+    expect(byId(results, 'medium').priceUSD).toBeCloseTo(9.6425, 9);
+    expect(byId(results, 'medium').priceILS).toBeCloseTo(30.856, 9);
+    expect(byId(results, 'large').landingCostUSD).toBeCloseTo(6.0795, 9);
+    expect(byId(results, 'large').priceUSD).toBeCloseTo(10.1325, 9);
+    expect(byId(results, 'large').priceILS).toBeCloseTo(32.424, 9);
+    expect(results.every(res => res.productProfitMargin === 40)).toBe(true);
+  });
+
+  it('spreads the freight over the units and adds it to the price', () => {
+    const perUnitUSD = 4000 / 3856;
+    for (const res of results) {
+      expect(res.shippingPerUnitUSD).toBeCloseTo(perUnitUSD, 9);
+      expect(res.priceWithShippingUSD).toBeCloseTo(res.priceUSD + perUnitUSD, 9);
+      expect(res.priceWithShippingSale).toBeCloseTo(res.priceWithShippingILS, 9);
+    }
+  });
+
+  it('takes the profit from the price before shipping', () => {
+    expect(byId(results, 'small').totalProfitILS).toBeCloseTo(18223.9232, 4);
+    expect(byId(results, 'medium').totalProfitILS).toBeCloseTo(13551.9552, 4);
+    expect(byId(results, 'large').totalProfitILS).toBeCloseTo(12217.3632, 4);
+  });
+
+  it('leaves out inactive products', () => {
+    const products = defaultProducts().map(p => p.id === 'medium' ? { ...p, active: false } : p);
+    expect(getActiveProducts(products).map(p => p.id)).toEqual(['small', 'large']);
+    expect(calculateResults(defaultInputs({ products })).map(res => res.size.id)).toEqual(['small', 'large']);
+  });
+});
+
+describe('calculateOrder with the default products', () => {
+  const { summary } = calculateOrder(defaultInputs());
+
+  it('sums the order', () => {
+    expect(summary.totalUnits).toBe(3856);
+    expect(summary.totalCBM).toBeCloseTo(67.012, 6);
+    expect(summary.containerCapacityCBM).toBeCloseTo(67.1, 6);
+    expect(summary.totalFactoryPriceUSD).toBeCloseTo(20621.832, 4);
+    expect(summary.totalProfitILS).toBeCloseTo(43993.2416, 4);
+    expect(summary.totalUnknownExpensesILS).toBeCloseTo(5499.1552, 4);
+    expect(summary.totalShippingCostUSD).toBe(4000);
+    // Customer total: 109,983.104 ₪ of products plus 12,800 ₪ of freight
+    expect(summary.totalRevenueSale).toBeCloseTo(122783.104, 4);
+  });
+
+  it('moves the prices and profit with the margin', () => {
+    const products = defaultProducts().map(p => ({ ...p, profitMargin: 30 }));
+    const { results, summary: atThirty } = calculateOrder(defaultInputs({ products }));
+    expect(byId(results, 'small').priceUSD).toBeCloseTo(4.704 / 0.7, 9);
+    expect(atThirty.totalProfitILS).toBeLessThan(summary.totalProfitILS);
+  });
+});
+
+describe('quantitiesToMixPercents', () => {
+  it('converts direct quantities to the share of the container they fill', () => {
+    const products = defaultProducts().map(p => ({ ...p, mixPercent: undefined, quantity: p.id === 'small' ? 1000 : 0 }));
+    const [small] = quantitiesToMixPercents(products, { containerType: '40' });
+    // 250 cartons × 0.059 CBM of 67.1 CBM
+    expect(small.mixPercent).toBeCloseTo((250 * 0.059 / 67.1) * 100, 9);
+  });
+});
+
+describe('shipping allocation', () => {
+  it('splits the freight by the volume each product ships', () => {
+    const results = calculateResults(defaultInputs({ shippingAllocation: 'perCBM' }));
+    expect(byId(results, 'small').shippingPerUnitUSD).toBeCloseTo((4000 * 26.786 / 67.012) / 1816, 9);
+    expect(byId(results, 'large').shippingPerUnitUSD).toBeCloseTo((4000 * 20.096 / 67.012) / 942, 9);
+    // Bulkier units carry more freight each
+    expect(byId(results, 'large').shippingPerUnitUSD).toBeGreaterThan(byId(results, 'small').shippingPerUnitUSD);
+  });
+
+  it('splits the freight by factory value', () => {
+    const results = calculateResults(defaultInputs({ shippingAllocation: 'perValue' }));
+    // Factory values: 8,135.68 + 6,049.98 + 5,454.18 = 19,639.84 USD
+    expect(byId(results, 'small').shippingPerUnitUSD).toBeCloseTo(4000 * 4.48 / 19639.84, 9);
+    expect(byId(results, 'medium').shippingPerUnitUSD).toBeCloseTo(4000 * 5.51 / 19639.84, 9);
+  });
+
+  it('charges the whole freight whatever the split, and leaves the profit alone', () => {
+    const base = calculateOrder(defaultInputs());
+    for (const shippingAllocation of ['perUnit', 'perCBM', 'perValue'] as const) {
+      const { results, summary } = calculateOrder(defaultInputs({ shippingAllocation }));
+      const shippedUSD = results.reduce((sum, res) => sum + res.shippingPerUnitUSD * res.totalUnits, 0);
+      expect(shippedUSD).toBeCloseTo(4000, 6);
+      expect(summary.totalRevenueSale).toBeCloseTo(122783.104, 4);
+      expect(summary.totalProfitILS).toBeCloseTo(base.summary.totalProfitILS, 6);
+    }
+  });
+});
+
+describe('fixed unknown expenses', () => {
+  // 6,400 ₪ = 2,000 USD spread over the order instead of a 5% surcharge
+  const fixed = (changes: Partial<UserInputs> = {}) =>
+    defaultInputs({ unknownExpensesType: 'fixed', unknownExpensesValue: 6400, ...changes });
+
+  it('spreads the amount by factory value by default', () => {
+    const results = calculateResults(fixed());
+    expect(byId(results, 'small').landingCostUSD).toBeCloseTo(4.48 + 2000 * 4.48 / 19639.84, 9);
+    expect(byId(results, 'large').landingCostUSD).toBeCloseTo(5.79 + 2000 * 5.79 / 19639.84, 9);
+    expect(byId(results, 'small').priceUSD).toBeCloseTo(byId(results, 'small').landingCostUSD / 0.6, 9);
+  });
+
+  it('spreads the amount evenly over the units', () => {
+    const results = calculateResults(fixed({ unknownExpensesAllocation: 'perUnit' }));
+    for (const res of results) {
+      expect(res.landingCostUSD).toBeCloseTo(res.size.factoryPriceUSD + 2000 / 3856, 9);
+    }
+  });
+
+  it('counts the amount once in the order', () => {
+    const { results, summary } = calculateOrder(fixed());
+    expect(summary.totalUnknownExpensesILS).toBe(6400);
+    const expensesUSD = results.reduce((sum, res) => sum + res.totalExpensesUSD, 0);
+    expect(expensesUSD).toBeCloseTo(19639.84 + 2000, 6);
+  });
+
+  it('spreads the amount by list value for a catalog without supplier prices', () => {
+    // What a sales rep's catalog merges to: no factory price, the list price (₪, at the 40% margin) as a fixed price
+    const { products } = splitProducts(defaultProducts(), {
+      exchangeRates: DEFAULT_EXCHANGE_RATES, saleCurrency: 'ILS', unknownExpensesType: 'fixed', unknownExpensesValue: 0, salesMarginRange: { min: 30, max: 50 },
+    });
+    const stripped = mergeProducts(products).map((product, index) => ({ ...product, mixPercent: defaultProducts()[index].mixPercent }));
+    const results = calculateResults(fixed({ products: stripped }));
+    // List prices are in proportion to the factory prices, so the shares are those of the factory values
+    expect(byId(results, 'small').landingCostUSD).toBeCloseTo(2000 * 4.48 / 19639.84, 9);
+    expect(byId(results, 'large').landingCostUSD).toBeCloseTo(2000 * 5.79 / 19639.84, 9);
+  });
+});
+
+describe('landed-cost lines', () => {
+  const withLines = (costLines: UserInputs['costLines']) => defaultInputs({ costLines });
+
+  it('charges a percentage of FOB by factory value', () => {
+    const results = calculateResults(withLines([
+      { id: 'duty', name: 'מכס', currency: 'USD', basis: 'percentFOB', amount: 12, allocation: 'perValue' },
+    ]));
+    const small = byId(results, 'small');
+    expect(small.costLinesPerUnitUSD).toBeCloseTo(0.12 * 4.48, 9);
+    expect(small.landingCostUSD).toBeCloseTo(4.704 + 0.12 * 4.48, 9);
+    expect(small.costBreakdown).toEqual([
+      { lineId: 'duty', name: 'מכס', totalUSD: expect.closeTo(0.12 * 4.48 * 1816, 6), perUnitUSD: expect.closeTo(0.12 * 4.48, 9) },
+    ]);
+  });
+
+  it('includes the freight in a percentage of CIF', () => {
+    const { summary } = calculateOrder(withLines([
+      { id: 'vat', name: 'מע"מ יבוא', currency: 'USD', basis: 'percentCIF', amount: 17, allocation: 'perValue' },
+    ]));
+    expect(summary.totalCostLinesUSD).toBeCloseTo(0.17 * (19639.84 + 4000), 6);
+    expect(summary.costLineTotals).toEqual([{ lineId: 'vat', name: 'מע"מ יבוא', totalUSD: expect.closeTo(0.17 * 23639.84, 6) }]);
+  });
+
+  it('converts fixed, per-CBM and per-carton amounts from the line currency', () => {
+    const { results, summary } = calculateOrder(withLines([
+      { id: 'broker', name: 'עמיל מכס', currency: 'ILS', basis: 'fixed', amount: 1600, allocation: 'perCarton' },
+      { id: 'port', name: 'נמל', currency: 'USD', basis: 'perCBM', amount: 10, allocation: 'perCBM' },
+      { id: 'trucking', name: 'הובלה', currency: 'USD', basis: 'perCarton', amount: 1, allocation: 'perUnit' },
+    ]));
+    // 1,600 ₪ = 500 USD over 794 cartons; 10 USD × 67.012 CBM; 1 USD × 794 cartons
+    expect(summary.costLineTotals.map(line => line.totalUSD)).toEqual([
+      expect.closeTo(500, 9),
+      expect.closeTo(670.12, 9),
+      expect.closeTo(794, 9),
+    ]);
+    const broker = byId(results, 'small').costBreakdown.find(share => share.lineId === 'broker');
+    expect(broker?.totalUSD).toBeCloseTo(500 * 454 / 794, 9);
+    expect(byId(results, 'medium').costBreakdown.find(share => share.lineId === 'trucking')?.perUnitUSD).toBeCloseTo(794 / 3856, 9);
+  });
+});
+
+describe('containers', () => {
+  it('fills a high-cube container by its own volume', () => {
+    const { results, summary } = calculateOrder(defaultInputs({ containerType: '40HC' }));
+    expect(summary.containerCapacityCBM).toBeCloseTo(76.3, 9);
+    // 40% of 76.3 CBM = 30.52 CBM of 0.059 CBM cartons
+    expect(byId(results, 'small').cartons).toBe(517);
+  });
+
+  it('multiplies the capacity and the freight by the number of containers', () => {
+    const { results, summary } = calculateOrder(defaultInputs({ containerCount: 2 }));
+    expect(summary.containerCapacityCBM).toBeCloseTo(134.2, 9);
+    expect(summary.totalShippingCostUSD).toBe(8000);
+    expect(byId(results, 'small').cartons).toBe(909);
+  });
+
+  it('charges LCL freight per CBM shipped, as a single part-load', () => {
+    const { results, summary } = calculateOrder(defaultInputs({ containerType: 'LCL', containerCount: 3, shippingCostUSD: 100 }));
+    expect(summary.containerCapacityCBM).toBe(15);
+    expect(results.map(res => res.cartons)).toEqual([101, 40, 35]);
+    // 5.959 + 4.4 + 4.48 CBM at 100 USD
+    expect(summary.totalShippingCostUSD).toBeCloseTo(1483.9, 9);
+  });
+});
+
+describe('carton weight', () => {
+  it('caps a product at its share of the payload', () => {
+    const products = defaultProducts().map(p => p.id === 'small' ? { ...p, grossWeightKg: 30 } : p);
+    const { results, summary } = calculateOrder(defaultInputs({ products }));
+    // 40% of 26,700 kg = 10,680 kg of 30 kg cartons
+    expect(byId(results, 'small').cartons).toBe(356);
+    expect(byId(results, 'small').totalWeightKg).toBe(10680);
+    expect(summary.totalWeightKg).toBe(10680);
+    expect(summary.bindingConstraint).toBe('volume');
+  });
+
+  it('flags an order that reaches the payload before the volume', () => {
+    const products = defaultProducts().map(p => ({ ...p, grossWeightKg: 60 }));
+    const { results, summary } = calculateOrder(defaultInputs({ products }));
+    expect(results.map(res => res.cartons)).toEqual([178, 133, 133]);
+    expect(summary.payloadCapacityKg).toBe(26700);
+    expect(summary.bindingConstraint).toBe('weight');
+  });
+
+  it('fills the larger of the volume and weight shares with direct quantities', () => {
+    const products = defaultProducts().map(p => ({ ...p, mixPercent: undefined, quantity: p.id === 'small' ? 1000 : 0, grossWeightKg: 60 }));
+    const [small] = quantitiesToMixPercents(products, { containerType: '40' });
+    // 250 cartons × 60 kg of 26,700 kg
+    expect(small.mixPercent).toBeCloseTo((250 * 60 / 26700) * 100, 9);
+  });
+});
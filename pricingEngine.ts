@@ -0,0 +1,379 @@
+import { CONTAINER_TYPES } from './constants';
+import { convertCurrency } from './currency';
+import { getStrategyPriceUSD } from './pricingStrategy';
+import { getCustomerDiscountPercent, getTierFactoryPrice } from './priceTiers';
+import { UserInputs, CalculationResult, SummaryData, Product, OrderProduct, AllocationRule, CostLine, CostLineShare } from './types';
+
+// Pure pricing engine - no React, no Firestore. Takes the order inputs and returns
+// the per-product results and the order summary shown in the calculator.
+
+interface PreliminaryCalculation {
+  product: OrderProduct;
+  allocatedCBM: number;
+  cartons: number;
+  totalUnits: number;
+  actualCBM: number;
+  masterCBM: number;
+  totalWeightKg: number;
+}
+
+// Only active products take part in the calculation
+export const getActiveProducts = (products: OrderProduct[]): OrderProduct[] => {
+  return products.filter(p => p.active !== false);
+};
+
+// Step 1: Preliminary calculations for each product to get cartons, units, CBM and weight
+const allocateProduct = (product: OrderProduct, containerCBM: number, containerPayloadKg: number): PreliminaryCalculation => {
+  const masterCBM = product.masterCartonCBM;
+  const cartonWeightKg = product.grossWeightKg || 0;
+  let totalUnits = 0;
+  let allocatedCBM = 0;
+  let cartons = 0;
+
+  // If quantities are provided, use them directly
+  if (product.quantity && product.quantity > 0) {
+    totalUnits = product.quantity;
+    cartons = Math.ceil(totalUnits / product.unitsPerCarton);
+    allocatedCBM = cartons * masterCBM;
+  } else {
+    // Otherwise, use percentages of the container - of its volume and of its payload,
+    // whichever fills up first
+    const mixPercent = product.mixPercent || 0;
+    allocatedCBM = containerCBM * (mixPercent / 100);
+    cartons = Math.floor(allocatedCBM / masterCBM);
+    if (cartonWeightKg > 0) {
+      const allocatedWeightKg = containerPayloadKg * (mixPercent / 100);
+      cartons = Math.min(cartons, Math.floor(allocatedWeightKg / cartonWeightKg));
+    }
+    totalUnits = cartons * product.unitsPerCarton;
+    allocatedCBM = cartons * masterCBM;
+  }
+
+  return { product, allocatedCBM, cartons, totalUnits, actualCBM: allocatedCBM, masterCBM, totalWeightKg: cartons * cartonWeightKg };
+};
+
+// Factory price of a product converted from its purchase currency to USD - the price break the units reach
+export const getFactoryPriceUSD = (product: Product, inputs: Pick<UserInputs, 'exchangeRates'>, units = 0): number => {
+  return convertCurrency(getTierFactoryPrice(product, units), product.purchaseCurrency || 'USD', 'USD', inputs.exchangeRates);
+};
+
+// Number of containers in the order (LCL is always a single part-load)
+export const getContainerCount = (inputs: Pick<UserInputs, 'containerType' | 'containerCount'>): number => {
+  const container = CONTAINER_TYPES[inputs.containerType];
+  if (container.freightBasis === 'perCBM') return 1;
+  return Math.max(1, Math.floor(inputs.containerCount || 1));
+};
+
+// Usable CBM of the whole order (container capacity × number of containers)
+export const getContainerCapacityCBM = (inputs: Pick<UserInputs, 'containerType' | 'containerCount'>): number => {
+  return CONTAINER_TYPES[inputs.containerType].usableCBM * getContainerCount(inputs);
+};
+
+// Maximum payload of the whole order (container payload × number of containers)
+export const getContainerPayloadKg = (inputs: Pick<UserInputs, 'containerType' | 'containerCount'>): number => {
+  return CONTAINER_TYPES[inputs.containerType].maxPayloadKg * getContainerCount(inputs);
+};
+
+// Shipping cost of the whole order: per container for FCL, per CBM shipped for LCL
+export const getTotalShippingCostUSD = (inputs: UserInputs, shippedCBM: number): number => {
+  return CONTAINER_TYPES[inputs.containerType].freightBasis === 'perCBM'
+    ? inputs.shippingCostUSD * shippedCBM
+    : inputs.shippingCostUSD * getContainerCount(inputs);
+};
+
+// Convert direct quantities into the container percentage they occupy (by volume or by weight, whichever is larger)
+export const quantitiesToMixPercents = (products: OrderProduct[], inputs: Pick<UserInputs, 'containerType' | 'containerCount'>): OrderProduct[] => {
+  const totalCBM = getContainerCapacityCBM(inputs);
+  const totalPayloadKg = getContainerPayloadKg(inputs);
+  return products.map(product => {
+    const qty = product.quantity || 0;
+    const cartons = Math.ceil(qty / product.unitsPerCarton);
+    const cbmUsed = cartons * product.masterCartonCBM;
+    const weightUsedKg = cartons * (product.grossWeightKg || 0);
+    const volumePercent = totalCBM > 0 ? (cbmUsed / totalCBM) * 100 : 0;
+    const weightPercent = totalPayloadKg > 0 ? (weightUsedKg / totalPayloadKg) * 100 : 0;
+    return { ...product, mixPercent: Math.max(volumePercent, weightPercent) };
+  });
+};
+
+// Unknown expenses as an order total in ILS
+const getUnknownExpensesILS = (inputs: UserInputs, totalCustomerTransactionILS: number): number => {
+  return inputs.unknownExpensesType === 'percent'
+    ? totalCustomerTransactionILS * (inputs.unknownExpensesValue / 100)
+    : inputs.unknownExpensesValue;
+};
+
+// Weight of a row when splitting an order-level cost according to an allocation rule
+const getAllocationWeight = (rule: AllocationRule, row: PreliminaryCalculation): number => {
+  switch (rule) {
+    case 'perCBM':
+      return row.actualCBM;
+    case 'perValue':
+      return row.product.factoryPriceUSD * row.totalUnits;
+    case 'perCarton':
+      return row.cartons;
+    case 'perUnit':
+    default:
+      return row.totalUnits;
+  }
+};
+
+// List value of a row - the value weight of products priced without their factory price (sales reps)
+const getListValue = (row: PreliminaryCalculation): number => (row.product.salesPrice?.price || 0) * row.totalUnits;
+
+// Split an order-level amount between the rows according to an allocation rule
+const allocateAmount = (rows: PreliminaryCalculation[], rule: AllocationRule, amount: number): number[] => {
+  const totalWeight = rows.reduce((sum, row) => sum + getAllocationWeight(rule, row), 0);
+  if (totalWeight === 0 && rule === 'perValue') {
+    const totalListValue = rows.reduce((sum, row) => sum + getListValue(row), 0);
+    return rows.map(row => totalListValue > 0 ? (getListValue(row) / totalListValue) * amount : 0);
+  }
+  return rows.map(row => totalWeight > 0 ? (getAllocationWeight(rule, row) / totalWeight) * amount : 0);
+};
+
+// Order-level amount of a landed-cost line in USD.
+// Percentage bases are taken from the order's FOB (factory) or CIF (factory + freight) value in USD;
+// the line currency applies to fixed, per-CBM and per-carton amounts.
+const getCostLineTotalUSD = (line: CostLine, rows: PreliminaryCalculation[], inputs: UserInputs): number => {
+  const totalFOBUSD = rows.reduce((sum, row) => sum + row.product.factoryPriceUSD * row.totalUnits, 0);
+  const totalCBM = rows.reduce((sum, row) => sum + row.actualCBM, 0);
+  const totalCIFUSD = totalFOBUSD + getTotalShippingCostUSD(inputs, totalCBM);
+  const totalCartons = rows.reduce((sum, row) => sum + row.cartons, 0);
+
+  let amount = 0;
+  switch (line.basis) {
+    case 'percentFOB':
+      return totalFOBUSD * (line.amount / 100);
+    case 'percentCIF':
+      return totalCIFUSD * (line.amount / 100);
+    case 'perCBM':
+      amount = line.amount * totalCBM;
+      break;
+    case 'perCarton':
+      amount = line.amount * totalCartons;
+      break;
+    case 'fixed':
+    default:
+      amount = line.amount;
+  }
+  return convertCurrency(amount, line.currency, 'USD', inputs.exchangeRates);
+};
+
+// Calculate the per-product results for an order
+export const calculateResults = (inputs: UserInputs): CalculationResult[] => {
+  const containerCBM = getContainerCapacityCBM(inputs);
+  const containerPayloadKg = getContainerPayloadKg(inputs);
+  const usdRate = inputs.exchangeRates.USD;
+  const toSale = (amountUSD: number) => convertCurrency(amountUSD, 'USD', inputs.saleCurrency, inputs.exchangeRates);
+
+  // From here on every factory price is in USD, whatever currency the supplier quotes in,
+  // and at the price break of the units ordered
+  const preliminaryCalculations = getActiveProducts(inputs.products)
+    .map(product => allocateProduct(product, containerCBM, containerPayloadKg))
+    .map(pre => ({ ...pre, product: { ...pre.product, factoryPriceUSD: getFactoryPriceUSD(pre.product, inputs, pre.totalUnits) } }));
+
+  // Shipping cost split between the rows (units, CBM or factory value)
+  const shippedCBM = preliminaryCalculations.reduce((sum, pre) => sum + pre.actualCBM, 0);
+  const totalShippingCostUSD = getTotalShippingCostUSD(inputs, shippedCBM);
+  const shippingSharesUSD = allocateAmount(preliminaryCalculations, inputs.shippingAllocation || 'perUnit', totalShippingCostUSD);
+
+  // Landed-cost lines (duty, VAT, port, broker, trucking...) split between the rows by each line's own rule
+  const costLineSharesUSD = (inputs.costLines || []).map(line =>
+    allocateAmount(preliminaryCalculations, line.allocation, getCostLineTotalUSD(line, preliminaryCalculations, inputs))
+  );
+
+  // Fixed-amount unknown expenses are spread over the order in ILS (by factory value or by units)
+  const isFixedExpenses = inputs.unknownExpensesType === 'fixed';
+  const fixedExpensesSharesILS = isFixedExpenses
+    ? allocateAmount(preliminaryCalculations, inputs.unknownExpensesAllocation || 'perValue', inputs.unknownExpensesValue)
+    : preliminaryCalculations.map(() => 0);
+
+  // Step 2: Calculate all prices first to get total customer transaction
+  const resultsWithPrices = preliminaryCalculations.map((pre, index) => {
+    const { product, totalUnits } = pre;
+
+    // This row's landed-cost lines, per line and per unit
+    const costBreakdown: CostLineShare[] = (inputs.costLines || []).map((line, lineIndex) => {
+      const totalUSD = costLineSharesUSD[lineIndex][index];
+      return {
+        lineId: line.id,
+        name: line.name,
+        totalUSD,
+        perUnitUSD: totalUnits > 0 ? totalUSD / totalUnits : 0,
+      };
+    });
+    const costLinesPerUnitUSD = costBreakdown.reduce((sum, share) => sum + share.perUnitUSD, 0);
+
+    // This row's share of a fixed unknown-expenses amount, per unit
+    const fixedExpensesShareILS = fixedExpensesSharesILS[index];
+    const fixedExpensesPerUnitUSD = totalUnits > 0 && usdRate > 0
+      ? fixedExpensesShareILS / totalUnits / usdRate
+      : 0;
+
+    // Calculate customer price: (factoryPrice * (1 + unknownExpenses%)) / (1 - margin%)
+    // In fixed mode the surcharge is the row's per-unit share of the fixed amount instead of a percentage
+    // Margin applies to factory price + surcharge, using individual profit margin - or the product's
+    // other pricing strategy (markup, fixed or target price), less the volume discount of the units'
+    // customer tier, price rounding included
+    const surchargeMultiplier = isFixedExpenses ? 1 : 1 + (inputs.unknownExpensesValue / 100);
+    const factoryPriceWithSurchargeUSD = product.factoryPriceUSD * surchargeMultiplier;
+    const landingCostUSD = factoryPriceWithSurchargeUSD + fixedExpensesPerUnitUSD + costLinesPerUnitUSD;
+    const shippingPerUnitUSD = totalUnits > 0 ? shippingSharesUSD[index] / totalUnits : 0;
+    const customerDiscountPercent = getCustomerDiscountPercent(product, totalUnits);
+    const priceUSD = getStrategyPriceUSD(product, landingCostUSD, shippingPerUnitUSD, inputs, customerDiscountPercent);
+    const priceILS = priceUSD * usdRate;
+
+    // Landing cost for profit calculation (factory price + surcharge + landed-cost lines as expenses)
+    const landingCostILS = landingCostUSD * usdRate;
+
+    // Total factory price with surcharge
+    const totalFactoryPriceUSD = factoryPriceWithSurchargeUSD * totalUnits;
+    const customerTotalTransaction = priceILS * totalUnits;
+
+    return {
+      ...pre,
+      priceUSD,
+      priceILS,
+      landingCostUSD,
+      landingCostILS,
+      totalFactoryPriceUSD,
+      fixedExpensesShareILS,
+      costBreakdown,
+      costLinesPerUnitUSD,
+      shippingPerUnitUSD,
+      customerDiscountPercent,
+      customerTotalTransaction
+    };
+  });
+
+  // Calculate total customer transaction and unknown expenses
+  const totalCustomerTransaction = resultsWithPrices.reduce((sum, r) => sum + r.customerTotalTransaction, 0);
+  const totalUnknownExpensesILS = getUnknownExpensesILS(inputs, totalCustomerTransaction);
+  const totalUnknownExpensesUSD = totalUnknownExpensesILS / usdRate;
+
+  // Calculate total factory price for distribution
+  const totalFactoryPriceAll = resultsWithPrices.reduce((sum, r) => sum + r.totalFactoryPriceUSD, 0);
+
+  // Step 3: Final calculations with total expenses
+  return resultsWithPrices.map((pre, index) => {
+    const { product, cartons, totalUnits, actualCBM, masterCBM, totalWeightKg, priceUSD, priceILS, landingCostUSD, landingCostILS, totalFactoryPriceUSD, fixedExpensesShareILS, costBreakdown, costLinesPerUnitUSD, shippingPerUnitUSD, customerDiscountPercent } = pre;
+
+    // Profit = (customer price - landing cost) × quantity
+    const profitPerUnitILS = priceILS - landingCostILS;
+    const totalProfitILS = profitPerUnitILS * totalUnits;
+    const totalProfitUSD = totalProfitILS / usdRate;
+
+    // Calculate proportional unknown expenses for this row
+    const proportionalUnknownExpensesUSD = isFixedExpenses
+      ? fixedExpensesShareILS / usdRate
+      : totalFactoryPriceAll > 0
+        ? (totalFactoryPriceUSD / totalFactoryPriceAll) * totalUnknownExpensesUSD
+        : 0;
+
+    // Total expenses = factory price + proportional unknown expenses + landed-cost lines
+    const totalExpensesUSD = totalFactoryPriceUSD + proportionalUnknownExpensesUSD + costLinesPerUnitUSD * totalUnits;
+
+    // This row's share of the shipping cost, spread over its own units
+    const shippingPerUnitILS = shippingPerUnitUSD * usdRate;
+
+    // Calculate customer price with shipping
+    const priceWithShippingUSD = priceUSD + shippingPerUnitUSD;
+    const priceWithShippingILS = priceILS + shippingPerUnitILS;
+
+    // BoxSizeData-like object for compatibility with existing table rendering
+    const sizeData = {
+      id: product.id,
+      name: product.name,
+      dimensions: product.dimensions, // Use dimensions description for customer
+      internalDimensions: '', // Not used in new system
+      masterCBM: masterCBM,
+      unitsPerCarton: product.unitsPerCarton,
+      factoryPriceUSD: product.factoryPriceUSD,
+    };
+
+    return {
+      size: sizeData,
+      allocatedCBM: actualCBM,
+      cartons,
+      totalUnits,
+      totalCBM: actualCBM,
+      totalWeightKg,
+      totalFactoryPriceUSD,
+      totalExpensesUSD,
+      priceUSD,
+      priceILS,
+      landingCostUSD,
+      landingCostILS,
+      totalProfitILS,
+      totalProfitUSD,
+      shippingPerUnitUSD,
+      shippingPerUnitILS,
+      priceWithShippingUSD,
+      priceWithShippingILS,
+      priceSale: toSale(priceUSD),
+      shippingPerUnitSale: toSale(shippingPerUnitUSD),
+      priceWithShippingSale: toSale(priceWithShippingUSD),
+      costLinesPerUnitUSD,
+      costBreakdown,
+      customerDiscountPercent,
+      productProfitMargin: priceUSD > 0 ? Math.round(((priceUSD - landingCostUSD) / priceUSD) * 1000) / 10 : 0,
+    };
+  });
+};
+
+// Aggregate the per-product results into the order summary
+export const calculateSummary = (inputs: UserInputs, results: CalculationResult[]): SummaryData => {
+  const baseSummary = results.reduce<Omit<SummaryData, 'totalUnknownExpensesILS' | 'costLineTotals' | 'containerCapacityCBM' | 'totalShippingCostUSD' | 'payloadCapacityKg' | 'bindingConstraint' | 'totalRevenueSale'>>((acc, curr) => ({
+    totalUnits: acc.totalUnits + curr.totalUnits,
+    totalCBMUtilized: acc.totalCBMUtilized + curr.allocatedCBM,
+    totalCBM: acc.totalCBM + curr.totalCBM,
+    totalWeightKg: acc.totalWeightKg + curr.totalWeightKg,
+    totalFactoryPriceUSD: acc.totalFactoryPriceUSD + curr.totalFactoryPriceUSD,
+    totalInvestmentUSD: acc.totalInvestmentUSD + (curr.totalUnits * curr.size.factoryPriceUSD),
+    totalProfitILS: acc.totalProfitILS + curr.totalProfitILS,
+    totalCostLinesUSD: acc.totalCostLinesUSD + (curr.costLinesPerUnitUSD * curr.totalUnits)
+  }), {
+    totalUnits: 0,
+    totalCBMUtilized: 0,
+    totalCBM: 0,
+    totalWeightKg: 0,
+    totalFactoryPriceUSD: 0,
+    totalInvestmentUSD: 0,
+    totalProfitILS: 0,
+    totalCostLinesUSD: 0
+  });
+
+  // Unknown expenses as total (not per row) - for display only, the surcharge is already in the profit
+  const totalCustomerTransaction = results.reduce((sum, curr) => sum + (curr.priceILS * curr.totalUnits), 0);
+  const totalUnknownExpensesILS = getUnknownExpensesILS(inputs, totalCustomerTransaction);
+
+  // Order total of every landed-cost line
+  const costLineTotals = (inputs.costLines || []).map(line => ({
+    lineId: line.id,
+    name: line.name,
+    totalUSD: results.reduce((sum, curr) => sum + (curr.costBreakdown.find(share => share.lineId === line.id)?.totalUSD || 0), 0),
+  }));
+
+  // Weight binds when the order fills a larger share of the payload than of the volume
+  const containerCapacityCBM = getContainerCapacityCBM(inputs);
+  const payloadCapacityKg = getContainerPayloadKg(inputs);
+  const volumeUtilization = containerCapacityCBM > 0 ? baseSummary.totalCBM / containerCapacityCBM : 0;
+  const weightUtilization = payloadCapacityKg > 0 ? baseSummary.totalWeightKg / payloadCapacityKg : 0;
+
+  return {
+    ...baseSummary,
+    totalRevenueSale: results.reduce((sum, curr) => sum + (curr.priceWithShippingSale * curr.totalUnits), 0),
+    totalUnknownExpensesILS,
+    containerCapacityCBM,
+    payloadCapacityKg,
+    bindingConstraint: weightUtilization > volumeUtilization ? 'weight' : 'volume',
+    totalShippingCostUSD: getTotalShippingCostUSD(inputs, baseSummary.totalCBM),
+    costLineTotals
+  };
+};
+
+// Full order calculation: per-product results plus summary
+export const calculateOrder = (inputs: UserInputs): { results: CalculationResult[]; summary: SummaryData } => {
+  const results = calculateResults(inputs);
+  return { results, summary: calculateSummary(inputs, results) };
+};
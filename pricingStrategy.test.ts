@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { roundPrice, getStrategyPriceUSD, describePricingRule } from './pricingStrategy';
+import { calculateResults } from './pricingEngine';
+import { DEFAULT_EXCHANGE_RATES } from './constants';
+import { CalculationResult, PricingRule } from './types';
+import { withSmall } from './testFixtures';
+
+// The default order (testFixtures.ts) with a pricing rule on Small: landing cost $4.704, ₪25.088 at
+// its 40% margin
+const smallResult = (pricing?: PricingRule): CalculationResult =>
+  calculateResults(withSmall({ pricing })).find(res => res.size.id === 'small')!;
+
+describe('roundPrice', () => {
+  it('rounds up to the next price ending in .90', () => {
+    expect(roundPrice(19.2, 'to90')).toBeCloseTo(19.9, 9);
+    expect(roundPrice(19.9, 'to90')).toBeCloseTo(19.9, 9);
+    expect(roundPrice(19.91, 'to90')).toBeCloseTo(20.9, 9);
+  });
+
+  it('rounds up to a whole unit and to a multiple of 5', () => {
+    expect(roundPrice(25.088, 'whole')).toBe(26);
+    expect(roundPrice(26, 'whole')).toBe(26);
+    expect(roundPrice(25.088, 'to5')).toBe(30);
+    expect(roundPrice(25, 'to5')).toBe(25);
+  });
+
+  it('keeps float noise from pushing an exact price to the next step', () => {
+    expect(roundPrice(0.1 + 0.2 + 24.7, 'to5')).toBe(25);
+    expect(roundPrice(25.088, 'none')).toBe(25.088);
+  });
+});
+
+describe('getStrategyPriceUSD', () => {
+  const inputs = { exchangeRates: DEFAULT_EXCHANGE_RATES, saleCurrency: 'ILS' as const };
+
+  it('prices a margin on the price and a markup on the landing cost', () => {
+    expect(getStrategyPriceUSD({ profitMargin: 40 }, 4.704, 1, inputs)).toBeCloseTo(7.84, 9);
+    expect(getStrategyPriceUSD({ profitMargin: 40, pricing: { strategy: 'markup', markupPercent: 60 } }, 4.704, 1, inputs)).toBeCloseTo(7.5264, 9);
+  });
+
+  it('converts a fixed price and takes shipping off a target price', () => {
+    expect(getStrategyPriceUSD({ profitMargin: 40, pricing: { strategy: 'fixedPrice', price: 32 } }, 4.704, 1, inputs)).toBeCloseTo(10, 9);
+    expect(getStrategyPriceUSD({ profitMargin: 40, pricing: { strategy: 'targetPrice', price: 10, priceCurrency: 'USD' } }, 4.704, 1, inputs)).toBeCloseTo(9, 9);
+  });
+
+  it('takes the volume discount off before rounding in the sale currency', () => {
+    const pricing: PricingRule = { strategy: 'margin', rounding: 'to90' };
+    // ₪25.088 less 10% = ₪22.5792, rounded to ₪22.90
+    expect(getStrategyPriceUSD({ profitMargin: 40, pricing }, 4.704, 0, inputs, 10)).toBeCloseTo(22.9 / 3.2, 9);
+  });
+});
+
+describe('pricing rules in the engine', () => {
+  it('reports the rounded price and the profit and margin it gives', () => {
+    const result = smallResult({ strategy: 'margin', rounding: 'to90' });
+    expect(result.priceILS).toBeCloseTo(25.9, 9);
+    expect(result.totalProfitILS).toBeCloseTo((25.9 - 4.704 * 3.2) * 1816, 6);
+    expect(result.productProfitMargin).toBe(41.9);
+  });
+
+  it('prices a fixed price as given and a target price so that it includes shipping', () => {
+    expect(smallResult({ strategy: 'fixedPrice', price: 28 }).priceILS).toBeCloseTo(28, 9);
+    expect(smallResult({ strategy: 'fixedPrice', price: 9, priceCurrency: 'USD' }).priceILS).toBeCloseTo(28.8, 9);
+    expect(smallResult({ strategy: 'targetPrice', price: 30 }).priceWithShippingILS).toBeCloseTo(30, 9);
+  });
+
+  it('leaves the other products at their margin', () => {
+    const results = calculateResults(withSmall({ pricing: { strategy: 'markup', markupPercent: 60 } }));
+    expect(results.find(res => res.size.id === 'small')!.priceUSD).toBeCloseTo(7.5264, 9);
+    expect(results.find(res => res.size.id === 'medium')!.priceILS).toBeCloseTo(30.856, 9);
+  });
+});
+
+describe('describePricingRule', () => {
+  it('names the strategy with its amount and rounding', () => {
+    expect(describePricingRule({ strategy: 'markup', markupPercent: 60, rounding: 'to90' })).toContain('60%');
+    expect(describePricingRule({ strategy: 'fixedPrice', price: 28 })).toContain('28');
+  });
+});
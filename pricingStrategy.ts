@@ -0,0 +1,80 @@
+import { Product, PriceRounding, PricingRule, UserInputs } from './types';
+import { PRICING_STRATEGY_LABELS, PRICE_ROUNDING_LABELS } from './constants';
+import { convertCurrency, formatCurrency } from './currency';
+
+// Customer unit price of a product according to its pricing strategy - margin on the price, markup on
+// the landing cost, a fixed price or a target price including shipping - with the price rounding applied.
+
+// Round a price up to the next price ending in .90, whole unit or multiple of 5
+export const roundPrice = (price: number, rounding: PriceRounding = 'none'): number => {
+  if (price <= 0) return price;
+  // Cents first, so float noise does not push an exact price to the next step
+  const cents = Math.round(price * 100) / 100;
+  switch (rounding) {
+    case 'to90':
+      return Math.ceil(cents + 0.1 - 1e-9) - 0.1;
+    case 'whole':
+      return Math.ceil(cents - 1e-9);
+    case 'to5':
+      return Math.ceil(cents / 5 - 1e-9) * 5;
+    case 'none':
+    default:
+      return price;
+  }
+};
+
+// Unit price before shipping in USD, with a volume discount (percent) taken off before rounding
+export const getStrategyPriceUSD = (
+  product: Pick<Product, 'profitMargin' | 'pricing'>,
+  landingCostUSD: number,
+  shippingPerUnitUSD: number,
+  inputs: Pick<UserInputs, 'exchangeRates' | 'saleCurrency'>,
+  discountPercent = 0
+): number => {
+  const rule = product.pricing;
+  const toUSD = (amount: number) => convertCurrency(amount, rule?.priceCurrency || 'ILS', 'USD', inputs.exchangeRates);
+  const discountFactor = 1 - discountPercent / 100;
+
+  let priceUSD: number;
+  switch (rule?.strategy || 'margin') {
+    case 'fixedPrice':
+      return toUSD(rule?.price || 0) * discountFactor;
+    case 'targetPrice':
+      // The customer pays the target including shipping, so shipping comes off the price
+      return Math.max(0, toUSD(rule?.price || 0) * discountFactor - shippingPerUnitUSD);
+    case 'markup':
+      priceUSD = landingCostUSD * (1 + (rule?.markupPercent || 0) / 100) * discountFactor;
+      break;
+    case 'margin':
+    default: {
+      const marginFactor = 1 - (product.profitMargin / 100);
+      priceUSD = marginFactor > 0 ? (landingCostUSD / marginFactor) * discountFactor : 0;
+    }
+  }
+
+  if (!rule?.rounding || rule.rounding === 'none') {
+    return priceUSD;
+  }
+  const roundedSale = roundPrice(convertCurrency(priceUSD, 'USD', inputs.saleCurrency, inputs.exchangeRates), rule.rounding);
+  return convertCurrency(roundedSale, inputs.saleCurrency, 'USD', inputs.exchangeRates);
+};
+
+// Whether the product's price follows its profit margin (and so a margin change moves it)
+export const isMarginPriced = (product: Pick<Product, 'pricing'>): boolean => {
+  return !product.pricing || product.pricing.strategy === 'margin';
+};
+
+// Short description of a pricing rule, e.g. "תוספת על העלות 60%, לסיומת 90"
+export const describePricingRule = (rule?: PricingRule): string => {
+  if (!rule) return PRICING_STRATEGY_LABELS.margin;
+  const parts = [PRICING_STRATEGY_LABELS[rule.strategy]];
+  if (rule.strategy === 'markup') {
+    parts[0] += ` ${rule.markupPercent || 0}%`;
+  } else if (rule.strategy === 'fixedPrice' || rule.strategy === 'targetPrice') {
+    parts[0] += ` ${formatCurrency(rule.price || 0, rule.priceCurrency || 'ILS')}`;
+  }
+  if ((rule.strategy === 'margin' || rule.strategy === 'markup') && rule.rounding && rule.rounding !== 'none') {
+    parts.push(PRICE_ROUNDING_LABELS[rule.rounding]);
+  }
+  return parts.join(', ');
+};
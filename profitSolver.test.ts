@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { getBreakEvenPrices, profitAtQuotedPrices, solveForTarget } from './profitSolver';
+import { calculateResults } from './pricingEngine';
+import { CalculationResult, UserInputs } from './types';
+import { defaultInputs, withSmall } from './testFixtures';
+
+// The default order (testFixtures.ts) makes ₪43,993.24 at its 40% margins
+
+const profitOf = (results: CalculationResult[], productId?: string): number =>
+  results.filter(res => !productId || res.size.id === productId).reduce((sum, res) => sum + res.totalProfitILS, 0);
+
+const withMargins = (inputs: UserInputs, margins: Record<string, number>): UserInputs => ({
+  ...inputs,
+  products: inputs.products.map(product => ({ ...product, profitMargin: margins[product.id] ?? product.profitMargin })),
+});
+
+const withQuantities = (inputs: UserInputs, quantities: Record<string, number>): UserInputs => ({
+  ...inputs,
+  products: inputs.products.map(product => ({ ...product, quantity: quantities[product.id] ?? 0, mixPercent: 0 })),
+});
+
+describe('solveForTarget: margin', () => {
+  it('finds the margin that makes the target, across the order and for one product', () => {
+    const inputs = defaultInputs();
+    const order = solveForTarget(inputs, { unknown: 'margin', targetProfitILS: 60000 });
+    expect(order.feasible).toBe(true);
+    expect(order.value).toBeGreaterThan(40);
+    expect(profitOf(calculateResults(withMargins(inputs, order.margins!)))).toBeCloseTo(60000, 4);
+
+    const small = solveForTarget(inputs, { unknown: 'margin', targetProfitILS: 0, productId: 'small' });
+    expect(small.value).toBeCloseTo(0, 9);
+    expect(small.margins).toEqual({ small: small.value });
+  });
+
+  it('keeps the profit of products that are not priced by margin', () => {
+    const inputs = withSmall({ pricing: { strategy: 'fixedPrice', price: 28 } });
+    const solution = solveForTarget(inputs, { unknown: 'margin', targetProfitILS: 60000 });
+    expect(Object.keys(solution.margins!)).toEqual(['medium', 'large']);
+    expect(profitOf(calculateResults(withMargins(inputs, solution.margins!)))).toBeCloseTo(60000, 4);
+    expect(solveForTarget(inputs, { unknown: 'margin', targetProfitILS: 0, productId: 'small' }).feasible).toBe(false);
+  });
+
+  it('refuses a target reached only by selling below cost', () => {
+    const solution = solveForTarget(defaultInputs(), { unknown: 'margin', targetProfitILS: -10000 });
+    expect(solution.feasible).toBe(false);
+    expect(solution.value).toBeLessThan(0);
+  });
+});
+
+describe('solveForTarget: rate', () => {
+  it('finds the USD rate at which the quoted prices break even', () => {
+    const inputs = defaultInputs();
+    const solution = solveForTarget(inputs, { unknown: 'rate', targetProfitILS: 0 });
+    expect(solution.feasible).toBe(true);
+    // Quoted at ₪7.84 / $4.704 per unit, the landing costs eat the price at 3.2 / 0.6
+    expect(solution.value).toBeCloseTo(3.2 / 0.6, 6);
+    const atRate = { ...inputs, exchangeRates: { ...inputs.exchangeRates, USD: solution.value! } };
+    expect(profitAtQuotedPrices(calculateResults(inputs), atRate, false)).toBeCloseTo(0, 4);
+  });
+
+  it('reports no rate when the customer pays in dollars', () => {
+    expect(solveForTarget(defaultInputs({ saleCurrency: 'USD' }), { unknown: 'rate', targetProfitILS: 0 }).feasible).toBe(false);
+  });
+});
+
+describe('solveForTarget: shipping', () => {
+  it('finds the freight the quoted prices can carry', () => {
+    const inputs = defaultInputs();
+    const solution = solveForTarget(inputs, { unknown: 'shipping', targetProfitILS: 30000 });
+    expect(solution.feasible).toBe(true);
+    expect(solution.value).toBeGreaterThan(4000);
+    const atShipping = { ...inputs, shippingCostUSD: solution.value! };
+    expect(profitAtQuotedPrices(calculateResults(inputs), atShipping, true)).toBeCloseTo(30000, 4);
+  });
+
+  it('returns no freight at all when the target is what the prices make without it', () => {
+    const inputs = defaultInputs();
+    const withoutShipping = profitAtQuotedPrices(calculateResults(inputs), { ...inputs, shippingCostUSD: 0 }, true);
+    expect(solveForTarget(inputs, { unknown: 'shipping', targetProfitILS: withoutShipping })).toEqual({ feasible: true, value: 0 });
+    expect(solveForTarget(inputs, { unknown: 'shipping', targetProfitILS: withoutShipping + 1 }).feasible).toBe(false);
+  });
+});
+
+describe('solveForTarget: quantity', () => {
+  // Small makes ₪10.0352 a unit at its 40% margin
+  it('orders the fewest whole cartons of the product that make the target', () => {
+    const inputs = defaultInputs();
+    const solution = solveForTarget(inputs, { unknown: 'quantity', targetProfitILS: 5000, productId: 'small' });
+    expect(solution.feasible).toBe(true);
+    const { small } = solution.quantities!;
+    expect(small % 4).toBe(0);
+    const current = Object.fromEntries(calculateResults(inputs).map(res => [res.size.id, res.totalUnits]));
+    expect(profitOf(calculateResults(withQuantities(inputs, { ...current, small })), 'small')).toBeGreaterThanOrEqual(5000);
+    expect(profitOf(calculateResults(withQuantities(inputs, { ...current, small: small - 4 })), 'small')).toBeLessThan(5000);
+  });
+
+  it('stops at one carton when a carton already makes the target', () => {
+    const solution = solveForTarget(defaultInputs(), { unknown: 'quantity', targetProfitILS: 10, productId: 'small' });
+    expect(solution.quantities).toEqual({ small: 4 });
+  });
+
+  it('searches past the current units and flags an order that no longer fits', () => {
+    const solution = solveForTarget(defaultInputs(), { unknown: 'quantity', targetProfitILS: 100000, productId: 'small' });
+    expect(solution.feasible).toBe(true);
+    expect(solution.value).toBeGreaterThan(9900);
+    expect(solution.exceedsCapacity).toBe(true);
+  });
+
+  it('reports no quantity for a product sold below its cost', () => {
+    const inputs = withSmall({ pricing: { strategy: 'fixedPrice', price: 10 } });
+    expect(solveForTarget(inputs, { unknown: 'quantity', targetProfitILS: 1000, productId: 'small' }).feasible).toBe(false);
+  });
+});
+
+describe('getBreakEvenPrices', () => {
+  it('prices each product at its landing cost plus its freight, in the sale currency', () => {
+    const [small, medium] = getBreakEvenPrices(defaultInputs());
+    // $4,000 freight over 3,856 units
+    expect(small).toEqual({ productId: 'small', name: 'Small', priceSale: expect.closeTo((4.704 + 4000 / 3856) * 3.2, 9) });
+    expect(medium.priceSale).toBeCloseTo((5.51 * 1.05 + 4000 / 3856) * 3.2, 9);
+  });
+});
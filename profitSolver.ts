@@ -0,0 +1,246 @@
+import { CalculationResult, UserInputs } from './types';
+import { calculateOrder, calculateResults, getActiveProducts } from './pricingEngine';
+import { convertCurrency } from './currency';
+import { isMarginPriced } from './pricingStrategy';
+
+// Break-even and target-profit solver: finds the value of one unknown - the margin, the USD rate,
+// the shipping cost or the quantity - at which the order (or one product) makes a target profit.
+// The margin has a closed form: the price is landing × (1 - volume discount) / (1 - margin), so the
+// revenue, and with it the profit, follows 1 / (1 - margin). The other unknowns are searched through
+// the pricing engine itself, so every cost rule applies exactly as in the order.
+//
+// Rate and shipping cost are solved with the customer prices held at what the order quotes now:
+// the question is how far the rate or the freight can move before the quoted prices stop paying.
+
+export type SolverUnknown = 'margin' | 'rate' | 'shipping' | 'quantity';
+
+export interface SolverOptions {
+  unknown: SolverUnknown;
+  targetProfitILS: number; // 0 for break-even
+  productId?: string; // Solve for this product's own profit; unset - uniformly across the order
+}
+
+export interface SolverSolution {
+  feasible: boolean;
+  value?: number; // Margin %, ILS per USD, shipping cost in USD (per container, or per CBM for LCL) or units
+  margins?: Record<string, number>; // margin: the margin of every solved product
+  quantities?: Record<string, number>; // quantity: the units of every solved product
+  exceedsCapacity?: boolean; // quantity: the solved order no longer fits the containers
+  message?: string;
+}
+
+export interface BreakEvenPrice {
+  productId: string;
+  name: string;
+  priceSale: number; // Customer unit price including shipping at which the product makes no profit
+}
+
+const SEARCH_STEPS = 60;
+
+// Profit of the order or of one product
+const profitOf = (results: CalculationResult[], productId?: string): number =>
+  results
+    .filter(res => !productId || res.size.id === productId)
+    .reduce((sum, res) => sum + res.totalProfitILS, 0);
+
+// Profit when the customer keeps paying the currently quoted prices (in the sale currency) while the
+// costs follow the given inputs. withShipping: the quoted price includes shipping, which is then a cost.
+export const profitAtQuotedPrices = (
+  quoted: CalculationResult[],
+  inputs: UserInputs,
+  withShipping: boolean,
+  productId?: string
+): number => {
+  const results = calculateResults(inputs);
+  return results
+    .filter(res => !productId || res.size.id === productId)
+    .reduce((sum, res) => {
+      const quote = quoted.find(q => q.size.id === res.size.id);
+      if (!quote) return sum;
+      const quotedSale = withShipping ? quote.priceWithShippingSale : quote.priceSale;
+      const priceILS = convertCurrency(quotedSale, inputs.saleCurrency, 'ILS', inputs.exchangeRates);
+      const costILS = res.landingCostILS + (withShipping ? res.shippingPerUnitILS : 0);
+      return sum + (priceILS - costILS) * res.totalUnits;
+    }, 0);
+};
+
+// Bisection for f(x) = target on [lo, hi]; null when the target is not between f(lo) and f(hi).
+// Returns the end of the last bracket on hi's side, so that a step function (quantities rounded to
+// whole cartons) is at the target there and not just short of it.
+const bisect = (f: (x: number) => number, target: number, lo: number, hi: number): number | null => {
+  const fLo = f(lo) - target;
+  const fHi = f(hi) - target;
+  if (fLo === 0) return lo;
+  if (fHi === 0) return hi;
+  if (Math.sign(fLo) === Math.sign(fHi)) return null;
+  let a = lo;
+  let b = hi;
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const mid = (a + b) / 2;
+    if (Math.sign(f(mid) - target) === Math.sign(fLo)) {
+      a = mid;
+    } else {
+      b = mid;
+    }
+  }
+  return b;
+};
+
+// Only products priced by margin are solved; the others keep the price their strategy sets.
+// Price rounding only rounds up, so the rounded prices still reach the target.
+const solveMargin = (inputs: UserInputs, results: CalculationResult[], options: SolverOptions): SolverSolution => {
+  const marginPricedIds = new Set(inputs.products.filter(isMarginPriced).map(product => product.id));
+  if (options.productId && !marginPricedIds.has(options.productId)) {
+    return { feasible: false, message: 'המחיר של המוצר אינו נקבע לפי רווחיות' };
+  }
+  const solved = results.filter(res =>
+    res.totalUnits > 0 && marginPricedIds.has(res.size.id) && (!options.productId || res.size.id === options.productId)
+  );
+  // Landing cost of the solved units in ILS - the base the margin is earned on
+  const landingILS = solved.reduce((sum, res) => sum + res.landingCostILS * res.totalUnits, 0);
+  if (landingILS <= 0) {
+    return { feasible: false, message: 'אין יחידות עם עלות נחיתה לחישוב' };
+  }
+  // The same base after the volume discounts, which the margin's price is cut by
+  const discountedLandingILS = solved.reduce(
+    (sum, res) => sum + res.landingCostILS * res.totalUnits * (1 - res.customerDiscountPercent / 100),
+    0
+  );
+  // Products outside the solved set keep their profit (per product the target is the product's own)
+  const otherProfit = options.productId ? 0 : profitOf(results.filter(res => !solved.includes(res)));
+  // Revenue needed from the solved units: discountedLanding / (1 - margin) = target - other profit + landing
+  const revenueILS = options.targetProfitILS - otherProfit + landingILS;
+  if (revenueILS <= 0 || discountedLandingILS <= 0) {
+    return { feasible: false, message: 'יעד הרווח אינו ניתן להשגה' };
+  }
+  const margin = (1 - discountedLandingILS / revenueILS) * 100;
+  if (margin < 0) {
+    return { feasible: false, value: margin, message: 'היעד מושג רק במרווח שלילי - מכירה מתחת לעלות' };
+  }
+  const ids = options.productId
+    ? [options.productId]
+    : getActiveProducts(inputs.products).filter(isMarginPriced).map(product => product.id);
+  return { feasible: true, value: margin, margins: Object.fromEntries(ids.map(id => [id, margin])) };
+};
+
+const solveRate = (inputs: UserInputs, results: CalculationResult[], options: SolverOptions): SolverSolution => {
+  const current = inputs.exchangeRates.USD;
+  const f = (rate: number) => profitAtQuotedPrices(
+    results,
+    { ...inputs, exchangeRates: { ...inputs.exchangeRates, USD: rate } },
+    false,
+    options.productId
+  );
+  const rate = bisect(f, options.targetProfitILS, current / 100, current * 100);
+  if (rate === null) {
+    return {
+      feasible: false,
+      message: inputs.saleCurrency === 'USD'
+        ? 'כשהמחיר ללקוח בדולר, שינוי שער הדולר אינו משנה את הרווח באופן שמגיע ליעד'
+        : 'אין שער דולר סביר שבו המחירים הנוכחיים מגיעים ליעד',
+    };
+  }
+  return { feasible: true, value: rate };
+};
+
+const solveShipping = (inputs: UserInputs, results: CalculationResult[], options: SolverOptions): SolverSolution => {
+  const f = (shippingCostUSD: number) => profitAtQuotedPrices(results, { ...inputs, shippingCostUSD }, true, options.productId);
+  if (f(0) < options.targetProfitILS) {
+    return { feasible: false, message: 'גם ללא עלות שילוח המחירים הנוכחיים אינם מגיעים ליעד' };
+  }
+  // Double the upper bound until the profit falls below the target
+  let hi = Math.max(inputs.shippingCostUSD, 1000);
+  for (let step = 0; step < 40 && f(hi) >= options.targetProfitILS; step++) {
+    hi *= 2;
+  }
+  const shippingCostUSD = bisect(f, options.targetProfitILS, 0, hi);
+  if (shippingCostUSD === null) {
+    return { feasible: false, message: 'עלות השילוח אינה משפיעה על רווח המוצר' };
+  }
+  return { feasible: true, value: shippingCostUSD };
+};
+
+// Quantities rounded up to whole cartons; a line without units stays empty
+const withQuantities = (inputs: UserInputs, quantities: Record<string, number>): UserInputs => ({
+  ...inputs,
+  products: inputs.products.map(product => {
+    const quantity = quantities[product.id];
+    if (quantity === undefined) {
+      return product;
+    }
+    const cartons = quantity > 0 ? Math.max(1, Math.ceil(quantity / product.unitsPerCarton)) : 0;
+    return { ...product, quantity: cartons * product.unitsPerCarton, mixPercent: 0 };
+  }),
+});
+
+// Quantities of the given products, rounded up to whole cartons
+const roundedQuantities = (inputs: UserInputs, quantities: Record<string, number>): Record<string, number> => {
+  const rounded = withQuantities(inputs, quantities);
+  return Object.fromEntries(Object.keys(quantities).map(id => [id, rounded.products.find(p => p.id === id)?.quantity || 0]));
+};
+
+// Per product: the product's units. Uniformly: one factor scales the current units of every line.
+const solveQuantity = (inputs: UserInputs, results: CalculationResult[], options: SolverOptions): SolverSolution => {
+  // Every line fixed at its current units, so only the solved quantities move
+  const currentUnits = Object.fromEntries(results.map(res => [res.size.id, res.totalUnits]));
+  const base = withQuantities(inputs, currentUnits);
+  const solvedIds = options.productId ? [options.productId] : results.filter(res => res.totalUnits > 0).map(res => res.size.id);
+  if (solvedIds.length === 0) {
+    return { feasible: false, message: 'אין מוצרים בהזמנה' };
+  }
+  const quantitiesFor = (x: number): Record<string, number> => options.productId
+    ? { [options.productId]: x }
+    : Object.fromEntries(solvedIds.map(id => [id, currentUnits[id] * x]));
+  const f = (x: number) => profitOf(calculateResults(withQuantities(base, quantitiesFor(x))), options.productId);
+
+  // Smallest order: one carton of the solved product, or of the largest line
+  const lo = options.productId ? 1 : 1 / Math.max(...solvedIds.map(id => currentUnits[id]));
+  let x = lo;
+  if (f(lo) < options.targetProfitILS) {
+    let hi = Math.max(options.productId ? currentUnits[options.productId] || 1 : 1, lo * 2);
+    for (let step = 0; step < 40 && f(hi) < options.targetProfitILS; step++) {
+      hi *= 2;
+    }
+    const found = bisect(f, options.targetProfitILS, lo, hi);
+    if (found === null) {
+      return { feasible: false, message: 'אין כמות שמגיעה ליעד הרווח' };
+    }
+    x = found; // Rounding up to whole cartons keeps the profit at or above the target
+  }
+
+  const quantities = roundedQuantities(base, quantitiesFor(x));
+  const { summary } = calculateOrder(withQuantities(base, quantities));
+  return {
+    feasible: true,
+    value: solvedIds.reduce((sum, id) => sum + quantities[id], 0),
+    quantities,
+    exceedsCapacity: summary.totalCBM > summary.containerCapacityCBM,
+  };
+};
+
+export const solveForTarget = (inputs: UserInputs, options: SolverOptions): SolverSolution => {
+  const results = calculateResults(inputs);
+  if (options.productId && !results.some(res => res.size.id === options.productId)) {
+    return { feasible: false, message: 'המוצר אינו פעיל בהזמנה' };
+  }
+  switch (options.unknown) {
+    case 'margin':
+      return solveMargin(inputs, results, options);
+    case 'rate':
+      return solveRate(inputs, results, options);
+    case 'shipping':
+      return solveShipping(inputs, results, options);
+    case 'quantity':
+      return solveQuantity(inputs, results, options);
+  }
+};
+
+// Lowest customer unit price, shipping included, that still covers each product's costs
+export const getBreakEvenPrices = (inputs: UserInputs): BreakEvenPrice[] =>
+  calculateResults(inputs)
+    .filter(res => res.totalUnits > 0)
+    .map(res => ({
+      productId: res.size.id,
+      name: res.size.name,
+      priceSale: convertCurrency(res.landingCostUSD + res.shippingPerUnitUSD, 'USD', inputs.saleCurrency, inputs.exchangeRates),
+    }));
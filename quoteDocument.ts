@@ -0,0 +1,432 @@
+import { jsPDF } from 'jspdf';
+import { RowInput } from 'jspdf-autotable';
+import { CalculationResult, CurrencyCode, Product, QuoteDetails, QuoteTemplate, SummaryData } from './types';
+import { formatCurrency } from './currency';
+import { INCOTERMS } from './constants';
+import { FONT_NAME, drawTable, prepareDocument } from './pdfDocument';
+import { ProductTierPrices } from './priceTiers';
+
+// Quote documents as vector PDFs: selectable text in an embedded Hebrew font, right-to-left tables
+// that break across pages, a header and page-numbered footer on every page, and the order totals.
+// The columns follow the same rules as the results table - internal columns never reach a customer quote.
+// A customer quotation adds the team's letterhead, the customer, the terms and a signature block.
+// Customer quotes list the volume price tiers of the products that have them.
+
+export type QuoteViewMode = 'seller' | 'customer';
+
+export interface Quotation {
+  template: QuoteTemplate;
+  details: QuoteDetails;
+  products: Product[]; // Descriptions and dimensions of the quoted products
+}
+
+export interface QuoteDocumentData {
+  results: CalculationResult[];
+  summary: SummaryData;
+  viewMode: QuoteViewMode;
+  columns: string[]; // Column keys the user shows in the results table
+  saleCurrency: CurrencyCode;
+  usdRate: number; // USD to ILS rate of the $/₪ pairs shown to the seller
+  unknownExpensesLabel: string;
+  orderName?: string;
+  quotation?: Quotation; // Customer quotes only
+  priceTiers?: ProductTierPrices[]; // Customer quotes only
+}
+
+interface QuoteColumn {
+  key: string;
+  label: (data: QuoteDocumentData) => string;
+  internal: boolean; // Seller only
+  cell: (res: CalculationResult, data: QuoteDocumentData) => string;
+  total?: (data: QuoteDocumentData) => string;
+}
+
+const PAGE_MARGIN = 12; // mm
+const HEADER_HEIGHT = 24;
+const FOOTER_HEIGHT = 12;
+// Tables wider than this many columns are laid out in landscape
+const PORTRAIT_MAX_COLUMNS = 7;
+const LOGO_MAX_WIDTH = 45;
+const LOGO_MAX_HEIGHT = 22;
+const SIGNATURE_BLOCK_HEIGHT = 34;
+
+const formatNumber = (value: number, fractionDigits = 2) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+
+// A USD amount with its ILS value under it, as the seller sees it on screen
+const usdAndIls = (usd: number, usdRate: number) => `$${formatNumber(usd)}\n₪${formatNumber(usd * usdRate)}`;
+
+// Unit price for the quote's reader: the sale currency for customers, $ and ₪ for the seller
+const price = (data: QuoteDocumentData, sale: number, usd: number) =>
+  data.viewMode === 'customer' ? formatCurrency(sale, data.saleCurrency) : usdAndIls(usd, data.usdRate);
+
+// In the order of the results table - drawn right to left
+const QUOTE_COLUMNS: QuoteColumn[] = [
+  {
+    key: 'size',
+    label: data => data.quotation ? 'מוצר' : 'שם',
+    internal: false,
+    cell: (res, data) => {
+      const product = data.quotation?.products.find(p => p.id === res.size.id);
+      return [res.size.name, product?.description, product?.dimensions && `מידות: ${product.dimensions}`].filter(Boolean).join('\n');
+    },
+    total: () => 'סה"כ',
+  },
+  { key: 'masterCBM', label: () => 'CBM מאסטר', internal: false, cell: res => res.size.masterCBM.toFixed(3) },
+  { key: 'unitsPerCarton', label: () => "יח' בקרטון", internal: false, cell: res => String(res.size.unitsPerCarton) },
+  {
+    key: 'totalCBM',
+    label: () => 'CBM כולל',
+    internal: false,
+    cell: res => res.totalCBM.toFixed(3),
+    total: data => data.summary.totalCBM.toFixed(3),
+  },
+  {
+    key: 'totalUnits',
+    label: () => 'כמות יחידות',
+    internal: false,
+    cell: res => res.totalUnits.toLocaleString(),
+    total: data => data.summary.totalUnits.toLocaleString(),
+  },
+  {
+    key: 'factoryPrice',
+    label: () => 'מחיר יחידה - מפעל',
+    internal: true,
+    cell: (res, data) => usdAndIls(res.size.factoryPriceUSD, data.usdRate),
+  },
+  {
+    key: 'totalExpenses',
+    label: data => data.unknownExpensesLabel,
+    internal: true,
+    cell: (res, data) => usdAndIls(res.landingCostUSD, data.usdRate),
+  },
+  {
+    key: 'totalFactoryPrice',
+    label: () => 'מחיר מפעל לכמות',
+    internal: true,
+    cell: (res, data) => usdAndIls(res.totalFactoryPriceUSD, data.usdRate),
+    total: data => usdAndIls(data.summary.totalFactoryPriceUSD, data.usdRate),
+  },
+  {
+    key: 'price',
+    label: () => 'מחיר יחידה - לקוח',
+    internal: false,
+    cell: (res, data) => price(data, res.priceSale, res.priceUSD),
+  },
+  {
+    key: 'totalCustomerPrice',
+    label: () => 'מחיר לקוח לכמות',
+    internal: false,
+    cell: (res, data) => price(data, res.priceSale * res.totalUnits, res.priceUSD * res.totalUnits),
+    total: data => price(
+      data,
+      data.results.reduce((sum, res) => sum + res.priceSale * res.totalUnits, 0),
+      data.results.reduce((sum, res) => sum + res.priceUSD * res.totalUnits, 0)
+    ),
+  },
+  {
+    key: 'totalProfit',
+    label: () => 'רווח סה"כ',
+    internal: true,
+    cell: (res, data) => usdAndIls(res.totalProfitUSD, data.usdRate),
+    total: data => usdAndIls(data.summary.totalProfitILS / data.usdRate, data.usdRate),
+  },
+  { key: 'marginPercent', label: () => '% רווחיות', internal: true, cell: res => `${res.productProfitMargin}%` },
+  {
+    key: 'shippingPerUnit',
+    label: () => 'שילוח ליחידה',
+    internal: false,
+    cell: (res, data) => price(data, res.shippingPerUnitSale, res.shippingPerUnitUSD),
+  },
+  {
+    key: 'priceWithShipping',
+    label: () => 'מחיר לקוח כולל שילוח',
+    internal: false,
+    cell: (res, data) => price(data, res.priceWithShippingSale, res.priceWithShippingUSD),
+    total: data => price(
+      data,
+      data.summary.totalRevenueSale,
+      data.results.reduce((sum, res) => sum + res.priceWithShippingUSD * res.totalUnits, 0)
+    ),
+  },
+];
+
+// Columns of the quote: the ones shown on screen, without the internal ones in a customer quote
+const getQuoteColumns = (data: Pick<QuoteDocumentData, 'columns' | 'viewMode'>): string[] =>
+  QUOTE_COLUMNS
+    .filter(column => data.columns.includes(column.key) && !(data.viewMode === 'customer' && column.internal))
+    .map(column => column.key);
+
+const formatDate = (isoDate: string) => new Date(`${isoDate}T00:00:00`).toLocaleDateString('he-IL');
+
+// Last day the quotation's prices hold (ISO date)
+export const getQuoteValidUntil = (details: Pick<QuoteDetails, 'issueDate' | 'validityDays'>): string => {
+  const date = new Date(`${details.issueDate}T00:00:00`);
+  date.setDate(date.getDate() + details.validityDays);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Header of every page - a quotation's first page carries the full letterhead instead
+const drawHeader = (doc: jsPDF, data: QuoteDocumentData, date: string) => {
+  if (data.quotation && doc.getCurrentPageInfo().pageNumber === 1) {
+    return;
+  }
+  const width = doc.internal.pageSize.getWidth();
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(30, 41, 59);
+  const quoteNumber = data.quotation?.details.quoteNumber;
+  doc.text(quoteNumber ? `הצעת מחיר ${quoteNumber}` : 'הצעת מחיר', width - PAGE_MARGIN, PAGE_MARGIN + 4, { align: 'right' });
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(71, 85, 105);
+  doc.text(`תאריך: ${date}`, PAGE_MARGIN, PAGE_MARGIN + 4);
+  const subtitle = data.quotation ? data.quotation.template.companyName : data.orderName;
+  if (subtitle) {
+    doc.text(subtitle, width - PAGE_MARGIN, PAGE_MARGIN + 10, { align: 'right' });
+  }
+  if (data.viewMode === 'seller') {
+    doc.text('מסמך פנימי - כולל עלויות ורווח', PAGE_MARGIN, PAGE_MARGIN + 10);
+  }
+  doc.setDrawColor(203, 213, 225);
+  doc.line(PAGE_MARGIN, PAGE_MARGIN + 14, width - PAGE_MARGIN, PAGE_MARGIN + 14);
+};
+
+// First page of a quotation: logo and company details, quote number and dates, and the customer.
+// Returns where the table starts.
+const drawLetterhead = (doc: jsPDF, quotation: Quotation): number => {
+  const { template, details } = quotation;
+  const right = doc.internal.pageSize.getWidth() - PAGE_MARGIN;
+  let logoBottom = PAGE_MARGIN;
+  if (template.logoDataUrl) {
+    const logo = doc.getImageProperties(template.logoDataUrl);
+    const scale = Math.min(LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height);
+    doc.addImage(template.logoDataUrl, logo.fileType, PAGE_MARGIN, PAGE_MARGIN, logo.width * scale, logo.height * scale);
+    logoBottom += logo.height * scale;
+  }
+
+  let y = PAGE_MARGIN + 5;
+  doc.setTextColor(30, 41, 59);
+  if (template.companyName) {
+    doc.setFont(FONT_NAME, 'bold');
+    doc.setFontSize(14);
+    doc.text(template.companyName, right, y, { align: 'right' });
+    y += 6;
+  }
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(71, 85, 105);
+  template.companyDetails.split('\n').filter(line => line.trim()).forEach(line => {
+    doc.text(line, right, y, { align: 'right' });
+    y += 4.5;
+  });
+
+  y = Math.max(y, logoBottom + 2);
+  doc.setDrawColor(203, 213, 225);
+  doc.line(PAGE_MARGIN, y, right, y);
+
+  y += 9;
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(30, 41, 59);
+  doc.text('הצעת מחיר', right, y, { align: 'right' });
+  doc.setFontSize(10);
+  if (details.quoteNumber) {
+    doc.text(`מספר: ${details.quoteNumber}`, PAGE_MARGIN, y);
+  }
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(71, 85, 105);
+  doc.text(`תאריך: ${formatDate(details.issueDate)}`, PAGE_MARGIN, y + 5);
+  doc.text(`בתוקף עד: ${formatDate(getQuoteValidUntil(details))}`, PAGE_MARGIN, y + 10);
+
+  y += 8;
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(30, 41, 59);
+  doc.text(`לכבוד: ${details.customerName}`, right, y, { align: 'right' });
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(71, 85, 105);
+  details.customerContact.split('\n').filter(line => line.trim()).forEach(line => {
+    y += 4.5;
+    doc.text(line, right, y, { align: 'right' });
+  });
+  return Math.max(y, PAGE_MARGIN + HEADER_HEIGHT) + 8;
+};
+
+// Delivery and payment terms, validity and notes, then the seller's and the customer's signatures
+const drawTermsAndSignature = (doc: jsPDF, quotation: Quotation, startY: number, onPage: () => void) => {
+  const { template, details } = quotation;
+  const incoterm = INCOTERMS.find(term => term.code === details.incoterm);
+  const rows: [string, string][] = [
+    ['תנאי אספקה', incoterm?.label || details.incoterm],
+    ['תנאי תשלום', details.paymentTerms],
+    ['תוקף ההצעה', `${details.validityDays} ימים - עד ${formatDate(getQuoteValidUntil(details))}`],
+  ];
+  if (template.notes.trim()) {
+    rows.push(['הערות', template.notes]);
+  }
+  const width = doc.internal.pageSize.getWidth();
+  const tableEndY = drawTable(doc, {
+    startY: startY + 6,
+    body: rows.map(([label, value]) => [value, label]),
+    theme: 'plain',
+    margin: { top: PAGE_MARGIN + HEADER_HEIGHT, bottom: FOOTER_HEIGHT + 4, left: PAGE_MARGIN, right: PAGE_MARGIN },
+    rowPageBreak: 'avoid',
+    styles: { font: FONT_NAME, fontSize: 9, halign: 'right', cellPadding: 1.5, textColor: [51, 65, 85] },
+    columnStyles: { 1: { fontStyle: 'bold', cellWidth: 30 } },
+    didDrawPage: onPage,
+  });
+
+  let y = tableEndY + 10;
+  if (y + SIGNATURE_BLOCK_HEIGHT > doc.internal.pageSize.getHeight() - FOOTER_HEIGHT - 4) {
+    doc.addPage();
+    onPage();
+    y = PAGE_MARGIN + HEADER_HEIGHT;
+  }
+  const right = width - PAGE_MARGIN;
+  const lineWidth = 60;
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(51, 65, 85);
+  doc.text('בכבוד רב,', right, y, { align: 'right' });
+  doc.text('אישור הלקוח:', PAGE_MARGIN + lineWidth, y, { align: 'right' });
+  y += 16;
+  doc.setDrawColor(100, 116, 139);
+  doc.line(right - lineWidth, y, right, y);
+  doc.line(PAGE_MARGIN, y, PAGE_MARGIN + lineWidth, y);
+  y += 5;
+  const seller = [template.signatureName, template.signatureTitle, template.companyName].filter(Boolean);
+  seller.forEach((line, index) => doc.text(line, right, y + index * 4.5, { align: 'right' }));
+  doc.text('שם, חתימה וחותמת', PAGE_MARGIN + lineWidth, y, { align: 'right' });
+  doc.text('תאריך: ____________', PAGE_MARGIN + lineWidth, y + 4.5, { align: 'right' });
+};
+
+// Page numbers need the final page count, so footers are drawn once the table is laid out
+const drawFooters = (doc: jsPDF) => {
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont(FONT_NAME, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(100, 116, 139);
+    doc.setDrawColor(203, 213, 225);
+    doc.line(PAGE_MARGIN, height - FOOTER_HEIGHT, width - PAGE_MARGIN, height - FOOTER_HEIGHT);
+    doc.text(`עמוד ${page} מתוך ${pages}`, PAGE_MARGIN, height - FOOTER_HEIGHT + 5);
+    doc.text('מחשבון לוגיסטיקה ותמחור', width - PAGE_MARGIN, height - FOOTER_HEIGHT + 5, { align: 'right' });
+  }
+};
+
+// Key totals under the table, kept together on one page
+const drawTotals = (doc: jsPDF, data: QuoteDocumentData, startY: number, onPage: () => void): number => {
+  const { summary } = data;
+  const rows: [string, string][] = [
+    ['סך יחידות', summary.totalUnits.toLocaleString()],
+    ['נפח כולל (CBM)', summary.totalCBM.toFixed(3)],
+    ['סה"כ לתשלום כולל שילוח', formatCurrency(summary.totalRevenueSale, data.saleCurrency)],
+  ];
+  if (data.viewMode === 'seller') {
+    rows.push(
+      ['השקעה כוללת', usdAndIls(summary.totalInvestmentUSD, data.usdRate).replace('\n', ' / ')],
+      ['רווח צפוי', usdAndIls(summary.totalProfitILS / data.usdRate, data.usdRate).replace('\n', ' / ')]
+    );
+  }
+  const width = doc.internal.pageSize.getWidth();
+  return drawTable(doc, {
+    startY: startY + 6,
+    body: rows.map(([label, value]) => [value, label]),
+    theme: 'plain',
+    tableWidth: 90,
+    margin: { left: width - PAGE_MARGIN - 90, top: PAGE_MARGIN + HEADER_HEIGHT, bottom: FOOTER_HEIGHT + 4 },
+    rowPageBreak: 'avoid',
+    pageBreak: 'avoid',
+    styles: { font: FONT_NAME, fontSize: 9, halign: 'right', cellPadding: 1.5 },
+    columnStyles: { 0: { fontStyle: 'bold' }, 1: { textColor: [71, 85, 105] } },
+    didDrawPage: onPage,
+  });
+};
+
+// Unit price by quantity of every product with volume tiers
+const drawPriceTiers = (doc: jsPDF, data: QuoteDocumentData, priceTiers: ProductTierPrices[], startY: number, onPage: () => void): number => {
+  const formatRange = (min: number, max?: number) =>
+    max === undefined ? `${min.toLocaleString()} ומעלה` : `${min.toLocaleString()} - ${max.toLocaleString()}`;
+  const body: RowInput[] = priceTiers.flatMap(product => product.tiers.map((tier, index) => [
+    formatCurrency(tier.priceSale, data.saleCurrency),
+    tier.discountPercent > 0 ? `${formatNumber(tier.discountPercent, 1)}%` : '-',
+    formatRange(tier.minQuantity, tier.maxQuantity),
+    index === 0 ? { content: product.name, rowSpan: product.tiers.length } : null,
+  ].filter(cell => cell !== null) as RowInput));
+
+  // The title stays with the first rows
+  let y = startY;
+  if (y + 30 > doc.internal.pageSize.getHeight() - FOOTER_HEIGHT - 4) {
+    doc.addPage();
+    onPage();
+    y = PAGE_MARGIN + HEADER_HEIGHT;
+  }
+  const width = doc.internal.pageSize.getWidth();
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(30, 41, 59);
+  doc.text('מחירי כמות', width - PAGE_MARGIN, y + 8, { align: 'right' });
+  return drawTable(doc, {
+    head: [['מחיר יחידה', 'הנחה', 'כמות (יחידות)', 'מוצר']],
+    body,
+    startY: y + 10,
+    tableWidth: 140,
+    margin: { left: width - PAGE_MARGIN - 140, top: PAGE_MARGIN + HEADER_HEIGHT, bottom: FOOTER_HEIGHT + 4 },
+    rowPageBreak: 'avoid',
+    theme: 'grid',
+    styles: { font: FONT_NAME, fontSize: 8, halign: 'right', valign: 'middle', cellPadding: 1.5, lineColor: [226, 232, 240] },
+    headStyles: { fillColor: [51, 65, 85], textColor: 255, fontStyle: 'bold' },
+    didDrawPage: onPage,
+  });
+};
+
+// Build the quote of a calculated order. Resolves to the document, ready to save.
+export const generateQuotePDF = async (data: QuoteDocumentData): Promise<jsPDF> => {
+  const columns = getQuoteColumns(data).map(key => QUOTE_COLUMNS.find(column => column.key === key)!);
+  // jsPDF lays tables out left to right - reversed, the first column ends up on the right
+  const ordered = [...columns].reverse();
+  const doc = new jsPDF({ orientation: columns.length > PORTRAIT_MAX_COLUMNS ? 'l' : 'p', unit: 'mm', format: 'a4' });
+  await prepareDocument(doc, 'rtl');
+  const quotation = data.viewMode === 'customer' ? data.quotation : undefined;
+  const date = quotation ? formatDate(quotation.details.issueDate) : new Date().toLocaleDateString('he-IL');
+  const onPage = () => drawHeader(doc, { ...data, quotation }, date);
+  const startY = quotation ? drawLetterhead(doc, quotation) : PAGE_MARGIN + HEADER_HEIGHT;
+  const tableData = { ...data, quotation };
+
+  const head: RowInput[] = [ordered.map(column => column.label(tableData))];
+  const body: RowInput[] = data.results.map(res => ordered.map(column => column.cell(res, tableData)));
+  const foot: RowInput[] = [ordered.map(column => column.total?.(tableData) ?? '')];
+
+  const tableEndY = drawTable(doc, {
+    head,
+    body,
+    foot,
+    startY,
+    margin: { top: PAGE_MARGIN + HEADER_HEIGHT, bottom: FOOTER_HEIGHT + 4, left: PAGE_MARGIN, right: PAGE_MARGIN },
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    rowPageBreak: 'avoid',
+    theme: 'grid',
+    styles: { font: FONT_NAME, fontSize: 8, halign: 'right', valign: 'middle', cellPadding: 1.8, lineColor: [226, 232, 240] },
+    headStyles: { fillColor: [51, 65, 85], textColor: 255, fontStyle: 'bold' },
+    footStyles: { fillColor: [241, 245, 249], textColor: [30, 41, 59], fontStyle: 'bold' },
+    alternateRowStyles: { fillColor: [248, 250, 252] },
+    didDrawPage: onPage,
+  });
+
+  let y = drawTotals(doc, data, tableEndY, onPage);
+  if (data.viewMode === 'customer' && data.priceTiers && data.priceTiers.length > 0) {
+    y = drawPriceTiers(doc, data, data.priceTiers, y, onPage);
+  }
+  if (quotation) {
+    drawTermsAndSignature(doc, quotation, y, onPage);
+  }
+  drawFooters(doc);
+  return doc;
+};
@@ -0,0 +1,113 @@
+import { MarginRange, OrderInputs, Product, QuoteTemplate, RateRecord, UserRole } from './types';
+import { ROLE_PERMISSIONS } from './constants';
+import { PriceListInputs } from './costVisibility';
+
+// Storage of orders, catalogs and rate history behind one interface, so the calculator runs against
+// Firestore, against this device only, or in memory (tests). dataService checks permissions and
+// handles offline work on top of whichever repository the env config selects. Every method is
+// scoped to the session's team and returns supplier prices and margins only to roles that may view
+// costs - the other roles get sell prices that give no unit cost away.
+
+export interface SavedOrder {
+  id?: string;
+  name: string;
+  ownerId: string; // User who created the order
+  teamId: string; // Team the order belongs to - every query is scoped to it
+  inputs: OrderInputs;
+  createdAt: number; // Epoch milliseconds
+  updatedAt: number;
+}
+
+// Immutable snapshot of an order, written on every save
+export interface OrderRevision {
+  id?: string;
+  name: string;
+  inputs: OrderInputs;
+  catalog?: Product[]; // Catalog the revision was priced with - unset when it is no longer known
+  createdAt: number;
+  authorId?: string; // User who saved the revision
+  restoredFrom?: string; // Id of the revision this one restored
+}
+
+// Immutable snapshot of the product catalog
+export interface CatalogVersion {
+  id?: string;
+  version: number;
+  products: Product[];
+  createdAt: number;
+  authorId?: string; // User who saved the version
+  note?: string;
+}
+
+// The catalog with the version it is at
+export interface StoredCatalog {
+  products: Product[];
+  version: number;
+}
+
+// The signed-in user and the team all data is scoped to (set by authService on sign-in and sign-out)
+export interface DataSession {
+  uid: string;
+  teamId: string;
+  role: UserRole;
+  salesMarginRange?: MarginRange; // Admins only - the price list is worked out from it
+}
+
+export interface OrderRepository {
+  newOrderId(): string;
+  listOrders(session: DataSession): Promise<SavedOrder[]>; // Newest update first
+  getOrderUpdatedAt(session: DataSession, orderId: string): Promise<number | null>; // null when the order does not exist
+  // Write the order together with a new revision that keeps the catalog the order was priced with.
+  // Both return the order's new updatedAt.
+  createOrder(session: DataSession, orderId: string, name: string, inputs: OrderInputs, catalog: Product[]): Promise<number>;
+  updateOrder(session: DataSession, orderId: string, name: string, inputs: OrderInputs, catalog: Product[], restoredFrom?: string): Promise<number>;
+  listRevisions(session: DataSession, orderId: string): Promise<OrderRevision[]>; // Newest first
+  deleteOrder(session: DataSession, orderId: string): Promise<void>;
+}
+
+export interface CatalogRepository {
+  getCatalog(session: DataSession): Promise<StoredCatalog>;
+  getCatalogVersion(session: DataSession): Promise<number>;
+  // Replace the catalog, with the price list worked out from priceList, and record it as a new version.
+  // Returns the new version number.
+  saveCatalog(session: DataSession, products: Product[], priceList: PriceListInputs, note?: string): Promise<number>;
+  listCatalogVersions(session: DataSession): Promise<CatalogVersion[]>; // Newest first
+  pruneCatalogVersions(session: DataSession, keep: number): Promise<number>; // Returns the number of deleted snapshots
+}
+
+export interface RateRepository {
+  saveRateRecords(session: DataSession, records: RateRecord[]): Promise<void>;
+  getRateHistory(session: DataSession): Promise<RateRecord[]>; // Newest date first
+}
+
+export interface SettingsRepository {
+  getQuoteTemplate(session: DataSession): Promise<QuoteTemplate | null>; // null when the team never saved one
+  saveQuoteTemplate(session: DataSession, template: QuoteTemplate): Promise<void>;
+  // Take the next running quote number of the year - numbering starts over every year
+  nextQuoteSequence(session: DataSession, year: number): Promise<number>;
+}
+
+export interface DataRepository extends OrderRepository, CatalogRepository, RateRepository, SettingsRepository {
+  remote: boolean; // Reached over the network - dataService caches its data and queues offline writes
+}
+
+// firestore: the shared team data (needs sign-in); local: this browser only, no sign-in;
+// memory: nothing is kept after the page closes (tests and demos)
+export type StorageBackend = 'firestore' | 'local' | 'memory';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['firestore', 'local', 'memory'];
+
+// The backend selected by VITE_STORAGE_BACKEND, Firestore by default
+export const getStorageBackend = (): StorageBackend => {
+  const configured = import.meta.env?.VITE_STORAGE_BACKEND;
+  if (!configured) {
+    return 'firestore';
+  }
+  if (!STORAGE_BACKENDS.includes(configured as StorageBackend)) {
+    console.warn(`Unknown VITE_STORAGE_BACKEND "${configured}", using firestore`);
+    return 'firestore';
+  }
+  return configured as StorageBackend;
+};
+
+export const canViewCosts = (session: DataSession): boolean => ROLE_PERMISSIONS[session.role].viewCosts;
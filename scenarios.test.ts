@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { applyScenario, compareScenarios, getScenarioMetrics } from './scenarios';
+import { calculateOrder } from './pricingEngine';
+import { Scenario } from './types';
+import { defaultInputs, defaultProducts, withSmall } from './testFixtures';
+
+// What-ifs on the default order (testFixtures.ts)
+
+describe('applyScenario', () => {
+  it('applies only the overrides that are set, leaving the order as it was', () => {
+    const inputs = defaultInputs();
+    const scenarioInputs = applyScenario(inputs, { usdRate: 3.6, shippingCostUSD: 5000, unknownExpensesValue: 8, containerCount: 2 });
+    expect(scenarioInputs).toMatchObject({ shippingCostUSD: 5000, unknownExpensesValue: 8, containerCount: 2, containerType: '40' });
+    expect(scenarioInputs.exchangeRates).toEqual({ ...inputs.exchangeRates, USD: 3.6 });
+    expect(inputs).toEqual(defaultInputs());
+    expect(applyScenario(inputs, {})).toEqual(inputs);
+  });
+
+  it('prices every product at the scenario margin, keeping the rounding of its rule', () => {
+    const inputs = withSmall({ pricing: { strategy: 'fixedPrice', price: 28, rounding: 'to90' } });
+    const products = applyScenario(inputs, { profitMargin: 30 }).products;
+    expect(products.map(product => product.profitMargin)).toEqual([30, 30, 30]);
+    expect(products[0].pricing).toEqual({ strategy: 'margin', price: 28, rounding: 'to90' });
+    expect(products[1].pricing).toBeUndefined();
+  });
+
+  it('keeps quantities and percentages of the container when the container changes', () => {
+    const [small, ...rest] = defaultProducts();
+    const inputs = defaultInputs({ products: [{ ...small, quantity: 400, mixPercent: 0 }, ...rest] });
+    const units = (containerType: '20' | '40', id: string) =>
+      calculateOrder(applyScenario(inputs, { containerType })).results.find(res => res.size.id === id)!.totalUnits;
+    const { summary } = calculateOrder(applyScenario(inputs, { containerType: '20' }));
+    expect(units('20', 'small')).toBe(400);
+    expect(units('20', 'medium')).toBeLessThan(units('40', 'medium'));
+    expect(summary.totalCBM).toBeLessThanOrEqual(summary.containerCapacityCBM);
+  });
+});
+
+describe('compareScenarios', () => {
+  const scenarios: Scenario[] = [
+    { id: 'cheap-freight', name: 'הובלה זולה', overrides: { shippingCostUSD: 3000 } },
+    { id: 'high-margin', name: 'רווחיות גבוהה', overrides: { profitMargin: 50 } },
+  ];
+
+  it('lists the order first and compares every scenario with it by default', () => {
+    const inputs = defaultInputs();
+    const [order, cheapFreight, highMargin] = compareScenarios(inputs, scenarios);
+    expect(order.scenario).toBeNull();
+    expect(order.deltas.totalProfitILS).toBe(0);
+    expect(cheapFreight.deltas.totalRevenueSale).toBeCloseTo(-1000 * 3.2, 6);
+    expect(cheapFreight.deltas.totalProfitILS).toBeCloseTo(0, 6);
+    expect(highMargin.metrics).toEqual(getScenarioMetrics(applyScenario(inputs, { profitMargin: 50 })));
+    expect(highMargin.deltas.totalProfitILS).toBeGreaterThan(0);
+  });
+
+  it('compares with the chosen scenario', () => {
+    const [order, cheapFreight, highMargin] = compareScenarios(defaultInputs(), scenarios, 'high-margin');
+    expect(highMargin.deltas).toEqual({
+      totalUnits: 0, totalCBM: 0, cbmUtilizationPercent: 0, totalInvestmentUSD: 0, totalRevenueSale: 0, totalProfitILS: 0, profitPercent: 0,
+    });
+    expect(order.deltas.totalProfitILS).toBeCloseTo(order.metrics.totalProfitILS - highMargin.metrics.totalProfitILS, 6);
+    expect(cheapFreight.deltas.totalProfitILS).toBeLessThan(0);
+  });
+
+  it('falls back to the order when the chosen scenario was removed', () => {
+    const [order, cheapFreight] = compareScenarios(defaultInputs(), scenarios.slice(0, 1), 'high-margin');
+    expect(order.deltas.totalProfitILS).toBe(0);
+    expect(cheapFreight.deltas.totalRevenueSale).toBeCloseTo(-1000 * 3.2, 6);
+  });
+});
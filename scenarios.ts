@@ -0,0 +1,85 @@
+import { Scenario, ScenarioOverrides, UserInputs } from './types';
+import { calculateOrder } from './pricingEngine';
+
+// What-if scenarios: each one clones the order's pricing inputs with its overrides and runs them
+// through the regular pricing engine, so a scenario is priced exactly like the order would be.
+
+export interface ScenarioMetrics {
+  totalUnits: number;
+  totalCBM: number;
+  cbmUtilizationPercent: number; // Share of the containers' usable volume
+  totalInvestmentUSD: number;
+  totalRevenueSale: number; // Customer total including shipping, in the order's sale currency
+  totalProfitILS: number;
+  profitPercent: number; // Profit as a share of the customer total before shipping
+}
+
+export interface ScenarioComparison {
+  scenario: Scenario | null; // null for the baseline - the order as entered
+  metrics: ScenarioMetrics;
+  deltas: ScenarioMetrics; // Difference from the baseline
+}
+
+// The order's inputs with the scenario's changes. Products entered by quantity keep their quantity
+// when the container changes; products entered by percentage fill the same share of the new one.
+export const applyScenario = (inputs: UserInputs, overrides: ScenarioOverrides): UserInputs => {
+  const scenarioInputs: UserInputs = { ...inputs };
+  if (overrides.containerType !== undefined) {
+    scenarioInputs.containerType = overrides.containerType;
+  }
+  if (overrides.containerCount !== undefined) {
+    scenarioInputs.containerCount = overrides.containerCount;
+  }
+  if (overrides.usdRate !== undefined) {
+    scenarioInputs.exchangeRates = { ...inputs.exchangeRates, USD: overrides.usdRate };
+  }
+  if (overrides.profitMargin !== undefined) {
+    scenarioInputs.products = inputs.products.map(product => ({
+      ...product,
+      profitMargin: overrides.profitMargin!,
+      pricing: product.pricing && { ...product.pricing, strategy: 'margin' },
+    }));
+  }
+  if (overrides.shippingCostUSD !== undefined) {
+    scenarioInputs.shippingCostUSD = overrides.shippingCostUSD;
+  }
+  if (overrides.unknownExpensesValue !== undefined) {
+    scenarioInputs.unknownExpensesValue = overrides.unknownExpensesValue;
+  }
+  return scenarioInputs;
+};
+
+export const getScenarioMetrics = (inputs: UserInputs): ScenarioMetrics => {
+  const { results, summary } = calculateOrder(inputs);
+  const revenueBeforeShippingILS = results.reduce((sum, res) => sum + res.priceILS * res.totalUnits, 0);
+  return {
+    totalUnits: summary.totalUnits,
+    totalCBM: summary.totalCBM,
+    cbmUtilizationPercent: summary.containerCapacityCBM > 0 ? (summary.totalCBM / summary.containerCapacityCBM) * 100 : 0,
+    totalInvestmentUSD: summary.totalInvestmentUSD,
+    totalRevenueSale: summary.totalRevenueSale,
+    totalProfitILS: summary.totalProfitILS,
+    profitPercent: revenueBeforeShippingILS > 0 ? (summary.totalProfitILS / revenueBeforeShippingILS) * 100 : 0,
+  };
+};
+
+const subtractMetrics = (a: ScenarioMetrics, b: ScenarioMetrics): ScenarioMetrics => ({
+  totalUnits: a.totalUnits - b.totalUnits,
+  totalCBM: a.totalCBM - b.totalCBM,
+  cbmUtilizationPercent: a.cbmUtilizationPercent - b.cbmUtilizationPercent,
+  totalInvestmentUSD: a.totalInvestmentUSD - b.totalInvestmentUSD,
+  totalRevenueSale: a.totalRevenueSale - b.totalRevenueSale,
+  totalProfitILS: a.totalProfitILS - b.totalProfitILS,
+  profitPercent: a.profitPercent - b.profitPercent,
+});
+
+// The order as entered and every scenario, with deltas against the chosen baseline
+// (the order itself when baselineId is unset or unknown)
+export const compareScenarios = (inputs: UserInputs, scenarios: Scenario[], baselineId?: string): ScenarioComparison[] => {
+  const evaluated = [
+    { scenario: null, metrics: getScenarioMetrics(inputs) },
+    ...scenarios.map(scenario => ({ scenario, metrics: getScenarioMetrics(applyScenario(inputs, scenario.overrides)) })),
+  ];
+  const baseline = evaluated.find(entry => entry.scenario?.id === baselineId) || evaluated[0];
+  return evaluated.map(entry => ({ ...entry, deltas: subtractMetrics(entry.metrics, baseline.metrics) }));
+};
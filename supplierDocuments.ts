@@ -0,0 +1,330 @@
+import { jsPDF } from 'jspdf';
+import { RowInput } from 'jspdf-autotable';
+import { CalculationResult, ContainerTypeId, CurrencyCode, Product, QuoteTemplate, SupplierDocumentDetails } from './types';
+import { FONT_NAME, drawTable, prepareDocument } from './pdfDocument';
+import { downloadSpreadsheet } from './catalogTransfer';
+import { getTierFactoryPrice } from './priceTiers';
+
+// Documents for the factory, in English: a purchase order / proforma with the supplier prices and a
+// packing list with cartons, CBM and weights per line. Both come from the calculated order and are
+// built from the supplier's numbers only - customer prices, shipping shares and margins never reach them.
+
+export type SupplierDocumentKind = 'proforma' | 'packingList';
+
+export interface SupplierDocumentData {
+  results: CalculationResult[];
+  products: Product[]; // The order's products as priced - purchase currency and carton weight
+  containerType: ContainerTypeId;
+  containerCount: number;
+  buyer: Pick<QuoteTemplate, 'companyName' | 'companyDetails'>;
+  details: SupplierDocumentDetails;
+}
+
+interface SupplierLine {
+  item: number;
+  description: string;
+  dimensions: string;
+  cartons: number;
+  unitsPerCarton: number;
+  quantity: number;
+  cbmPerCarton: number;
+  totalCBM: number;
+  weightPerCartonKg: number; // 0 when the product has no carton weight
+  totalWeightKg: number;
+  currency: CurrencyCode;
+  unitPrice: number; // In the supplier's currency
+  amount: number;
+}
+
+interface SupplierColumn {
+  header: string;
+  align: 'left' | 'right';
+  value: (line: SupplierLine) => string | number;
+  text?: (line: SupplierLine) => string; // PDF cell when it differs from the value
+  total?: (lines: SupplierLine[]) => string | number;
+}
+
+const TITLES: Record<SupplierDocumentKind, string> = {
+  proforma: 'PROFORMA INVOICE / PURCHASE ORDER',
+  packingList: 'PACKING LIST',
+};
+
+const FILE_NAMES: Record<SupplierDocumentKind, string> = {
+  proforma: 'Proforma',
+  packingList: 'Packing_List',
+};
+
+const PAGE_MARGIN = 12; // mm
+const HEADER_HEIGHT = 16; // Continuation pages
+const FOOTER_HEIGHT = 12;
+const SIGNATURE_BLOCK_HEIGHT = 30;
+
+const formatNumber = (value: number, fractionDigits = 2) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+
+const formatAmount = (value: number, currency: CurrencyCode) => `${currency} ${formatNumber(value)}`;
+
+const formatDate = (isoDate: string) =>
+  new Date(`${isoDate}T00:00:00`).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const sum = (lines: SupplierLine[], pick: (line: SupplierLine) => number) => lines.reduce((total, line) => total + pick(line), 0);
+
+// Amount per supplier currency - one total unless the order mixes currencies
+const amountTotals = (lines: SupplierLine[]): string[] => {
+  const currencies = [...new Set(lines.map(line => line.currency))];
+  return currencies.map(currency => formatAmount(sum(lines.filter(line => line.currency === currency), line => line.amount), currency));
+};
+
+const describeContainers = (data: SupplierDocumentData) =>
+  data.containerType === 'LCL'
+    ? 'LCL (less than container load)'
+    : `${data.containerCount} x ${data.containerType.replace('HC', '')}'${data.containerType.endsWith('HC') ? ' HC' : ''} container`;
+
+const weightText = (value: number) => value > 0 ? formatNumber(value, 1) : '-';
+
+// The ordered lines, priced in the supplier's currency: the factory price the order was calculated
+// with, not the USD conversion
+const getSupplierLines = (data: SupplierDocumentData): SupplierLine[] =>
+  data.results
+    .filter(res => res.totalUnits > 0)
+    .map((res, index) => {
+      const product = data.products.find(p => p.id === res.size.id);
+      const weightPerCartonKg = product?.grossWeightKg || 0;
+      // The result carries the price converted to USD; the product has it as the supplier quoted it
+      const unitPrice = product ? getTierFactoryPrice(product, res.totalUnits) : res.size.factoryPriceUSD;
+      return {
+        item: index + 1,
+        description: res.size.name,
+        dimensions: res.size.dimensions,
+        cartons: res.cartons,
+        unitsPerCarton: res.size.unitsPerCarton,
+        quantity: res.totalUnits,
+        cbmPerCarton: res.size.masterCBM,
+        totalCBM: res.totalCBM,
+        weightPerCartonKg,
+        totalWeightKg: res.totalWeightKg,
+        currency: product ? product.purchaseCurrency || 'USD' : 'USD',
+        unitPrice,
+        amount: unitPrice * res.totalUnits,
+      };
+    });
+
+const COLUMNS: Record<SupplierDocumentKind, SupplierColumn[]> = {
+  proforma: [
+    { header: 'No.', align: 'left', value: line => line.item, total: () => 'TOTAL' },
+    { header: 'Description', align: 'left', value: line => line.description },
+    { header: 'Dimensions', align: 'left', value: line => line.dimensions },
+    { header: 'Cartons', align: 'right', value: line => line.cartons, text: line => line.cartons.toLocaleString('en-US'), total: lines => sum(lines, line => line.cartons) },
+    { header: 'Pcs / Carton', align: 'right', value: line => line.unitsPerCarton },
+    { header: 'Quantity (pcs)', align: 'right', value: line => line.quantity, text: line => line.quantity.toLocaleString('en-US'), total: lines => sum(lines, line => line.quantity) },
+    { header: 'Currency', align: 'left', value: line => line.currency },
+    { header: 'Unit Price', align: 'right', value: line => line.unitPrice, text: line => formatNumber(line.unitPrice, 4) },
+    { header: 'Amount', align: 'right', value: line => line.amount, text: line => formatNumber(line.amount), total: lines => amountTotals(lines).join('\n') },
+  ],
+  packingList: [
+    { header: 'No.', align: 'left', value: line => line.item, total: () => 'TOTAL' },
+    { header: 'Description', align: 'left', value: line => line.description },
+    { header: 'Dimensions', align: 'left', value: line => line.dimensions },
+    { header: 'Cartons', align: 'right', value: line => line.cartons, text: line => line.cartons.toLocaleString('en-US'), total: lines => sum(lines, line => line.cartons) },
+    { header: 'Pcs / Carton', align: 'right', value: line => line.unitsPerCarton },
+    { header: 'Quantity (pcs)', align: 'right', value: line => line.quantity, text: line => line.quantity.toLocaleString('en-US'), total: lines => sum(lines, line => line.quantity) },
+    { header: 'CBM / Carton', align: 'right', value: line => line.cbmPerCarton, text: line => formatNumber(line.cbmPerCarton, 4) },
+    { header: 'Total CBM', align: 'right', value: line => line.totalCBM, text: line => formatNumber(line.totalCBM, 3), total: lines => formatNumber(sum(lines, line => line.totalCBM), 3) },
+    { header: 'G.W. / Carton (kg)', align: 'right', value: line => line.weightPerCartonKg || '', text: line => weightText(line.weightPerCartonKg) },
+    { header: 'Total G.W. (kg)', align: 'right', value: line => line.totalWeightKg || '', text: line => weightText(line.totalWeightKg), total: lines => weightText(sum(lines, line => line.totalWeightKg)) },
+  ],
+};
+
+// Shipment totals and terms printed under the table
+const getSummaryRows = (kind: SupplierDocumentKind, data: SupplierDocumentData, lines: SupplierLine[]): [string, string][] => {
+  const { details } = data;
+  const rows: [string, string][] = [
+    ['Total cartons', sum(lines, line => line.cartons).toLocaleString('en-US')],
+    ['Total quantity', `${sum(lines, line => line.quantity).toLocaleString('en-US')} pcs`],
+    ['Total volume', `${formatNumber(sum(lines, line => line.totalCBM), 3)} CBM`],
+    ['Total gross weight', `${weightText(sum(lines, line => line.totalWeightKg))} kg`],
+    ['Container', describeContainers(data)],
+  ];
+  if (kind === 'proforma') {
+    rows.push(
+      ['Total amount', amountTotals(lines).join(' + ')],
+      ['Delivery terms', details.incoterm],
+      ['Payment terms', details.paymentTerms],
+    );
+  }
+  rows.push(
+    ['Port of loading', details.portOfLoading],
+    ['Port of discharge', details.portOfDischarge],
+    ['Shipping marks', details.shippingMarks],
+  );
+  return rows.filter(([, value]) => value.trim());
+};
+
+const textLines = (value: string) => value.split('\n').filter(line => line.trim());
+
+// First page: title, number and date, buyer and supplier. Returns where the table starts.
+const drawFirstPageHeader = (doc: jsPDF, kind: SupplierDocumentKind, data: SupplierDocumentData): number => {
+  const { details, buyer } = data;
+  const width = doc.internal.pageSize.getWidth();
+  const right = width - PAGE_MARGIN;
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(30, 41, 59);
+  doc.text(TITLES[kind], PAGE_MARGIN, PAGE_MARGIN + 5);
+  doc.setFontSize(10);
+  doc.text(`No.: ${details.documentNumber}`, right, PAGE_MARGIN + 3, { align: 'right' });
+  doc.setFont(FONT_NAME, 'normal');
+  doc.text(`Date: ${formatDate(details.issueDate)}`, right, PAGE_MARGIN + 8, { align: 'right' });
+
+  const blockTop = PAGE_MARGIN + 18;
+  const drawParty = (label: string, name: string, lines: string[], x: number): number => {
+    let y = blockTop;
+    doc.setFont(FONT_NAME, 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(100, 116, 139);
+    doc.text(label, x, y);
+    y += 5;
+    doc.setFontSize(10);
+    doc.setTextColor(30, 41, 59);
+    doc.text(name, x, y);
+    doc.setFont(FONT_NAME, 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(71, 85, 105);
+    lines.forEach(line => {
+      y += 4.5;
+      doc.text(line, x, y);
+    });
+    return y;
+  };
+  const buyerBottom = drawParty('BUYER', buyer.companyName, textLines(buyer.companyDetails), PAGE_MARGIN);
+  const supplierBottom = drawParty('SUPPLIER', details.supplierName, textLines(details.supplierDetails), width / 2 + 4);
+  const bottom = Math.max(buyerBottom, supplierBottom) + 4;
+  doc.setDrawColor(203, 213, 225);
+  doc.line(PAGE_MARGIN, bottom, right, bottom);
+  return bottom + 6;
+};
+
+// Continuation pages repeat the title and number
+const drawContinuationHeader = (doc: jsPDF, kind: SupplierDocumentKind, data: SupplierDocumentData) => {
+  if (doc.getCurrentPageInfo().pageNumber === 1) {
+    return;
+  }
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(30, 41, 59);
+  doc.text(TITLES[kind], PAGE_MARGIN, PAGE_MARGIN + 4);
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(71, 85, 105);
+  doc.text(`No.: ${data.details.documentNumber}`, doc.internal.pageSize.getWidth() - PAGE_MARGIN, PAGE_MARGIN + 4, { align: 'right' });
+};
+
+const drawFooters = (doc: jsPDF) => {
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont(FONT_NAME, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(100, 116, 139);
+    doc.setDrawColor(203, 213, 225);
+    doc.line(PAGE_MARGIN, height - FOOTER_HEIGHT, width - PAGE_MARGIN, height - FOOTER_HEIGHT);
+    doc.text(`Page ${page} of ${pages}`, width - PAGE_MARGIN, height - FOOTER_HEIGHT + 5, { align: 'right' });
+  }
+};
+
+const drawSignatures = (doc: jsPDF, startY: number, onPage: () => void) => {
+  let y = startY + 12;
+  if (y + SIGNATURE_BLOCK_HEIGHT > doc.internal.pageSize.getHeight() - FOOTER_HEIGHT - 4) {
+    doc.addPage();
+    onPage();
+    y = PAGE_MARGIN + HEADER_HEIGHT;
+  }
+  const width = doc.internal.pageSize.getWidth();
+  const lineWidth = 60;
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(51, 65, 85);
+  doc.setDrawColor(100, 116, 139);
+  y += 14;
+  doc.line(PAGE_MARGIN, y, PAGE_MARGIN + lineWidth, y);
+  doc.line(width - PAGE_MARGIN - lineWidth, y, width - PAGE_MARGIN, y);
+  doc.text('Buyer (signature)', PAGE_MARGIN, y + 5);
+  doc.text('Supplier (signature and stamp)', width - PAGE_MARGIN - lineWidth, y + 5);
+};
+
+// Build the proforma or the packing list of a calculated order as a PDF, ready to save
+export const generateSupplierPDF = async (kind: SupplierDocumentKind, data: SupplierDocumentData): Promise<jsPDF> => {
+  const lines = getSupplierLines(data);
+  const columns = COLUMNS[kind];
+  const doc = new jsPDF({ orientation: 'l', unit: 'mm', format: 'a4' });
+  await prepareDocument(doc, 'ltr');
+  const onPage = () => drawContinuationHeader(doc, kind, data);
+  const startY = drawFirstPageHeader(doc, kind, data);
+
+  const head: RowInput[] = [columns.map(column => column.header)];
+  const body: RowInput[] = lines.map(line => columns.map(column => String(column.text?.(line) ?? column.value(line))));
+  const foot: RowInput[] = [columns.map(column => String(column.total?.(lines) ?? ''))];
+  const columnStyles = Object.fromEntries(columns.map((column, index) => [index, { halign: column.align }]));
+
+  const linesEndY = drawTable(doc, {
+    head,
+    body,
+    foot,
+    startY,
+    margin: { top: PAGE_MARGIN + HEADER_HEIGHT, bottom: FOOTER_HEIGHT + 4, left: PAGE_MARGIN, right: PAGE_MARGIN },
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    rowPageBreak: 'avoid',
+    theme: 'grid',
+    styles: { font: FONT_NAME, fontSize: 8, valign: 'middle', cellPadding: 1.8, lineColor: [226, 232, 240] },
+    headStyles: { fillColor: [51, 65, 85], textColor: 255, fontStyle: 'bold' },
+    footStyles: { fillColor: [241, 245, 249], textColor: [30, 41, 59], fontStyle: 'bold' },
+    alternateRowStyles: { fillColor: [248, 250, 252] },
+    columnStyles,
+    didDrawPage: onPage,
+  });
+
+  const summaryEndY = drawTable(doc, {
+    startY: linesEndY + 6,
+    body: getSummaryRows(kind, data, lines),
+    theme: 'plain',
+    tableWidth: 130,
+    margin: { top: PAGE_MARGIN + HEADER_HEIGHT, bottom: FOOTER_HEIGHT + 4, left: PAGE_MARGIN, right: PAGE_MARGIN },
+    rowPageBreak: 'avoid',
+    pageBreak: 'avoid',
+    styles: { font: FONT_NAME, fontSize: 9, cellPadding: 1.5, textColor: [51, 65, 85] },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 40 } },
+    didDrawPage: onPage,
+  });
+
+  drawSignatures(doc, summaryEndY, onPage);
+  drawFooters(doc);
+  return doc;
+};
+
+// The same document as an XLSX sheet: header block, the lines with numeric cells, totals and terms
+export const exportSupplierSpreadsheet = async (kind: SupplierDocumentKind, data: SupplierDocumentData): Promise<void> => {
+  const { details, buyer } = data;
+  const lines = getSupplierLines(data);
+  const columns = COLUMNS[kind];
+  const rows: (string | number)[][] = [
+    [TITLES[kind]],
+    ['No.', details.documentNumber],
+    ['Date', formatDate(details.issueDate)],
+    ['Buyer', [buyer.companyName, ...textLines(buyer.companyDetails)].join(', ')],
+    ['Supplier', [details.supplierName, ...textLines(details.supplierDetails)].join(', ')],
+    [],
+    columns.map(column => column.header),
+    ...lines.map(line => columns.map(column => column.value(line))),
+    columns.map(column => column.total?.(lines) ?? ''),
+    [],
+    ...getSummaryRows(kind, data, lines),
+  ];
+  await downloadSpreadsheet(`${FILE_NAMES[kind]}_${details.documentNumber || details.issueDate}`, [{ name: FILE_NAMES[kind], rows }], 'xlsx');
+};
+
+// File name of the PDF
+export const getSupplierFileName = (kind: SupplierDocumentKind, details: SupplierDocumentDetails) =>
+  `${FILE_NAMES[kind]}_${details.documentNumber || details.issueDate}.pdf`;
@@ -0,0 +1,37 @@
+// Connectivity and sync state of the local data, shown in the header. dataService updates
+// it as it queues and syncs writes; components subscribe to it.
+
+export interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  pending: number; // Writes waiting to be sent
+  conflicts: number; // Writes that were not sent because the data changed on the server meanwhile
+  lastSyncedAt: number | null;
+  error: string | null; // Last sync failure
+}
+
+let state: SyncState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  conflicts: 0,
+  lastSyncedAt: null,
+  error: null,
+};
+
+const listeners = new Set<(state: SyncState) => void>();
+
+export const getSyncState = (): SyncState => state;
+
+export const updateSyncState = (changes: Partial<SyncState>): void => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener(state));
+};
+
+export const subscribeToSync = (listener: (state: SyncState) => void): (() => void) => {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+};
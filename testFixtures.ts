@@ -0,0 +1,38 @@
+import { DEFAULT_EXCHANGE_RATES } from './constants';
+import { OrderInputs, OrderProduct, Product, UserInputs } from './types';
+
+// The order the tests price: the app's default Small/Medium/Large products, whose numbers
+// pricingEngine.test.ts pins
+
+export const defaultProducts = (): OrderProduct[] => [
+  { id: 'small', name: 'Small', dimensions: '33 x 30 x 11', description: '', masterCartonCBM: 0.059, unitsPerCarton: 4, factoryPriceUSD: 4.48, profitMargin: 40, active: true, mixPercent: 40 },
+  { id: 'medium', name: 'Medium', dimensions: '37 x 34 x 12', description: '', masterCartonCBM: 0.11, unitsPerCarton: 6, factoryPriceUSD: 5.51, profitMargin: 40, active: true, mixPercent: 30 },
+  { id: 'large', name: 'Large', dimensions: '42 x 37 x 18', description: '', masterCartonCBM: 0.128, unitsPerCarton: 6, factoryPriceUSD: 5.79, profitMargin: 40, active: true, mixPercent: 30 },
+];
+
+// A 40' container split 40/30/30, $4,000 freight, 5% unknown expenses, USD at 3.2
+export const defaultInputs = (changes: Partial<UserInputs> = {}): UserInputs => ({
+  containerType: '40',
+  products: defaultProducts(),
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  saleCurrency: 'ILS',
+  shippingCostUSD: 4000,
+  shippingAllocation: 'perUnit',
+  unknownExpensesType: 'percent',
+  unknownExpensesValue: 5,
+  costLines: [],
+  ...changes,
+});
+
+// The default order with the small product changed
+export const withSmall = (changes: Partial<OrderProduct>): UserInputs => defaultInputs({
+  products: defaultProducts().map(product => product.id === 'small' ? { ...product, ...changes } : product),
+});
+
+// The default products as a catalog, and the default order as the lines of an order saved against it
+export const defaultCatalog = (): Product[] => defaultProducts().map(({ mixPercent, quantity, ...product }) => product);
+
+export const defaultOrder = (changes: Partial<OrderInputs> = {}): OrderInputs => {
+  const { products, ...inputs } = defaultInputs();
+  return { ...inputs, lines: products.map(product => ({ productId: product.id, mixPercent: product.mixPercent })), ...changes };
+};
@@ -1,16 +1,89 @@
 
+export type CurrencyCode = 'ILS' | 'USD' | 'EUR' | 'CNY';
+
+// Exchange rates to ILS - how many shekels one unit of each currency buys (ILS is always 1)
+export type ExchangeRateTable = Record<CurrencyCode, number>;
+
+// Exchange rates recorded for a date (from manual entry, a CSV import or a rate provider)
+export interface RateRecord {
+  date: string; // ISO date "YYYY-MM-DD"
+  rates: Partial<ExchangeRateTable>;
+  source: string; // 'manual', 'csv' or the provider id
+}
+
+// How a product's customer price is set: a margin on the price (the default), a markup on the landing cost,
+// a fixed unit price, or a target unit price including shipping that the price before shipping is derived from
+export type PricingStrategy = 'margin' | 'markup' | 'fixedPrice' | 'targetPrice';
+
+// Rounding of a calculated customer price, always upwards and in the order's sale currency
+export type PriceRounding = 'none' | 'to90' | 'whole' | 'to5';
+
+export interface PricingRule {
+  strategy: PricingStrategy;
+  markupPercent?: number; // markup: percentage added to the landing cost
+  price?: number; // fixedPrice: unit price before shipping; targetPrice: unit price including shipping
+  priceCurrency?: CurrencyCode; // Currency of price (default ILS)
+  rounding?: PriceRounding; // Applies to margin and markup prices - fixed and target prices are used as entered
+}
+
+// Factory price break: the unit price (in the purchase currency) from minQuantity units of the product in the order
+export interface FactoryPriceTier {
+  minQuantity: number;
+  price: number;
+}
+
+// Customer volume discount: the percentage off the unit price from minQuantity units of the product in the order
+export interface CustomerPriceTier {
+  minQuantity: number;
+  discountPercent: number;
+}
+
+// A product's entry in the price list sales reps quote from, worked out when an admin saves the catalog:
+// the unit price before shipping its pricing rule gives at the base price break, and the prices the
+// team's margin range allows. All three are in the sale currency of the admin who saved.
+export interface SalesPrice {
+  price: number;
+  minPrice: number;
+  maxPrice: number;
+  currency: CurrencyCode;
+}
+
+// Catalog product definition, shared by all orders
 export interface Product {
   id: string;
   name: string;
   dimensions: string; // Product dimensions description for customer (e.g., "33 x 30 x 11 cm")
   description: string; // Product description/explanation text
   masterCartonCBM: number; // Master carton CBM (direct input, not calculated)
+  grossWeightKg?: number; // Gross weight of a full master carton in kg (0/undefined - weight is not checked)
   unitsPerCarton: number;
-  factoryPriceUSD: number;
+  factoryPriceUSD: number; // Factory price per unit in the purchase currency (USD unless purchaseCurrency says otherwise)
+  purchaseCurrency?: CurrencyCode; // Currency the supplier quotes in (default USD)
+  factoryPriceTiers?: FactoryPriceTier[]; // Price breaks by quantity - factoryPriceUSD applies below the first one
+  minOrderQuantity?: number; // Factory MOQ in units (0/undefined - none)
   profitMargin: number; // Individual profit margin percentage
+  pricing?: PricingRule; // How the customer price is set (default: profitMargin on the price, no rounding)
+  customerPriceTiers?: CustomerPriceTier[]; // Volume discounts offered to customers
+  active?: boolean; // Whether the product is included in orders by default (an order line can override it)
+  salesPrice?: SalesPrice; // Price list entry of margin and markup priced products (set on catalog save)
+}
+
+// A catalog product in an order: how much of it is ordered and the order's own prices
+export interface OrderLine {
+  productId: string;
   mixPercent?: number; // Percentage of container volume (calculated or user input)
   quantity?: number; // Direct quantity input (optional)
-  active?: boolean; // Whether the product is active (included in calculations and displayed)
+  factoryPriceOverride?: number; // Factory price for this order only, in the product's purchase currency (replaces the price breaks)
+  profitMarginOverride?: number; // Profit margin for this order only
+  salePriceOverride?: number; // Unit price before shipping for this order only, in the currency of the product's sales price - ILS without one (replaces the pricing rule)
+  active?: boolean; // Whether the product is part of this order (default: the catalog's active flag)
+  snapshot?: Product; // Definition embedded by orders saved before the catalog split or restored from a revision, used if the product left the catalog
+}
+
+// A catalog product resolved for an order line (overrides applied) - what the pricing engine works on
+export interface OrderProduct extends Product {
+  mixPercent?: number;
+  quantity?: number;
 }
 
 export interface BoxSizeData {
@@ -23,13 +96,123 @@ export interface BoxSizeData {
   factoryPriceUSD: number;
 }
 
+export type ContainerTypeId = '20' | '40' | '40HC' | '45HC' | 'LCL';
+
+export interface ContainerType {
+  id: ContainerTypeId;
+  label: string;
+  usableCBM: number; // Usable volume per container (for LCL: the practical upper limit of a part-load)
+  maxPayloadKg: number; // Maximum payload weight per container
+  freightBasis: 'perContainer' | 'perCBM'; // Whether shippingCostUSD is a price per container or per CBM shipped
+}
+
+export type ShippingAllocationMode = 'perUnit' | 'perCBM' | 'perValue';
+
+// Rule for splitting an order-level cost between the products
+export type AllocationRule = ShippingAllocationMode | 'perCarton';
+
+export type CostLineCurrency = CurrencyCode;
+
+// What a landed-cost line amount is measured against
+export type CostLineBasis = 'fixed' | 'percentFOB' | 'percentCIF' | 'perCBM' | 'perCarton';
+
+export interface CostLine {
+  id: string;
+  name: string; // e.g. "מכס", "מע\"מ יבוא", "עמיל מכס"
+  currency: CostLineCurrency; // Currency of fixed / per-CBM / per-carton amounts
+  basis: CostLineBasis;
+  amount: number; // Fixed amount, percentage (for % of FOB/CIF) or rate per CBM / carton
+  allocation: AllocationRule; // How the order total of this line is split between products
+}
+
+// A product's share of a landed-cost line
+export interface CostLineShare {
+  lineId: string;
+  name: string;
+  totalUSD: number; // This product's share of the line in USD
+  perUnitUSD: number;
+}
+
+// Inputs of the pricing engine. Built from the saved order inputs and the catalog (see orderLines.ts).
 export interface UserInputs {
-  containerType: '20' | '40';
-  products: Product[];
-  exchangeRate: number;
-  shippingCostUSD: number; // Total shipping cost in USD
+  containerType: ContainerTypeId;
+  containerCount?: number; // Number of containers in the order (FCL only, default 1)
+  products: OrderProduct[];
+  exchangeRates: ExchangeRateTable; // Rate table for the order (purchase, cost-line and sale currencies)
+  saleCurrency: CurrencyCode; // Currency the customer is quoted in
+  rateDate?: string; // Date the rate table was taken from the rate history (pinned rates), unset if typed by hand
+  shippingCostUSD: number; // Shipping cost in USD - per container, or per CBM for LCL (see ContainerType.freightBasis)
+  shippingAllocation: ShippingAllocationMode; // How the shipping cost is split between products (units, CBM or factory value)
   unknownExpensesType: 'percent' | 'fixed';
   unknownExpensesValue: number; // Percentage if type is 'percent', fixed amount in ILS if type is 'fixed'
+  unknownExpensesAllocation?: 'perValue' | 'perUnit'; // How a fixed amount is spread over the order (default: by factory value)
+  costLines?: CostLine[]; // Itemized landed costs: duty, import VAT, port fees, broker, inland trucking
+}
+
+// Order inputs as edited and saved: order lines reference the catalog instead of embedding products
+export interface OrderInputs extends Omit<UserInputs, 'products'> {
+  lines: OrderLine[];
+  quote?: QuoteDetails; // Customer and terms of the order's quotation, once one was issued
+  supplierDocument?: SupplierDocumentDetails; // Supplier and terms of the order's proforma, once one was issued
+  scenarios?: Scenario[]; // What-if variants compared against the order as entered
+}
+
+// What a scenario changes in the order - unset fields keep the order's value
+export interface ScenarioOverrides {
+  containerType?: ContainerTypeId;
+  containerCount?: number;
+  usdRate?: number; // ILS per USD
+  profitMargin?: number; // Uniform margin for every product, replacing the per-product margins and pricing strategies
+  shippingCostUSD?: number;
+  unknownExpensesValue?: number;
+}
+
+// A named what-if variant of an order
+export interface Scenario {
+  id: string;
+  name: string;
+  overrides: ScenarioOverrides;
+}
+
+// Delivery terms of a quotation
+export type Incoterm = 'EXW' | 'FOB' | 'DDP';
+
+// Company details and default terms printed on every customer quotation - stored once per team
+export interface QuoteTemplate {
+  companyName: string;
+  companyDetails: string; // Address, phone, email and registration number, one per line
+  logoDataUrl?: string; // PNG or JPEG
+  quoteNumberPrefix: string; // Quote numbers are the prefix, the year and a running number
+  validityDays: number;
+  incoterm: Incoterm;
+  paymentTerms: string;
+  notes: string; // General terms printed under the totals
+  signatureName: string;
+  signatureTitle: string;
+}
+
+// Who a quotation is for and on which terms
+export interface QuoteDetails {
+  customerName: string;
+  customerContact: string; // Contact person, phone and email
+  quoteNumber: string;
+  issueDate: string; // ISO date "YYYY-MM-DD"
+  validityDays: number;
+  incoterm: Incoterm;
+  paymentTerms: string;
+}
+
+// Supplier and shipping terms of the purchase order / proforma and packing list sent to the factory (in English)
+export interface SupplierDocumentDetails {
+  documentNumber: string;
+  issueDate: string; // ISO date "YYYY-MM-DD"
+  supplierName: string;
+  supplierDetails: string; // Address and contact, one per line
+  incoterm: Incoterm;
+  paymentTerms: string;
+  portOfLoading: string;
+  portOfDischarge: string;
+  shippingMarks: string;
 }
 
 export interface CalculationResult {
@@ -38,25 +221,60 @@ export interface CalculationResult {
   cartons: number;
   totalUnits: number;
   totalCBM: number; // Total CBM for this size (allocatedCBM)
+  totalWeightKg: number; // Gross weight of all the cartons of this size in kg
   totalFactoryPriceUSD: number; // Total factory price for all units (factoryPriceUSD * totalUnits)
-  totalExpensesUSD: number; // Total expenses (factory price + proportional unknown expenses) in USD
+  totalExpensesUSD: number; // Total expenses (factory price + proportional unknown expenses + landed-cost lines) in USD
   priceUSD: number;
   priceILS: number;
+  landingCostUSD: number; // Factory price per unit plus its share of the unknown expenses and landed-cost lines in USD
   landingCostILS: number;
   totalProfitILS: number;
   totalProfitUSD: number; // Total profit in USD
-  shippingPerUnitUSD: number; // Shipping cost per unit (total shipping / total units) in USD
-  shippingPerUnitILS: number; // Shipping cost per unit (total shipping / total units) in ILS
+  shippingPerUnitUSD: number; // Shipping cost per unit (this product's shipping share / its units) in USD
+  shippingPerUnitILS: number; // Shipping cost per unit (this product's shipping share / its units) in ILS
   priceWithShippingUSD: number; // Customer price per unit including shipping in USD
   priceWithShippingILS: number; // Customer price per unit including shipping in ILS
+  priceSale: number; // Customer price per unit in the order's sale currency
+  shippingPerUnitSale: number; // Shipping cost per unit in the sale currency
+  priceWithShippingSale: number; // Customer price per unit including shipping in the sale currency
+  costLinesPerUnitUSD: number; // Sum of the landed-cost lines per unit in USD
+  costBreakdown: CostLineShare[]; // Per-line landed costs for this product
+  customerDiscountPercent: number; // Volume discount of the customer price tier the product's units reach
+  productProfitMargin: number; // Profit margin the product's actual (strategy and rounding) price yields, one decimal (for display)
 }
 
 export interface SummaryData {
   totalUnits: number;
   totalCBMUtilized: number;
   totalCBM: number; // Sum of all totalCBM from all sizes
+  totalWeightKg: number; // Gross weight of the whole order in kg
   totalFactoryPriceUSD: number; // Sum of all totalFactoryPriceUSD from all sizes
   totalInvestmentUSD: number;
   totalProfitILS: number;
+  totalRevenueSale: number; // Customer total (incl. shipping) in the sale currency
   totalUnknownExpensesILS: number;
+  containerCapacityCBM: number; // Usable CBM of all the containers in the order
+  payloadCapacityKg: number; // Maximum payload of all the containers in the order
+  bindingConstraint: 'volume' | 'weight'; // Which limit the order fills first
+  totalShippingCostUSD: number; // Shipping cost for the whole order in USD
+  totalCostLinesUSD: number; // Sum of all landed-cost lines in USD
+  costLineTotals: { lineId: string; name: string; totalUSD: number }[];
+}
+
+// Team member roles: admins manage the catalog and costs, sales quote within the permitted
+// margins without seeing supplier prices, viewers only read
+export type UserRole = 'admin' | 'sales' | 'viewer';
+
+export interface RolePermissions {
+  viewCosts: boolean; // Factory prices, purchase currencies, margins and the seller view
+  editCatalog: boolean; // Catalog products and their versions
+  editCosts: boolean; // Exchange rates, shipping, expenses and landed-cost lines
+  editOrders: boolean; // Save orders and change quantities and prices
+  manageTeam: boolean; // Invite members, assign roles and set the sales margin range
+}
+
+// Profit margins (percent) the prices sales reps may quote with are worked out from
+export interface MarginRange {
+  min: number;
+  max: number;
 }